@@ -3,17 +3,31 @@ import jsonPlugin from "@rollup/plugin-json";
 import { nodeResolve } from "@rollup/plugin-node-resolve";
 import typescript from "@rollup/plugin-typescript";
 
-export default {
-  input: "src/index.ts",
-  output: {
-    esModule: true,
-    file: "dist/index.js",
-    format: "es",
+const plugins = [
+  typescript(),
+  nodeResolve({ preferBuiltins: true }),
+  commonjs(),
+  jsonPlugin(),
+];
+
+export default [
+  {
+    input: "src/index.ts",
+    output: {
+      esModule: true,
+      file: "dist/index.js",
+      format: "es",
+    },
+    plugins,
+  },
+  // Coverage parse workers, started by ParsePool from dist/index.js
+  {
+    input: "src/parse-worker.ts",
+    output: {
+      esModule: true,
+      file: "dist/parse-worker.js",
+      format: "es",
+    },
+    plugins,
   },
-  plugins: [
-    typescript(),
-    nodeResolve({ preferBuiltins: true }),
-    commonjs(),
-    jsonPlugin(),
-  ],
-};
+];
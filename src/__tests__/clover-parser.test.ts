@@ -170,4 +170,27 @@ describe("CloverParser", () => {
     const parser = new CloverParser();
     expect(parser.format).toBe("clover");
   });
+
+  it("should parse method lines as functions", async () => {
+    const parser = new CloverParser();
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<coverage generated="1764746556005">
+  <project timestamp="1764746556005">
+    <metrics statements="3" coveredstatements="1" methods="2" coveredmethods="1"/>
+    <file name="Cart.php" path="/app/src/Cart.php">
+      <metrics statements="3" coveredstatements="1" methods="2" coveredmethods="1"/>
+      <line num="8" type="method" name="add" visibility="public" complexity="1" count="4"/>
+      <line num="10" type="stmt" count="4"/>
+      <line num="13" type="method" signature="clear() : void" count="0"/>
+      <line num="15" type="stmt" count="0"/>
+    </file>
+  </project>
+</coverage>`;
+    const result = await parser.parseContent(xml);
+
+    expect(result.files[0].functions).toEqual([
+      { name: "add", startLine: 8, hits: 4 },
+      { name: "clear() : void", startLine: 13, hits: 0 },
+    ]);
+  });
 });
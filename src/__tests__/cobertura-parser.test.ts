@@ -99,6 +99,28 @@ describe("CoberturaParser", () => {
     const line4 = mathFile!.lines.find((l) => l.lineNumber === 4);
     expect(line4?.count).toBe(2);
     expect(line4?.type).toBe("cond");
+    // condition-coverage only counts arms
+    expect(line4?.branches).toEqual([
+      { block: 0, branch: 0, taken: 1 },
+      { block: 0, branch: 1, taken: 0 },
+    ]);
+  });
+
+  it("should record methods as functions", async () => {
+    const parser = new CoberturaParser();
+    const result = await parser.parseContent(sampleCoberturaXML);
+
+    const math = result.files.find((f) => f.path === "src/math.py")!;
+    expect(math.functions).toEqual([
+      { name: "add", startLine: 1, endLine: 2, hits: 5 },
+      { name: "divide", startLine: 5, endLine: 6, hits: 0 },
+    ]);
+    expect(math.methods).toBe(2);
+    expect(math.coveredMethods).toBe(1);
+    // No <method> elements, no methods
+    const utils = result.files.find((f) => f.path === "src/utils.py")!;
+    expect(utils.functions).toEqual([]);
+    expect(utils.methods).toBe(0);
   });
 
   it("should detect Cobertura format correctly", () => {
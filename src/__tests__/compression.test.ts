@@ -0,0 +1,195 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { gzipSync } from "node:zlib";
+import AdmZip from "adm-zip";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { DETECTION_CONFIDENCE } from "../parsers/base-parser.js";
+import { CoverageParserFactory } from "../parsers/parser-factory.js";
+import { readCoverageInputs, toCoverageInput } from "../utils/compression.js";
+
+/**
+ * Build a ustar entry: a 512-byte header followed by padded content
+ */
+function tarEntry(name: string, content: string, type = "0"): Buffer {
+  const data = Buffer.from(content);
+  const header = Buffer.alloc(512);
+  header.write(name, 0, 100);
+  header.write("0000644\0", 100);
+  header.write(`${data.length.toString(8).padStart(11, "0")}\0`, 124);
+  header.write(type, 156);
+  header.write("ustar\0", 257);
+  header.write("00", 263);
+  // The checksum is computed with its own field set to spaces
+  header.write("        ", 148);
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  header.write(`${checksum.toString(8).padStart(6, "0")}\0 `, 148);
+  const padding = Buffer.alloc((512 - (data.length % 512)) % 512);
+  return Buffer.concat([header, data, padding]);
+}
+
+describe("readCoverageInputs", () => {
+  let tmpDir: string;
+  const lcov = "SF:src/a.ts\nDA:1,1\nend_of_record\n";
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "compression-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true });
+  });
+
+  it("should stream gzip-compressed files of any size", async () => {
+    const plainPath = path.join(tmpDir, "lcov.info");
+    const gzipPath = path.join(tmpDir, "lcov.info.gz");
+    fs.writeFileSync(plainPath, lcov);
+    fs.writeFileSync(gzipPath, gzipSync(lcov));
+
+    expect(readCoverageInputs(plainPath)).toMatchObject([
+      { filePath: plainPath, label: plainPath, content: lcov },
+    ]);
+    // However small on disk, compressed reports may expand to gigabytes
+    const [input] = readCoverageInputs(gzipPath);
+    expect(input).toMatchObject({
+      filePath: gzipPath,
+      label: gzipPath,
+      content: null,
+      head: lcov,
+    });
+    const results = await CoverageParserFactory.parseInput(input);
+    expect(results.files[0].path).toBe("src/a.ts");
+  });
+
+  it.each([
+    [
+      "coverage.xml.gz",
+      "cobertura",
+      `<?xml version="1.0"?>
+<coverage line-rate="1" branch-rate="0" timestamp="1">
+  <packages><package name="src"><classes>
+    <class name="a" filename="src/a.ts">
+      <lines><line number="1" hits="1"/></lines>
+    </class>
+  </classes></package></packages>
+</coverage>`,
+    ],
+    [
+      "coverage-final.json.gz",
+      "istanbul",
+      JSON.stringify({
+        "src/a.ts": {
+          path: "src/a.ts",
+          statementMap: {
+            0: { start: { line: 1, column: 0 }, end: { line: 1, column: 9 } },
+          },
+          fnMap: {},
+          branchMap: {},
+          s: { 0: 1 },
+          f: {},
+          b: {},
+        },
+      }),
+    ],
+  ])("should auto-detect gzipped %s", async (name, format, report) => {
+    const gzipPath = path.join(tmpDir, name);
+    fs.writeFileSync(gzipPath, gzipSync(report));
+
+    const [input] = readCoverageInputs(gzipPath);
+    const detection = CoverageParserFactory.detectFormat(
+      input.head,
+      input.label,
+    );
+
+    expect(detection.parser?.format).toBe(format);
+    // Detected from content, not only the file name fallback
+    expect(detection.candidates[0].confidence).toBeGreaterThanOrEqual(
+      DETECTION_CONFIDENCE.CONTENT,
+    );
+    const results = await CoverageParserFactory.parseInput(input);
+    expect(results.files[0].path).toBe("src/a.ts");
+  });
+
+  it("should list the files of a zip archive", () => {
+    const zip = new AdmZip();
+    zip.addFile("web/lcov.info", Buffer.from(lcov));
+    zip.addFile("api/coverage.out.gz", gzipSync("mode: set\n"));
+    zip.addFile("__MACOSX/web/._lcov.info", Buffer.from("junk"));
+    const zipPath = path.join(tmpDir, "coverage.zip");
+    zip.writeZip(zipPath);
+
+    const inputs = readCoverageInputs(zipPath);
+
+    expect(inputs.map((input) => [input.label, input.content])).toEqual([
+      [`${zipPath}!/api/coverage.out.gz`, "mode: set\n"],
+      [`${zipPath}!/web/lcov.info`, lcov],
+    ]);
+    expect(inputs.every((input) => input.filePath === zipPath)).toBe(true);
+  });
+
+  it("should list the files of a tar.gz archive", () => {
+    const longName = `${"nested/".repeat(20)}lcov.info`;
+    const tar = Buffer.concat([
+      tarEntry("./reports/", "", "5"),
+      tarEntry("./reports/lcov.info", lcov),
+      tarEntry("././@LongLink", longName, "L"),
+      tarEntry(longName.slice(0, 99), lcov),
+      Buffer.alloc(1024),
+    ]);
+    const tarPath = path.join(tmpDir, "coverage.tar.gz");
+    fs.writeFileSync(tarPath, gzipSync(tar));
+
+    expect(readCoverageInputs(tarPath).map((input) => input.label)).toEqual([
+      `${tarPath}!/reports/lcov.info`,
+      `${tarPath}!/${longName}`,
+    ]);
+  });
+
+  it("should stream plain files above the threshold", async () => {
+    const plainPath = path.join(tmpDir, "lcov.info");
+    fs.writeFileSync(plainPath, lcov.repeat(3));
+
+    const [input] = readCoverageInputs(plainPath, 0);
+    expect(input.content).toBeNull();
+    expect(input.head).toBe(lcov.repeat(3));
+
+    const results = await CoverageParserFactory.parseInput(input);
+    expect(results.files).toHaveLength(3);
+    expect(results.files[0].path).toBe("src/a.ts");
+  });
+
+  it("should read the start of a highly compressible gzip file", () => {
+    const gzipPath = path.join(tmpDir, "lcov.info.gz");
+    fs.writeFileSync(gzipPath, gzipSync(lcov.repeat(500_000)));
+
+    const [input] = readCoverageInputs(gzipPath);
+    expect(input.head.length).toBeLessThanOrEqual(1024 * 1024);
+    expect(input.head.startsWith(lcov)).toBe(true);
+  });
+});
+
+describe("toCoverageInput", () => {
+  it("should keep the label of streamed and in-memory inputs", () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "compression-test-"));
+    const gzipPath = path.join(tmpDir, "lcov.info.gz");
+    const lcov = "SF:src/a.ts\nDA:1,1\nend_of_record\n";
+    fs.writeFileSync(gzipPath, gzipSync(lcov));
+    const label = `${gzipPath}!/reports/lcov.info`;
+
+    try {
+      expect(toCoverageInput(gzipPath, label, null)).toMatchObject({
+        filePath: gzipPath,
+        label,
+        content: null,
+        head: lcov,
+      });
+      expect(toCoverageInput(gzipPath, label, lcov)).toMatchObject({
+        filePath: gzipPath,
+        label,
+        content: lcov,
+      });
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true });
+    }
+  });
+});
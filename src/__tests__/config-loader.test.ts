@@ -326,4 +326,87 @@ comment:
       );
     });
   });
+
+  describe("fixes configuration", () => {
+    it("should parse prefix and regex fixes", async () => {
+      const yaml = `
+fixes:
+  - "/app/::"
+  - "::src/"
+  - "github.com/acme/svc/::pkg/"
+  - "^.*/generated/::gen/"
+`;
+      vi.spyOn(fs, "existsSync").mockReturnValue(true);
+      vi.spyOn(fs, "readFileSync").mockReturnValue(yaml);
+
+      const config = await loader.loadConfig();
+
+      expect(config.fixes).toEqual([
+        { before: "/app/", after: "", regex: false },
+        { before: "", after: "src/", regex: false },
+        { before: "github.com/acme/svc/", after: "pkg/", regex: false },
+        { before: "^.*/generated/", after: "gen/", regex: true },
+      ]);
+    });
+
+    it("should default fixes to an empty list", async () => {
+      vi.spyOn(fs, "existsSync").mockReturnValue(false);
+
+      const config = await loader.loadConfig();
+
+      expect(config.fixes).toEqual([]);
+    });
+
+    it("should skip malformed fixes with a warning", async () => {
+      const yaml = `
+fixes:
+  - "no-separator"
+  - "^([::x"
+  - "/app/::"
+`;
+      vi.spyOn(fs, "existsSync").mockReturnValue(true);
+      vi.spyOn(fs, "readFileSync").mockReturnValue(yaml);
+      const warningSpy = vi
+        .spyOn(core, "warning")
+        .mockImplementation(() => undefined);
+
+      const config = await loader.loadConfig();
+
+      expect(config.fixes).toEqual([
+        { before: "/app/", after: "", regex: false },
+      ]);
+      expect(warningSpy).toHaveBeenCalledWith(
+        'Invalid fixes entry "no-separator". Expected "before::after".',
+      );
+      expect(warningSpy).toHaveBeenCalledWith(
+        'Invalid fixes regex "^([". Skipping.',
+      );
+    });
+  });
+
+  describe("parsers configuration", () => {
+    it("should parse plugin paths and skip invalid entries", async () => {
+      const yaml = `
+parsers:
+  - tools/coverage/cobol-parser.mjs
+  - 42
+  - " lua/profiler.mjs "
+`;
+      vi.spyOn(fs, "existsSync").mockReturnValue(true);
+      vi.spyOn(fs, "readFileSync").mockReturnValue(yaml);
+      const warningSpy = vi
+        .spyOn(core, "warning")
+        .mockImplementation(() => undefined);
+
+      const config = await loader.loadConfig();
+
+      expect(config.parsers).toEqual([
+        "tools/coverage/cobol-parser.mjs",
+        "lua/profiler.mjs",
+      ]);
+      expect(warningSpy).toHaveBeenCalledWith(
+        'Invalid parsers entry "42". Expected a module path.',
+      );
+    });
+  });
 });
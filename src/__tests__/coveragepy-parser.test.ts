@@ -0,0 +1,159 @@
+import { describe, expect, it } from "vitest";
+import { CoveragePyParser } from "../parsers/coveragepy-parser.js";
+
+describe("CoveragePyParser", () => {
+  const sampleReport = JSON.stringify({
+    meta: {
+      format: 3,
+      version: "7.4.0",
+      timestamp: "2024-01-15T10:30:00.000000",
+      branch_coverage: true,
+      show_contexts: true,
+    },
+    files: {
+      "src/calc.py": {
+        executed_lines: [1, 2, 3, 4, 6],
+        summary: { covered_lines: 5, num_statements: 7 },
+        missing_lines: [7, 8],
+        excluded_lines: [10],
+        executed_branches: [
+          [3, 4],
+          [6, -1],
+        ],
+        missing_branches: [
+          [3, 7],
+          [8, -1],
+        ],
+        contexts: {
+          "1": [""],
+          "3": ["tests/test_calc.py::test_add|run", ""],
+          "4": [
+            "tests/test_calc.py::test_add|run",
+            "tests/test_calc.py::test_sub|run",
+          ],
+        },
+        functions: {
+          add: { executed_lines: [3, 4], missing_lines: [] },
+          div: { executed_lines: [], missing_lines: [7, 8] },
+          "": { executed_lines: [1, 2], missing_lines: [] },
+        },
+      },
+      "src/util.py": {
+        executed_lines: [1, 2],
+        missing_lines: [],
+        excluded_lines: [],
+      },
+    },
+    totals: { covered_lines: 7, num_statements: 9 },
+  });
+
+  it("should parse coverage.py JSON correctly", async () => {
+    const parser = new CoveragePyParser();
+    const result = await parser.parseContent(sampleReport);
+
+    expect(result.files).toHaveLength(2);
+    expect(result.timestamp).toBe(Date.parse("2024-01-15T10:30:00.000000"));
+  });
+
+  it("should calculate line and branch metrics", async () => {
+    const parser = new CoveragePyParser();
+    const result = await parser.parseContent(sampleReport);
+
+    const calc = result.files.find((f) => f.path === "src/calc.py")!;
+    expect(calc.name).toBe("calc.py");
+    expect(calc.statements).toBe(7);
+    expect(calc.coveredStatements).toBe(5);
+    expect(calc.conditionals).toBe(4);
+    expect(calc.coveredConditionals).toBe(2);
+    expect(calc.branchRate).toBe(50);
+
+    expect(result.metrics.statements).toBe(9);
+    expect(result.metrics.coveredStatements).toBe(7);
+  });
+
+  it("should track missing and partial lines", async () => {
+    const parser = new CoveragePyParser();
+    const result = await parser.parseContent(sampleReport);
+
+    const calc = result.files.find((f) => f.path === "src/calc.py")!;
+    expect(calc.missingLines).toEqual([7, 8]);
+    // Line 3 ran but its 3->7 arc was never taken
+    expect(calc.partialLines).toEqual([3]);
+
+    const line3 = calc.lines.find((l) => l.lineNumber === 3);
+    expect(line3?.type).toBe("cond");
+    expect(line3?.trueCount).toBe(1);
+    expect(line3?.falseCount).toBe(1);
+
+    // Line 6 ran and its only arc was taken
+    const line6 = calc.lines.find((l) => l.lineNumber === 6);
+    expect(line6?.type).toBe("cond");
+    expect(line6?.falseCount).toBe(0);
+  });
+
+  it("should ignore excluded lines", async () => {
+    const parser = new CoveragePyParser();
+    const result = await parser.parseContent(sampleReport);
+
+    const calc = result.files.find((f) => f.path === "src/calc.py")!;
+    expect(calc.lines.find((l) => l.lineNumber === 10)).toBeUndefined();
+  });
+
+  it("should keep test contexts on lines", async () => {
+    const parser = new CoveragePyParser();
+    const result = await parser.parseContent(sampleReport);
+
+    const calc = result.files.find((f) => f.path === "src/calc.py")!;
+    expect(calc.lines.find((l) => l.lineNumber === 4)?.contexts).toEqual([
+      "tests/test_calc.py::test_add|run",
+      "tests/test_calc.py::test_sub|run",
+    ]);
+    // The default empty context is dropped
+    expect(calc.lines.find((l) => l.lineNumber === 3)?.contexts).toEqual([
+      "tests/test_calc.py::test_add|run",
+    ]);
+    expect(
+      calc.lines.find((l) => l.lineNumber === 1)?.contexts,
+    ).toBeUndefined();
+  });
+
+  it("should count functions but not module-level code", async () => {
+    const parser = new CoveragePyParser();
+    const result = await parser.parseContent(sampleReport);
+
+    const calc = result.files.find((f) => f.path === "src/calc.py")!;
+    expect(calc.methods).toBe(2);
+    expect(calc.coveredMethods).toBe(1);
+  });
+
+  it("should locate functions by their lines", async () => {
+    const parser = new CoveragePyParser();
+    const result = await parser.parseContent(sampleReport);
+
+    const calc = result.files.find((f) => f.path === "src/calc.py")!;
+    expect(calc.functions).toEqual([
+      { name: "add", startLine: 3, endLine: 4, hits: 1 },
+      { name: "div", startLine: 7, endLine: 8, hits: 0 },
+    ]);
+  });
+
+  it("should detect coverage.py format", () => {
+    const parser = new CoveragePyParser();
+    expect(parser.canParse(sampleReport)).toBe(true);
+    expect(parser.canParse(sampleReport, "coverage.json")).toBe(true);
+    expect(parser.canParse(sampleReport, "coverage.xml")).toBe(false);
+    expect(
+      parser.canParse(JSON.stringify({ coverage: { "a.py": { "1": 1 } } })),
+    ).toBe(false);
+  });
+
+  it("should throw on invalid JSON", async () => {
+    const parser = new CoveragePyParser();
+    await expect(parser.parseContent("{")).rejects.toThrow(
+      "Invalid coverage.py JSON",
+    );
+    await expect(parser.parseContent("{}")).rejects.toThrow(
+      "missing 'files' key",
+    );
+  });
+});
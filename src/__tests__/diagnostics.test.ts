@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import { CoberturaParser } from "../parsers/cobertura-parser.js";
+import { CoveragePyParser } from "../parsers/coveragepy-parser.js";
+import { LcovParser } from "../parsers/lcov-parser.js";
+import { OpenCoverParser } from "../parsers/opencover-parser.js";
+import { DiagnosticsCollector } from "../utils/diagnostics.js";
+
+describe("DiagnosticsCollector", () => {
+  it("should tag diagnostics with their report file", () => {
+    const diagnostics = new DiagnosticsCollector();
+    diagnostics.forFile("a.info").warning("Bad record", { line: 3 });
+    diagnostics.forFile("b.xml").info("Note");
+
+    expect(diagnostics.getDiagnostics()).toEqual([
+      { severity: "warning", message: "Bad record", file: "a.info", line: 3 },
+      { severity: "info", message: "Note", file: "b.xml" },
+    ]);
+    expect(diagnostics.forFile("b.xml").getProblems()).toEqual([]);
+    expect(DiagnosticsCollector.format(diagnostics.getProblems()[0])).toBe(
+      "a.info:3: Bad record",
+    );
+  });
+
+  it("should report LCOV problems with their line numbers", async () => {
+    const lcov = [
+      "SF:src/a.ts",
+      "DA:1,1",
+      "DA:two,1",
+      "DA:3,-1",
+      "BRDA:9,0,0,1",
+      "end_of_record",
+      "SF:src/a.ts",
+      "DA:1,2",
+      "end_of_record",
+    ].join("\n");
+    const diagnostics = new DiagnosticsCollector("lcov.info");
+
+    const results = await new LcovParser().parseContent(lcov, diagnostics);
+
+    expect(results.files).toHaveLength(2);
+    expect(
+      diagnostics.getProblems().map((d) => `${d.line}: ${d.message}`),
+    ).toEqual([
+      '3: Malformed record "DA:two,1" skipped',
+      '4: Negative hit count in "DA:3,-1"',
+      "5: BRDA for line 9 outside the DA lines",
+      "7: Duplicate SF block; hits are merged",
+    ]);
+  });
+
+  it("should report Cobertura lines that are skipped", async () => {
+    const xml = `<?xml version="1.0"?>
+<coverage line-rate="1" branch-rate="0" timestamp="1">
+  <packages>
+    <package name="app">
+      <classes>
+        <class name="app.Main" filename="app/main.py">
+          <lines>
+            <line number="1" hits="1"/>
+            <line number="x" hits="1"/>
+          </lines>
+        </class>
+      </classes>
+    </package>
+  </packages>
+</coverage>`;
+    const diagnostics = new DiagnosticsCollector("coverage.xml");
+
+    const results = await new CoberturaParser().parseContent(xml, diagnostics);
+
+    expect(results.files[0].lines).toHaveLength(1);
+    expect(diagnostics.getProblems()).toEqual([
+      {
+        severity: "warning",
+        message: '<line> with invalid number "x" skipped',
+        file: "coverage.xml",
+        source: "app/main.py",
+      },
+    ]);
+  });
+
+  it("should report OpenCover points that are skipped", async () => {
+    const xml = `<?xml version="1.0"?>
+<CoverageSession>
+  <Modules>
+    <Module>
+      <Files>
+        <File uid="1" fullPath="C:\\src\\App.cs" />
+      </Files>
+      <Classes>
+        <Class>
+          <Methods>
+            <Method visited="true">
+              <Name>System.Void App::Run()</Name>
+              <FileRef uid="1" />
+              <SequencePoints>
+                <SequencePoint vc="1" sl="3" fileid="1" />
+                <SequencePoint vc="1" sl="0" fileid="1" />
+                <SequencePoint vc="1" sl="4" fileid="7" />
+              </SequencePoints>
+            </Method>
+          </Methods>
+        </Class>
+      </Classes>
+    </Module>
+  </Modules>
+</CoverageSession>`;
+    const diagnostics = new DiagnosticsCollector("coverage.opencover.xml");
+
+    const results = await new OpenCoverParser().parseContent(xml, diagnostics);
+
+    expect(results.files[0].lines.map((l) => l.lineNumber)).toEqual([3]);
+    // Any problem fails the run with strict-parsing
+    expect(diagnostics.getProblems().map((d) => d.message)).toEqual([
+      '<SequencePoint> with invalid sl "0" skipped',
+      'Unknown file uid "7" skipped',
+    ]);
+  });
+
+  it("should report coverage.py lines and arcs that are skipped", async () => {
+    const json = JSON.stringify({
+      files: {
+        "app.py": {
+          executed_lines: [1, 2, "3"],
+          missing_lines: [2, 4],
+          executed_branches: [[1, 2], [1]],
+          missing_branches: [],
+        },
+      },
+    });
+    const diagnostics = new DiagnosticsCollector("coverage.json");
+
+    const results = await new CoveragePyParser().parseContent(
+      json,
+      diagnostics,
+    );
+
+    expect(results.files[0].lines.map((l) => l.lineNumber)).toEqual([1, 2, 4]);
+    expect(diagnostics.getProblems().map((d) => d.message)).toEqual([
+      'Invalid line "3" in executed_lines skipped',
+      "Line 2 is both executed and missing",
+      "Malformed arc [1] skipped",
+    ]);
+  });
+});
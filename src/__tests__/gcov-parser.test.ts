@@ -0,0 +1,188 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { gzipSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { GcovParser } from "../parsers/gcov-parser.js";
+
+describe("GcovParser", () => {
+  const gcovJson = JSON.stringify({
+    format_version: "1",
+    gcc_version: "12.2.0",
+    current_working_directory: "/build",
+    data_file: "main.gcda",
+    files: [
+      {
+        file: "src/main.c",
+        functions: [
+          {
+            name: "main",
+            demangled_name: "main",
+            start_line: 3,
+            end_line: 12,
+            blocks: 4,
+            blocks_executed: 3,
+            execution_count: 1,
+          },
+          {
+            name: "unused",
+            demangled_name: "unused",
+            start_line: 14,
+            end_line: 16,
+            blocks: 1,
+            blocks_executed: 0,
+            execution_count: 0,
+          },
+        ],
+        lines: [
+          { line_number: 3, function_name: "main", count: 1, branches: [] },
+          {
+            line_number: 4,
+            function_name: "main",
+            count: 1,
+            unexecuted_block: true,
+            branches: [
+              { count: 1, fallthrough: true, throw: false },
+              { count: 0, fallthrough: false, throw: false },
+            ],
+          },
+          { line_number: 5, function_name: "main", count: 0, branches: [] },
+          { line_number: 15, function_name: "unused", count: 0, branches: [] },
+        ],
+      },
+    ],
+  });
+
+  const gcovrJson = JSON.stringify({
+    "gcovr/format_version": "0.6",
+    files: [
+      {
+        file: "src/util.c",
+        functions: [{ name: "clamp", lineno: 2, execution_count: 4 }],
+        lines: [
+          { line_number: 1, count: 0, branches: [], "gcovr/noncode": true },
+          {
+            line_number: 2,
+            count: 4,
+            branches: [
+              { count: 3, fallthrough: true, throw: false },
+              { count: 1, fallthrough: false, throw: false },
+            ],
+            "gcovr/noncode": false,
+          },
+          { line_number: 3, count: 3, branches: [], "gcovr/noncode": false },
+        ],
+      },
+      {
+        file: "include/util.h",
+        functions: [],
+        lines: [{ line_number: 8, count: 2, branches: [] }],
+      },
+      {
+        file: "include/util.h",
+        functions: [],
+        lines: [{ line_number: 8, count: 1, branches: [] }],
+      },
+    ],
+  });
+
+  it("should parse gcov --json-format output", async () => {
+    const parser = new GcovParser();
+    const result = await parser.parseContent(gcovJson);
+
+    expect(result.files).toHaveLength(1);
+    const main = result.files[0];
+    expect(main.name).toBe("main.c");
+    expect(main.statements).toBe(4);
+    expect(main.coveredStatements).toBe(2);
+    expect(main.missingLines).toEqual([5, 15]);
+  });
+
+  it("should fill partial lines from partially taken branches", async () => {
+    const parser = new GcovParser();
+    const result = await parser.parseContent(gcovJson);
+
+    const main = result.files[0];
+    expect(main.conditionals).toBe(2);
+    expect(main.coveredConditionals).toBe(1);
+    expect(main.partialLines).toEqual([4]);
+
+    const line4 = main.lines.find((l) => l.lineNumber === 4);
+    expect(line4?.type).toBe("cond");
+    expect(line4?.trueCount).toBe(1);
+    expect(line4?.falseCount).toBe(1);
+  });
+
+  it("should count functions", async () => {
+    const parser = new GcovParser();
+    const result = await parser.parseContent(gcovJson);
+
+    expect(result.files[0].methods).toBe(2);
+    expect(result.files[0].coveredMethods).toBe(1);
+    expect(result.files[0].functions).toEqual([
+      { name: "main", startLine: 3, endLine: 12, hits: 1 },
+      { name: "unused", startLine: 14, endLine: 16, hits: 0 },
+    ]);
+  });
+
+  it("should parse gcovr --json output", async () => {
+    const parser = new GcovParser();
+    const result = await parser.parseContent(gcovrJson);
+
+    const util = result.files.find((f) => f.path === "src/util.c")!;
+    // Non-code lines are skipped
+    expect(util.statements).toBe(2);
+    expect(util.coveredStatements).toBe(2);
+    expect(util.conditionals).toBe(2);
+    expect(util.coveredConditionals).toBe(2);
+    expect(util.partialLines).toEqual([]);
+    expect(util.methods).toBe(1);
+    expect(util.coveredMethods).toBe(1);
+    // gcovr only records where a function starts
+    expect(util.functions).toEqual([
+      { name: "clamp", startLine: 2, endLine: undefined, hits: 4 },
+    ]);
+  });
+
+  it("should merge repeated entries for the same file", async () => {
+    const parser = new GcovParser();
+    const result = await parser.parseContent(gcovrJson);
+
+    expect(result.files).toHaveLength(2);
+    const header = result.files.find((f) => f.path === "include/util.h")!;
+    expect(header.lines).toEqual([
+      expect.objectContaining({ lineNumber: 8, count: 3 }),
+    ]);
+  });
+
+  it("should read gzip-compressed files", async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "gcov-test-"));
+    const filePath = path.join(tmpDir, "main.gcov.json.gz");
+    fs.writeFileSync(filePath, gzipSync(gcovJson));
+
+    try {
+      const parser = new GcovParser();
+      const result = await parser.parseFile(filePath);
+      expect(result.files[0].path).toBe("src/main.c");
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true });
+    }
+  });
+
+  it("should detect gcov and gcovr formats", () => {
+    const parser = new GcovParser();
+    expect(parser.canParse(gcovJson)).toBe(true);
+    expect(parser.canParse(gcovrJson, "gcovr.json")).toBe(true);
+    expect(parser.canParse("", "main.gcov.json.gz")).toBe(true);
+    expect(parser.canParse(gcovJson, "coverage.xml")).toBe(false);
+    expect(parser.canParse('{"files": []}')).toBe(false);
+  });
+
+  it("should throw on invalid content", async () => {
+    const parser = new GcovParser();
+    await expect(parser.parseContent("{")).rejects.toThrow("Invalid gcov JSON");
+    await expect(parser.parseContent("{}")).rejects.toThrow(
+      "missing 'files' array",
+    );
+  });
+});
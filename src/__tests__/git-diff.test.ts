@@ -0,0 +1,132 @@
+import { execFileSync } from "node:child_process";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import parseDiff from "parse-diff";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { LocalGitDiff } from "../utils/git-diff.js";
+
+describe("LocalGitDiff", () => {
+  describe("resolveRange", () => {
+    it("should diff the pushed commits", () => {
+      expect(
+        LocalGitDiff.resolveRange(
+          "push",
+          { before: "aaa111", after: "bbb222" },
+          "bbb222",
+        ),
+      ).toEqual({
+        base: "aaa111",
+        head: "bbb222",
+        mergeBase: false,
+        source: "push",
+      });
+    });
+
+    it("should skip pushes that create a branch", () => {
+      expect(
+        LocalGitDiff.resolveRange(
+          "push",
+          { before: "0".repeat(40), after: "bbb222" },
+          "bbb222",
+        ),
+      ).toBeNull();
+    });
+
+    it("should diff a merge group against its base", () => {
+      expect(
+        LocalGitDiff.resolveRange(
+          "merge_group",
+          { merge_group: { base_sha: "aaa111", head_sha: "ccc333" } },
+          "ccc333",
+        ),
+      ).toMatchObject({ base: "aaa111", head: "ccc333", mergeBase: false });
+    });
+
+    it("should prefer patch-base-ref and diff from the merge base", () => {
+      expect(
+        LocalGitDiff.resolveRange(
+          "push",
+          { before: "aaa111", after: "bbb222" },
+          "bbb222",
+          "release/1.x",
+        ),
+      ).toMatchObject({ base: "release/1.x", head: "bbb222", mergeBase: true });
+      expect(
+        LocalGitDiff.resolveRange("workflow_dispatch", {}, "bbb222"),
+      ).toBeNull();
+    });
+  });
+
+  describe("getDiff", () => {
+    let tempDir: string;
+    let origin: string;
+
+    const run = (cwd: string, ...args: string[]) =>
+      execFileSync("git", args, { cwd, encoding: "utf-8" }).trim();
+
+    const commit = (file: string, content: string) => {
+      fs.writeFileSync(path.join(origin, file), content);
+      run(origin, "add", file);
+      run(origin, "commit", "-q", "-m", `Update ${file}`);
+      return run(origin, "rev-parse", "HEAD");
+    };
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "git-diff-test-"));
+      origin = path.join(tempDir, "origin");
+      fs.mkdirSync(origin);
+      run(origin, "init", "-q", "-b", "main");
+      run(origin, "config", "user.name", "Test");
+      run(origin, "config", "user.email", "test@example.com");
+      run(origin, "config", "uploadpack.allowAnySHA1InWant", "true");
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true });
+    });
+
+    it("should diff a pushed range", async () => {
+      const before = commit("a.ts", "one\n");
+      const after = commit("a.ts", "one\ntwo\n");
+
+      const diff = await LocalGitDiff.getDiff(
+        { base: before, head: after, mergeBase: false, source: "push" },
+        origin,
+      );
+
+      const [file] = parseDiff(diff);
+      expect(file.to).toBe("a.ts");
+      expect(file.additions).toBe(1);
+    });
+
+    it("should fetch the base and deepen a shallow clone", async () => {
+      for (let i = 0; i < 3; i++) commit("base.ts", `base ${i}\n`);
+      run(origin, "checkout", "-q", "-b", "feature");
+      for (let i = 0; i < 60; i++) commit("feature.ts", `feature ${i}\n`);
+      run(origin, "checkout", "-q", "main");
+      commit("main.ts", "main only\n");
+
+      const checkout = path.join(tempDir, "checkout");
+      run(
+        tempDir,
+        "clone",
+        "-q",
+        "--depth=1",
+        "--branch",
+        "feature",
+        `file://${origin}`,
+        checkout,
+      );
+      const head = run(checkout, "rev-parse", "HEAD");
+
+      const diff = await LocalGitDiff.getDiff(
+        { base: "main", head, mergeBase: true, source: "patch-base-ref" },
+        checkout,
+      );
+
+      // Only the feature branch's changes, not main's later commit
+      expect(parseDiff(diff).map((file) => file.to)).toEqual(["feature.ts"]);
+    });
+  });
+});
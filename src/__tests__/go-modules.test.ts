@@ -0,0 +1,103 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { GoParser } from "../parsers/go-parser.js";
+import { GoModuleResolver } from "../utils/go-modules.js";
+
+describe("GoModuleResolver", () => {
+  let workspace: string;
+
+  const writeFile = (relativePath: string, content: string) => {
+    const fullPath = path.join(workspace, relativePath);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  };
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), "go-modules-test-"));
+    writeFile("go.mod", "module github.com/acme/mono\n\ngo 1.22\n");
+    writeFile(
+      "services/api/go.mod",
+      "// API service\nmodule github.com/acme/mono/services/api\n",
+    );
+    writeFile("tools/go.mod", 'module "github.com/acme/tools"\n');
+    // Vendored and hidden modules are not part of the checkout's modules
+    writeFile("vendor/github.com/dep/go.mod", "module github.com/dep\n");
+    writeFile(".cache/go.mod", "module github.com/cache\n");
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true });
+  });
+
+  describe("findModules", () => {
+    it("should map module paths to their directories", () => {
+      const modules = GoModuleResolver.findModules(workspace);
+
+      expect(Object.fromEntries(modules)).toEqual({
+        "github.com/acme/mono": "",
+        "github.com/acme/mono/services/api": "services/api",
+        "github.com/acme/tools": "tools",
+      });
+    });
+
+    it("should include modules listed in go.work", () => {
+      writeFile("_experiments/worker/go.mod", "module example.com/worker\n");
+      writeFile(
+        "go.work",
+        "go 1.22\n\nuse (\n\t.\n\t./_experiments/worker // not walked\n)\n",
+      );
+
+      const modules = GoModuleResolver.findModules(workspace);
+
+      expect(modules.get("example.com/worker")).toBe("_experiments/worker");
+    });
+  });
+
+  describe("resolvePath", () => {
+    it("should prefer the longest matching module", () => {
+      const modules = GoModuleResolver.findModules(workspace);
+
+      expect(
+        GoModuleResolver.resolvePath(
+          "github.com/acme/mono/services/api/handler.go",
+          modules,
+        ),
+      ).toBe("services/api/handler.go");
+      expect(
+        GoModuleResolver.resolvePath(
+          "github.com/acme/mono/pkg/util.go",
+          modules,
+        ),
+      ).toBe("pkg/util.go");
+      expect(
+        GoModuleResolver.resolvePath("github.com/other/x.go", modules),
+      ).toBeNull();
+    });
+  });
+
+  describe("resolveResultPaths", () => {
+    it("should rewrite profile entries and report unresolved ones", async () => {
+      const profile = [
+        "mode: set",
+        "github.com/acme/mono/services/api/handler.go:10.2,12.16 1 1",
+        "github.com/acme/tools/lint.go:3.2,4.10 1 0",
+        "github.com/unknown/lib/x.go:1.1,2.2 1 1",
+      ].join("\n");
+      const parsed = await new GoParser().parseContent(profile);
+
+      const { results, unresolved } = GoModuleResolver.resolveResultPaths(
+        parsed,
+        GoModuleResolver.findModules(workspace),
+      );
+
+      expect(results.files.map((f) => f.path)).toEqual([
+        "services/api/handler.go",
+        "tools/lint.go",
+        "github.com/unknown/lib/x.go",
+      ]);
+      expect(unresolved).toEqual(["github.com/unknown/lib/x.go"]);
+    });
+  });
+});
@@ -1,3 +1,4 @@
+import { Readable } from "node:stream";
 import { describe, expect, it } from "vitest";
 import { GoParser } from "../parsers/go-parser.js";
 
@@ -160,6 +161,49 @@ github.com/user/project/file.go:3.1,7.2 1 0
     expect(line6?.count).toBe(0);
   });
 
+  it("should mark lines with a block that never ran as partial", async () => {
+    // if err != nil { return err } on line 4, body never ran
+    const profile = `mode: set
+example.com/app/main.go:3.20,4.16 2 1
+example.com/app/main.go:4.16,4.28 1 0
+example.com/app/main.go:5.2,5.14 1 1
+example.com/app/main.go:4.16,4.28 1 0
+example.com/app/main.go:3.20,4.16 2 1
+`;
+
+    const parser = new GoParser();
+    const result = await parser.parseContent(profile);
+
+    const file = result.files[0];
+    expect(file.partialLines).toEqual([4]);
+    expect(file.missingLines).toEqual([]);
+    // Repeated blocks are one region with the highest count
+    expect(file.regions).toEqual([
+      { startLine: 3, startColumn: 20, endLine: 4, endColumn: 16, count: 1 },
+      { startLine: 4, startColumn: 16, endLine: 4, endColumn: 28, count: 0 },
+      { startLine: 5, startColumn: 2, endLine: 5, endColumn: 14, count: 1 },
+    ]);
+  });
+
+  it("should count the statements of a repeated block once", async () => {
+    // -coverpkg profiles repeat blocks once per test binary
+    const profile = `mode: count
+example.com/app/main.go:3.10,6.2 3 0
+example.com/app/main.go:8.10,9.2 1 0
+example.com/app/main.go:3.10,6.2 3 2
+example.com/app/main.go:8.10,9.2 1 0
+example.com/app/main.go:3.10,6.2 3 1
+`;
+
+    const parser = new GoParser();
+    const result = await parser.parseContent(profile);
+
+    expect(result.files[0].statements).toBe(4);
+    expect(result.files[0].coveredStatements).toBe(3);
+    expect(result.metrics.statements).toBe(4);
+    expect(result.metrics.coveredStatements).toBe(3);
+  });
+
   it("should handle empty content", async () => {
     const parser = new GoParser();
     const result = await parser.parseContent("");
@@ -179,4 +223,14 @@ github.com/user/project/file.go:3.1,7.2 1 0
     const parser = new GoParser();
     expect(parser.format).toBe("go");
   });
+
+  it("should parse a stream the same as content", async () => {
+    const parser = new GoParser();
+    const chunks = sampleGoCoverage.match(/[\s\S]{1,7}/g) ?? [];
+    const streamed = await parser.parseStream(Readable.from(chunks));
+    const parsed = await parser.parseContent(sampleGoCoverage);
+
+    expect(streamed.files).toEqual(parsed.files);
+    expect(streamed.metrics).toEqual(parsed.metrics);
+  });
 });
@@ -223,6 +223,66 @@ describe("IstanbulParser", () => {
 
     expect(result.files[0].conditionals).toBe(4); // 2 + 2 branches
     expect(result.files[0].coveredConditionals).toBe(3); // 2 + 1 covered
+    expect(result.files[0].lines[0].branches).toEqual([
+      { block: 0, branch: 0, taken: 3, label: "then" },
+      { block: 0, branch: 1, taken: 2, label: "else" },
+      { block: 1, branch: 0, taken: 5 },
+      { block: 1, branch: 1, taken: 0 },
+    ]);
+  });
+
+  it("should mark lines with an unexecuted expression as partial", async () => {
+    // const sign = n >= 0 ? "+" : "-";  (n was never negative)
+    const ternaryJSON = JSON.stringify({
+      "/src/sign.ts": {
+        path: "/src/sign.ts",
+        statementMap: {
+          "0": { start: { line: 2, column: 2 }, end: { line: 2, column: 34 } },
+        },
+        fnMap: {},
+        branchMap: {
+          "0": {
+            loc: {
+              start: { line: 2, column: 15 },
+              end: { line: 2, column: 33 },
+            },
+            type: "cond-expr",
+            locations: [
+              { start: { line: 2, column: 26 }, end: { line: 2, column: 29 } },
+              { start: { line: 2, column: 30 }, end: { line: 2, column: 33 } },
+            ],
+            line: 2,
+          },
+          "1": {
+            loc: {
+              start: { line: 2, column: 2 },
+              end: { line: 2, column: 34 },
+            },
+            type: "if",
+            locations: [
+              { start: { line: 2, column: 2 }, end: { line: 2, column: 34 } },
+              { start: {}, end: {} },
+            ],
+            line: 2,
+          },
+        },
+        s: { "0": 4 },
+        f: {},
+        b: { "0": [4, 0], "1": [4, 4] },
+      },
+    });
+
+    const parser = new IstanbulParser();
+    const result = await parser.parseContent(ternaryJSON);
+
+    const file = result.files[0];
+    expect(file.partialLines).toEqual([2]);
+    // "if" arms and arms without positions are not regions
+    expect(file.regions).toEqual([
+      { startLine: 2, startColumn: 2, endLine: 2, endColumn: 34, count: 4 },
+      { startLine: 2, startColumn: 26, endLine: 2, endColumn: 29, count: 4 },
+      { startLine: 2, startColumn: 30, endLine: 2, endColumn: 33, count: 0 },
+    ]);
   });
 
   it("should throw on invalid JSON", async () => {
@@ -237,4 +297,14 @@ describe("IstanbulParser", () => {
     const parser = new IstanbulParser();
     expect(parser.format).toBe("istanbul");
   });
+
+  it("should parse functions with their locations", async () => {
+    const parser = new IstanbulParser();
+    const result = await parser.parseContent(sampleIstanbulJSON);
+
+    expect(result.files[0].functions).toEqual([
+      { name: "add", startLine: 1, endLine: 3, hits: 5 },
+      { name: "subtract", startLine: 5, endLine: 8, hits: 0 },
+    ]);
+  });
 });
@@ -117,6 +117,10 @@ describe("JaCoCoParser", () => {
     expect(line11?.type).toBe("cond");
     expect(line11?.trueCount).toBe(1);
     expect(line11?.falseCount).toBe(1);
+    expect(line11?.branches).toEqual([
+      { block: 0, branch: 0, taken: 1 },
+      { block: 0, branch: 1, taken: 0 },
+    ]);
 
     // Uncovered line
     const line14 = calcFile!.lines.find((l) => l.lineNumber === 14);
@@ -191,4 +195,16 @@ describe("JaCoCoParser", () => {
     const parser = new JaCoCoParser();
     expect(parser.format).toBe("jacoco");
   });
+
+  it("should parse methods of the classes in each source file", async () => {
+    const parser = new JaCoCoParser();
+    const result = await parser.parseContent(sampleJaCoCoXML);
+
+    expect(result.files[0].functions).toEqual([
+      { name: "Calculator.add", startLine: 5, hits: 1 },
+      { name: "Calculator.divide", startLine: 10, hits: 1 },
+    ]);
+    // No <class> elements for Helper.java
+    expect(result.files[1].functions).toEqual([]);
+  });
 });
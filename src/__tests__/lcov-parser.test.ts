@@ -1,3 +1,4 @@
+import { Readable } from "node:stream";
 import { describe, expect, it } from "vitest";
 import { LcovParser } from "../parsers/lcov-parser.js";
 
@@ -175,6 +176,37 @@ end_of_record
     expect(result.files[0].coveredConditionals).toBe(1);
   });
 
+  it("should keep each branch arm of a line", async () => {
+    const lcov = `SF:/src/file.ts
+DA:4,3
+BRDA:4,0,0,2
+BRDA:4,0,1,1
+BRDA:4,0,2,0
+BRDA:4,0,3,-
+DA:9,1
+BRDA:9,e1,(a, b) == null,0
+BRDA:9,e1,(a, b) != null,1
+end_of_record
+`;
+
+    const parser = new LcovParser();
+    const result = await parser.parseContent(lcov);
+
+    const [line4, line9] = result.files[0].lines;
+    expect(line4.branches).toEqual([
+      { block: 0, branch: 0, taken: 2 },
+      { block: 0, branch: 1, taken: 1 },
+      { block: 0, branch: 2, taken: 0 },
+      { block: 0, branch: 3, taken: 0 },
+    ]);
+    expect([line4.trueCount, line4.falseCount]).toEqual([2, 2]);
+    // lcov 2.x exception blocks and branch expressions
+    expect(line9.branches).toEqual([
+      { block: 1, branch: 0, taken: 0, label: "(a, b) == null" },
+      { block: 1, branch: 1, taken: 1, label: "(a, b) != null" },
+    ]);
+  });
+
   it("should handle empty content gracefully", async () => {
     const parser = new LcovParser();
     const result = await parser.parseContent("");
@@ -187,4 +219,47 @@ end_of_record
     const parser = new LcovParser();
     expect(parser.format).toBe("lcov");
   });
+
+  it("should parse a stream the same as content", async () => {
+    const parser = new LcovParser();
+    // Chunk boundaries fall inside records and lines
+    const chunks = sampleLcov.match(/[\s\S]{1,7}/g) ?? [];
+    const streamed = await parser.parseStream(Readable.from(chunks));
+    const parsed = await parser.parseContent(sampleLcov);
+
+    expect(streamed.files).toEqual(parsed.files);
+    expect(streamed.metrics).toEqual(parsed.metrics);
+  });
+
+  it("should parse functions with their hits", async () => {
+    const parser = new LcovParser();
+    const result = await parser.parseContent(sampleLcov);
+
+    expect(result.files[0].functions).toEqual([
+      { name: "add", startLine: 1, endLine: undefined, hits: 5 },
+      { name: "subtract", startLine: 5, endLine: undefined, hits: 0 },
+    ]);
+  });
+
+  it("should read lcov 2.x function end lines", async () => {
+    const parser = new LcovParser();
+    const lcov = `SF:src/main.c
+FN:3,9,main
+FN:11,14,parse_args
+FNDA:1,main
+FNDA:0,parse_args
+DA:3,1
+DA:12,0
+end_of_record
+`;
+    const result = await parser.parseContent(lcov);
+
+    expect(result.files[0].functions).toEqual([
+      { name: "main", startLine: 3, endLine: 9, hits: 1 },
+      { name: "parse_args", startLine: 11, endLine: 14, hits: 0 },
+    ]);
+    // FNF/FNH are derived when missing
+    expect(result.files[0].methods).toBe(2);
+    expect(result.files[0].coveredMethods).toBe(1);
+  });
 });
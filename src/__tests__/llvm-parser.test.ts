@@ -0,0 +1,213 @@
+import { describe, expect, it } from "vitest";
+import { LlvmParser } from "../parsers/llvm-parser.js";
+
+describe("LlvmParser", () => {
+  const sampleExport = JSON.stringify({
+    type: "llvm.coverage.json.export",
+    version: "2.0.1",
+    data: [
+      {
+        files: [
+          {
+            filename: "/src/main.rs",
+            segments: [
+              [1, 11, 1, true, true, false],
+              [2, 8, 1, true, true, false],
+              [2, 15, 0, true, true, false],
+              [4, 6, 1, true, false, false],
+              [5, 2, 0, false, false, false],
+              [7, 1, 0, false, true, false],
+              [8, 1, 0, false, false, false],
+            ],
+            branches: [[2, 8, 2, 14, 1, 0, 0, 0, 4]],
+          },
+          {
+            filename: "/src/lib.rs",
+            segments: [
+              [1, 1, 3, true, true, false],
+              [2, 2, 0, false, false, false],
+            ],
+            branches: [],
+          },
+        ],
+        functions: [
+          { name: "main", count: 1, filenames: ["/src/main.rs"], regions: [] },
+          {
+            name: "unused",
+            count: 0,
+            filenames: ["/src/main.rs"],
+            regions: [],
+          },
+          { name: "helper", count: 3, filenames: ["/src/lib.rs"], regions: [] },
+        ],
+        totals: {},
+      },
+    ],
+  });
+
+  it("should parse llvm-cov export correctly", async () => {
+    const parser = new LlvmParser();
+    const result = await parser.parseContent(sampleExport);
+
+    expect(result.files).toHaveLength(2);
+    expect(result.files[0].name).toBe("main.rs");
+  });
+
+  it("should convert segments to line counts using line-start rules", async () => {
+    const parser = new LlvmParser();
+    const result = await parser.parseContent(sampleExport);
+
+    const main = result.files.find((f) => f.path === "/src/main.rs")!;
+    const counts = Object.fromEntries(
+      main.lines.map((l) => [l.lineNumber, l.count]),
+    );
+
+    // Line 2 takes the highest count among regions starting on it
+    // Line 3 inherits the wrapped 0-count region
+    // Line 4 uses the wrapped count, not the non-entry segment starting on it
+    // Line 5 inherits the count of the segment wrapping into it
+    // Lines 6-8 are unmapped or skipped
+    expect(counts).toEqual({ 1: 1, 2: 1, 3: 0, 4: 0, 5: 1 });
+    expect(main.statements).toBe(5);
+    expect(main.coveredStatements).toBe(3);
+    expect(main.missingLines).toEqual([3, 4]);
+  });
+
+  it("should parse branches into conditionals", async () => {
+    const parser = new LlvmParser();
+    const result = await parser.parseContent(sampleExport);
+
+    const main = result.files.find((f) => f.path === "/src/main.rs")!;
+    expect(main.conditionals).toBe(2);
+    expect(main.coveredConditionals).toBe(1);
+    expect(main.partialLines).toEqual([2]);
+
+    const line2 = main.lines.find((l) => l.lineNumber === 2);
+    expect(line2?.type).toBe("cond");
+    expect(line2?.trueCount).toBe(1);
+    expect(line2?.falseCount).toBe(1);
+  });
+
+  it("should fill method coverage from function records", async () => {
+    const parser = new LlvmParser();
+    const result = await parser.parseContent(sampleExport);
+
+    const main = result.files.find((f) => f.path === "/src/main.rs")!;
+    expect(main.methods).toBe(2);
+    expect(main.coveredMethods).toBe(1);
+
+    expect(result.metrics.methods).toBe(3);
+    expect(result.metrics.coveredMethods).toBe(2);
+  });
+
+  it("should locate functions by their own regions", async () => {
+    const parser = new LlvmParser();
+    const result = await parser.parseContent(
+      JSON.stringify({
+        type: "llvm.coverage.json.export",
+        data: [
+          {
+            files: [
+              {
+                filename: "/src/main.rs",
+                segments: [
+                  [1, 11, 1, true, true, false],
+                  [5, 2, 0, false, false, false],
+                ],
+              },
+            ],
+            functions: [
+              {
+                name: "main",
+                count: 1,
+                filenames: ["/src/main.rs", "/src/macros.rs"],
+                regions: [
+                  [1, 11, 5, 2, 1, 0, 0, 0],
+                  [3, 5, 3, 20, 0, 0, 0, 0],
+                  // Expansion of a macro defined in another file
+                  [40, 1, 48, 2, 1, 1, 0, 0],
+                ],
+              },
+              {
+                name: "unused",
+                count: 0,
+                filenames: ["/src/main.rs"],
+                regions: [[7, 1, 9, 2, 0, 0, 0, 0]],
+              },
+            ],
+          },
+        ],
+      }),
+    );
+
+    expect(result.files[0].functions).toEqual([
+      { name: "main", startLine: 1, endLine: 5, hits: 1 },
+      { name: "unused", startLine: 7, endLine: 9, hits: 0 },
+    ]);
+  });
+
+  it("should merge files across multiple binaries", async () => {
+    const parser = new LlvmParser();
+    const multiBinary = JSON.stringify({
+      type: "llvm.coverage.json.export",
+      version: "2.0.1",
+      data: [
+        {
+          files: [
+            {
+              filename: "/src/lib.rs",
+              segments: [
+                [1, 1, 1, true, true, false],
+                [2, 2, 0, false, false, false],
+              ],
+              branches: [[1, 4, 1, 9, 1, 0, 0, 0, 4]],
+            },
+          ],
+          functions: [{ name: "helper", count: 1, filenames: ["/src/lib.rs"] }],
+        },
+        {
+          files: [
+            {
+              filename: "/src/lib.rs",
+              segments: [
+                [1, 1, 2, true, true, false],
+                [2, 2, 0, false, false, false],
+              ],
+              branches: [[1, 4, 1, 9, 0, 2, 0, 0, 4]],
+            },
+          ],
+          functions: [{ name: "helper", count: 2, filenames: ["/src/lib.rs"] }],
+        },
+      ],
+    });
+
+    const result = await parser.parseContent(multiBinary);
+
+    expect(result.files).toHaveLength(1);
+    const lib = result.files[0];
+    expect(lib.lines.find((l) => l.lineNumber === 1)?.count).toBe(3);
+    expect(lib.conditionals).toBe(2);
+    expect(lib.coveredConditionals).toBe(2);
+    expect(lib.partialLines).toEqual([]);
+    expect(lib.methods).toBe(1);
+    expect(lib.coveredMethods).toBe(1);
+  });
+
+  it("should detect llvm-cov export format", () => {
+    const parser = new LlvmParser();
+    expect(parser.canParse(sampleExport)).toBe(true);
+    expect(parser.canParse(sampleExport, "llvm-cov.json")).toBe(true);
+    expect(parser.canParse(sampleExport, "coverage.xml")).toBe(false);
+    expect(parser.canParse('{"coverage": {}}')).toBe(false);
+  });
+
+  it("should throw on invalid content", async () => {
+    const parser = new LlvmParser();
+    await expect(parser.parseContent("nope")).rejects.toThrow(
+      "Invalid llvm-cov JSON",
+    );
+    await expect(parser.parseContent("{}")).rejects.toThrow(
+      "missing 'data' array",
+    );
+  });
+});
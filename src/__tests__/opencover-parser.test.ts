@@ -0,0 +1,187 @@
+import { describe, expect, it } from "vitest";
+import { OpenCoverParser } from "../parsers/opencover-parser.js";
+import { CoverageParserFactory } from "../parsers/parser-factory.js";
+
+describe("OpenCoverParser", () => {
+  const sampleOpenCover = `<?xml version="1.0" encoding="utf-8"?>
+<CoverageSession>
+  <Summary numSequencePoints="6" visitedSequencePoints="4" numBranchPoints="4" visitedBranchPoints="3" sequenceCoverage="66.67" branchCoverage="75" />
+  <Modules>
+    <Module hash="ABC">
+      <ModulePath>MyLib.dll</ModulePath>
+      <ModuleName>MyLib</ModuleName>
+      <Files>
+        <File uid="1" fullPath="C:\\src\\MyLib\\Calculator.cs" />
+        <File uid="2" fullPath="C:\\src\\MyLib\\Formatter.cs" />
+      </Files>
+      <Classes>
+        <Class>
+          <FullName>MyLib.Calculator</FullName>
+          <Methods>
+            <Method visited="true" cyclomaticComplexity="2" sequenceCoverage="100" branchCoverage="50">
+              <Name>System.Int32 MyLib.Calculator::Add(System.Int32,System.Int32)</Name>
+              <FileRef uid="1" />
+              <SequencePoints>
+                <SequencePoint vc="3" uspid="1" ordinal="0" sl="10" sc="9" el="10" ec="22" fileid="1" />
+                <SequencePoint vc="3" uspid="2" ordinal="1" sl="11" sc="9" el="11" ec="30" fileid="1" />
+                <SequencePoint vc="0" uspid="3" ordinal="2" sl="11" sc="31" el="11" ec="40" fileid="1" />
+              </SequencePoints>
+              <BranchPoints>
+                <BranchPoint vc="3" uspid="4" ordinal="3" path="0" sl="11" fileid="1" />
+                <BranchPoint vc="0" uspid="5" ordinal="4" path="1" sl="11" fileid="1" />
+              </BranchPoints>
+            </Method>
+            <Method visited="false" cyclomaticComplexity="1" sequenceCoverage="0" branchCoverage="0">
+              <Name>System.Int32 MyLib.Calculator::Divide(System.Int32,System.Int32)</Name>
+              <FileRef uid="1" />
+              <SequencePoints>
+                <SequencePoint vc="0" uspid="6" ordinal="0" sl="20" sc="9" el="20" ec="22" />
+              </SequencePoints>
+              <BranchPoints />
+            </Method>
+          </Methods>
+        </Class>
+        <Class>
+          <FullName>MyLib.Formatter</FullName>
+          <Methods>
+            <Method visited="true" cyclomaticComplexity="2" sequenceCoverage="100" branchCoverage="100">
+              <Name>System.String MyLib.Formatter::Format(System.Int32)</Name>
+              <FileRef uid="2" />
+              <SequencePoints>
+                <SequencePoint vc="1" uspid="7" ordinal="0" sl="5" sc="9" el="5" ec="22" fileid="2" />
+                <SequencePoint vc="1" uspid="8" ordinal="1" sl="6" sc="9" el="6" ec="22" fileid="2" />
+              </SequencePoints>
+              <BranchPoints>
+                <BranchPoint vc="1" uspid="9" ordinal="2" path="0" sl="5" fileid="2" />
+                <BranchPoint vc="1" uspid="10" ordinal="3" path="1" sl="5" fileid="2" />
+              </BranchPoints>
+            </Method>
+          </Methods>
+        </Class>
+      </Classes>
+    </Module>
+  </Modules>
+</CoverageSession>`;
+
+  it("should parse OpenCover XML correctly", async () => {
+    const parser = new OpenCoverParser();
+    const result = await parser.parseContent(sampleOpenCover);
+
+    expect(result.files).toHaveLength(2);
+    expect(result.metrics.statements).toBe(5);
+    expect(result.metrics.coveredStatements).toBe(4);
+    expect(result.metrics.conditionals).toBe(4);
+    expect(result.metrics.coveredConditionals).toBe(3);
+  });
+
+  it("should resolve file uid references", async () => {
+    const parser = new OpenCoverParser();
+    const result = await parser.parseContent(sampleOpenCover);
+
+    const calculator = result.files.find((f) =>
+      f.path.endsWith("Calculator.cs"),
+    );
+    expect(calculator).toBeDefined();
+    expect(calculator!.path).toBe("C:/src/MyLib/Calculator.cs");
+    expect(calculator!.name).toBe("Calculator.cs");
+  });
+
+  it("should map sequence points to lines", async () => {
+    const parser = new OpenCoverParser();
+    const result = await parser.parseContent(sampleOpenCover);
+
+    const calculator = result.files.find((f) =>
+      f.path.endsWith("Calculator.cs"),
+    )!;
+    expect(calculator.lines.map((l) => [l.lineNumber, l.count])).toEqual([
+      [10, 3],
+      [11, 3],
+      [20, 0],
+    ]);
+    // Sequence points without fileid fall back to the method's FileRef
+    expect(calculator.missingLines).toEqual([20]);
+  });
+
+  it("should map branch points to conditionals", async () => {
+    const parser = new OpenCoverParser();
+    const result = await parser.parseContent(sampleOpenCover);
+
+    const calculator = result.files.find((f) =>
+      f.path.endsWith("Calculator.cs"),
+    )!;
+    expect(calculator.conditionals).toBe(2);
+    expect(calculator.coveredConditionals).toBe(1);
+    expect(calculator.partialLines).toEqual([11]);
+
+    const line11 = calculator.lines.find((l) => l.lineNumber === 11);
+    expect(line11?.type).toBe("cond");
+    expect(line11?.trueCount).toBe(1);
+    expect(line11?.falseCount).toBe(1);
+  });
+
+  it("should count visited methods", async () => {
+    const parser = new OpenCoverParser();
+    const result = await parser.parseContent(sampleOpenCover);
+
+    const calculator = result.files.find((f) =>
+      f.path.endsWith("Calculator.cs"),
+    )!;
+    expect(calculator.methods).toBe(2);
+    expect(calculator.coveredMethods).toBe(1);
+    expect(result.metrics.methods).toBe(3);
+    expect(result.metrics.coveredMethods).toBe(2);
+  });
+
+  it("should record methods as functions", async () => {
+    const parser = new OpenCoverParser();
+    const result = await parser.parseContent(sampleOpenCover);
+
+    const calculator = result.files.find((f) =>
+      f.path.endsWith("Calculator.cs"),
+    )!;
+    expect(calculator.functions).toEqual([
+      {
+        name: "System.Int32 MyLib.Calculator::Add(System.Int32,System.Int32)",
+        startLine: 10,
+        endLine: 11,
+        hits: 3,
+      },
+      {
+        name: "System.Int32 MyLib.Calculator::Divide(System.Int32,System.Int32)",
+        startLine: 20,
+        endLine: 20,
+        hits: 0,
+      },
+    ]);
+  });
+
+  it("should detect OpenCover format", () => {
+    const parser = new OpenCoverParser();
+    expect(parser.canParse(sampleOpenCover)).toBe(true);
+    expect(parser.canParse(sampleOpenCover, "coverage.opencover.xml")).toBe(
+      true,
+    );
+    expect(parser.canParse(sampleOpenCover, "coverage.json")).toBe(false);
+    expect(
+      parser.canParse("<coverage line-rate='1'><packages/></coverage>"),
+    ).toBe(false);
+  });
+
+  it("should be picked up by factory auto-detection", () => {
+    const parser = CoverageParserFactory.detectParser(
+      sampleOpenCover,
+      "coverage.opencover.xml",
+    );
+    expect(parser?.format).toBe("opencover");
+    expect(
+      CoverageParserFactory.detectFormatFromPath("coverage.opencover.xml"),
+    ).toBe("opencover");
+  });
+
+  it("should throw on missing CoverageSession", async () => {
+    const parser = new OpenCoverParser();
+    await expect(parser.parseContent("<root/>")).rejects.toThrow(
+      "missing CoverageSession element",
+    );
+  });
+});
@@ -0,0 +1,155 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { pathToFileURL } from "node:url";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { ParsePool, runParseTask } from "../utils/parse-pool.js";
+
+describe("ParsePool", () => {
+  const lcov = (file: string) => `SF:${file}\nDA:1,1\nend_of_record\n`;
+
+  it("should return results with the report's diagnostics", async () => {
+    const result = await runParseTask({
+      filePath: "lcov.info",
+      label: "lcov.info",
+      content: "SF:src/a.ts\nDA:1,1\nDA:oops\nend_of_record\n",
+      format: "auto",
+    });
+
+    expect(result.error).toBeUndefined();
+    expect(result.results?.files.map((f) => f.path)).toEqual(["src/a.ts"]);
+    expect(result.diagnostics.map((d) => [d.file, d.line])).toEqual([
+      ["lcov.info", 3],
+    ]);
+  });
+
+  it("should return parse errors instead of throwing", async () => {
+    const result = await runParseTask({
+      filePath: "report.xml",
+      label: "report.xml",
+      content: "<coverage",
+      format: "cobertura",
+    });
+
+    expect(result.results).toBeUndefined();
+    expect(result.error).toBeTruthy();
+  });
+
+  it("should parse on the main thread with a concurrency of 1", async () => {
+    const pool = new ParsePool(1, { plugins: [], workspace: process.cwd() });
+    const results = await Promise.all(
+      ["src/a.ts", "src/b.ts"].map((file) =>
+        pool.parse({
+          filePath: `${file}.info`,
+          label: `${file}.info`,
+          content: lcov(file),
+          format: "lcov",
+        }),
+      ),
+    );
+    await pool.close();
+
+    expect(results.map((r) => r.results?.files[0].path)).toEqual([
+      "src/a.ts",
+      "src/b.ts",
+    ]);
+  });
+
+  describe("worker threads", () => {
+    // Stands in for the bundled parse worker: the task content says how
+    // long to take, or whether to fail or crash
+    const workerScript = `
+import { parentPort, threadId, workerData } from "node:worker_threads";
+
+parentPort.on("message", async (task) => {
+  if (task.content === "crash") throw new Error("Worker crashed");
+  if (task.content === "error") {
+    parentPort.postMessage({ error: "Invalid report", diagnostics: [] });
+    return;
+  }
+  await new Promise((resolve) => setTimeout(resolve, Number(task.content)));
+  parentPort.postMessage({
+    results: { timestamp: 0, files: [{ path: task.label }] },
+    diagnostics: [
+      { severity: "info", message: \`\${workerData.workspace} \${threadId}\` },
+    ],
+  });
+});
+`;
+    let tempDir: string;
+    let workerUrl: URL;
+
+    const task = (label: string, content: string) => ({
+      filePath: label,
+      label,
+      content,
+      format: "auto" as const,
+    });
+
+    beforeAll(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "parse-pool-test-"));
+      const workerPath = path.join(tempDir, "worker.mjs");
+      fs.writeFileSync(workerPath, workerScript);
+      workerUrl = pathToFileURL(workerPath);
+    });
+
+    afterAll(() => {
+      fs.rmSync(tempDir, { recursive: true });
+    });
+
+    it("should resolve each task with its own result", async () => {
+      const pool = new ParsePool(
+        3,
+        { plugins: [], workspace: "/ws" },
+        workerUrl,
+      );
+      // Later tasks finish first
+      const results = await Promise.all([
+        pool.parse(task("a.info", "150")),
+        pool.parse(task("b.info", "50")),
+        pool.parse(task("c.info", "0")),
+        pool.parse(task("d.info", "0")),
+      ]);
+      await pool.close();
+
+      expect(results.map((r) => r.results?.files[0].path)).toEqual([
+        "a.info",
+        "b.info",
+        "c.info",
+        "d.info",
+      ]);
+      const threads = results.map((r) => r.diagnostics[0].message);
+      expect(threads.every((t) => t.startsWith("/ws "))).toBe(true);
+      expect(threads).not.toContain("/ws 0");
+      expect(new Set(threads.slice(0, 3)).size).toBe(3);
+    });
+
+    it("should fail only the task of a report that fails or crashes", async () => {
+      const pool = new ParsePool(
+        2,
+        { plugins: [], workspace: "/ws" },
+        workerUrl,
+      );
+      const [failed, crashed, ...rest] = await Promise.allSettled([
+        pool.parse(task("bad.xml", "error")),
+        pool.parse(task("crash.xml", "crash")),
+        pool.parse(task("a.info", "0")),
+        pool.parse(task("b.info", "0")),
+      ]);
+      await pool.close();
+
+      expect(failed).toEqual({
+        status: "fulfilled",
+        value: { error: "Invalid report", diagnostics: [] },
+      });
+      expect(crashed).toMatchObject({
+        status: "rejected",
+        reason: { message: "Worker crashed" },
+      });
+      // The crashed worker is replaced for the remaining reports
+      expect(
+        rest.map((r) => r.status === "fulfilled" && r.value.results?.files[0]),
+      ).toEqual([{ path: "a.info" }, { path: "b.info" }]);
+    });
+  });
+});
@@ -111,6 +111,58 @@ github.com/user/project/file.go:1.1,3.2 1 1
     });
   });
 
+  describe("detectFormat", () => {
+    it("should prefer content markers over a generic file name", () => {
+      const detection = CoverageParserFactory.detectFormat(
+        lcovContent,
+        "coverage.out",
+      );
+
+      expect(detection.parser?.format).toBe("lcov");
+      expect(detection.ambiguous).toBe(false);
+      expect(detection.candidates.map((c) => c.format)).toEqual(["lcov", "go"]);
+      expect(detection.candidates[1]).toEqual({
+        format: "go",
+        confidence: 50,
+        reason: "file name",
+      });
+    });
+
+    it("should be certain when file name and content agree", () => {
+      const detection = CoverageParserFactory.detectFormat(
+        goCoverage,
+        "coverage.out",
+      );
+
+      expect(detection.candidates).toEqual([
+        {
+          format: "go",
+          confidence: 100,
+          reason: 'file name and "mode: set" header',
+        },
+      ]);
+    });
+
+    it("should report ties instead of picking by parser order", async () => {
+      const content = JSON.stringify({
+        type: "llvm.coverage.json.export",
+        result: [
+          { scriptId: "1", functions: [{ ranges: [{ startOffset: 0 }] }] },
+        ],
+      });
+
+      const detection = CoverageParserFactory.detectFormat(content, "x.json");
+      expect(detection.parser).toBeNull();
+      expect(detection.ambiguous).toBe(true);
+
+      await expect(
+        CoverageParserFactory.parseContent(content, "x.json"),
+      ).rejects.toThrow(
+        /Ambiguous coverage format for file: x\.json.*v8.*llvm/,
+      );
+    });
+  });
+
   describe("detectFormatFromPath", () => {
     it("should detect Clover from path", () => {
       expect(CoverageParserFactory.detectFormatFromPath("clover.xml")).toBe(
@@ -163,6 +215,12 @@ github.com/user/project/file.go:1.1,3.2 1 1
       );
     });
 
+    it("should detect SimpleCov from path", () => {
+      expect(
+        CoverageParserFactory.detectFormatFromPath("coverage/.resultset.json"),
+      ).toBe("simplecov");
+    });
+
     it("should return null for unknown paths", () => {
       expect(
         CoverageParserFactory.detectFormatFromPath("unknown.txt")
@@ -215,6 +273,18 @@ github.com/user/project/file.go:1.1,3.2 1 1
       expect(result.files).toHaveLength(1);
     });
 
+    it("should name the detected format when parsing fails", async () => {
+      await expect(
+        CoverageParserFactory.parseContent(
+          lcovContent,
+          "lcov.info",
+          "cobertura",
+        ),
+      ).rejects.toThrow(
+        "The content looks like lcov (file name and SF:/DA: records with end_of_record); try coverage-format: lcov or auto",
+      );
+    });
+
     it("should throw for undetectable format", async () => {
       await expect(
         CoverageParserFactory.parseContent("unknown content")
@@ -232,7 +302,15 @@ github.com/user/project/file.go:1.1,3.2 1 1
       expect(formats).toContain("istanbul");
       expect(formats).toContain("go");
       expect(formats).toContain("codecov");
-      expect(formats).toHaveLength(7);
+      expect(formats).toContain("simplecov");
+      expect(formats).toContain("coveragepy");
+      expect(formats).toContain("llvm");
+      expect(formats).toContain("opencover");
+      expect(formats).toContain("gcov");
+      expect(formats).toContain("xccov");
+      expect(formats).toContain("scoverage");
+      expect(formats).toContain("v8");
+      expect(formats).toHaveLength(15);
     });
   });
 
@@ -255,6 +333,207 @@ github.com/user/project/file.go:1.1,3.2 1 1
       );
     });
 
+    it("should merge the same file across results line by line", async () => {
+      const unit = await CoverageParserFactory.parseContent(
+        [
+          "SF:src/foo.ts",
+          "DA:1,1",
+          "DA:2,0",
+          "DA:3,2",
+          "BRDA:3,0,0,2",
+          "BRDA:3,0,1,0",
+          "end_of_record",
+        ].join("\n"),
+      );
+      const integration = await CoverageParserFactory.parseContent(
+        [
+          "SF:./src/foo.ts",
+          "DA:1,3",
+          "DA:2,0",
+          "DA:3,1",
+          "DA:4,0",
+          "BRDA:3,0,0,1",
+          "BRDA:3,0,1,1",
+          "end_of_record",
+        ].join("\n"),
+      );
+
+      const aggregated = CoverageParserFactory.aggregateResults([
+        unit,
+        integration,
+      ]);
+
+      expect(aggregated.files).toHaveLength(1);
+      const file = aggregated.files[0];
+      expect(file.path).toBe("src/foo.ts");
+      expect(file.lines.map((l) => [l.lineNumber, l.count])).toEqual([
+        [1, 4],
+        [2, 0],
+        [3, 3],
+        [4, 0],
+      ]);
+      expect(file.missingLines).toEqual([2, 4]);
+      // The integration run took the arm the unit run missed
+      expect(file.partialLines).toEqual([]);
+      expect(file.coveredConditionals).toBe(2);
+
+      // Totals come from the merged lines, not the sum of both reports
+      expect(aggregated.totalStatements).toBe(4);
+      expect(aggregated.coveredStatements).toBe(2);
+      expect(aggregated.totalFiles).toBe(1);
+      expect(aggregated.totalLines).toBe(4);
+      expect(aggregated.lineRate).toBe(50);
+    });
+
+    it("should normalize the path of a file reported once", async () => {
+      const report = await CoverageParserFactory.parseContent(
+        ["SF:./src/a.ts", "DA:1,1", "end_of_record"].join("\n"),
+      );
+
+      const aggregated = CoverageParserFactory.aggregateResults([report]);
+
+      expect(aggregated.files.map((f) => f.path)).toEqual(["src/a.ts"]);
+    });
+
+    it("should prefer line data over summary-only reports", async () => {
+      const report = await CoverageParserFactory.parseContent(
+        JSON.stringify({
+          targets: [
+            {
+              files: [
+                {
+                  path: "src/foo.swift",
+                  coveredLines: 9,
+                  executableLines: 10,
+                  functions: [],
+                },
+              ],
+            },
+          ],
+        }),
+        "report.json",
+      );
+      const archive = await CoverageParserFactory.parseContent(
+        JSON.stringify({
+          "src/foo.swift": [
+            { line: 1, isExecutable: true, executionCount: 1 },
+            { line: 2, isExecutable: true, executionCount: 0 },
+          ],
+        }),
+        "archive.json",
+      );
+
+      const aggregated = CoverageParserFactory.aggregateResults([
+        report,
+        archive,
+      ]);
+
+      expect(aggregated.files).toEqual([archive.files[0]]);
+      expect(aggregated.totalStatements).toBe(2);
+      expect(
+        CoverageParserFactory.aggregateResults([report]).totalStatements,
+      ).toBe(10);
+    });
+
+    it("should merge branch arms by their ids", async () => {
+      const unit = await CoverageParserFactory.parseContent(
+        [
+          "SF:src/foo.ts",
+          "DA:1,2",
+          "BRDA:1,0,0,1",
+          "BRDA:1,0,1,1",
+          "BRDA:1,0,2,0",
+          "BRDA:1,0,3,0",
+          "end_of_record",
+        ].join("\n"),
+      );
+      const integration = await CoverageParserFactory.parseContent(
+        [
+          "SF:src/foo.ts",
+          "DA:1,1",
+          "BRDA:1,0,0,0",
+          "BRDA:1,0,1,0",
+          "BRDA:1,0,2,1",
+          "BRDA:1,0,3,0",
+          "end_of_record",
+        ].join("\n"),
+      );
+
+      const aggregated = CoverageParserFactory.aggregateResults([
+        unit,
+        integration,
+      ]);
+
+      // Counts alone would give max(2, 1) = 2 arms taken
+      const [line] = aggregated.files[0].lines;
+      expect(line.branches?.map((arm) => arm.taken)).toEqual([1, 1, 1, 0]);
+      expect([line.trueCount, line.falseCount]).toEqual([3, 1]);
+      expect(aggregated.files[0].partialLines).toEqual([1]);
+    });
+
+    it("should clear region partials covered by another report", async () => {
+      const unit = await CoverageParserFactory.parseContent(
+        [
+          "mode: set",
+          "example.com/app/main.go:3.20,4.16 2 1",
+          "example.com/app/main.go:4.16,4.28 1 0",
+        ].join("\n"),
+      );
+      const integration = await CoverageParserFactory.parseContent(
+        [
+          "mode: set",
+          "example.com/app/main.go:3.20,4.16 2 1",
+          "example.com/app/main.go:4.16,4.28 1 1",
+        ].join("\n"),
+      );
+      expect(unit.files[0].partialLines).toEqual([4]);
+
+      const aggregated = CoverageParserFactory.aggregateResults([
+        unit,
+        integration,
+      ]);
+
+      const file = aggregated.files[0];
+      expect(file.partialLines).toEqual([]);
+      expect(file.regions?.map((r) => r.count)).toEqual([2, 1]);
+    });
+
+    it("should add up the hits of the same function", async () => {
+      const unit = await CoverageParserFactory.parseContent(
+        [
+          "SF:src/foo.ts",
+          "FN:1,foo",
+          "FN:5,bar",
+          "FNDA:0,foo",
+          "FNDA:0,bar",
+          "DA:1,0",
+          "end_of_record",
+        ].join("\n"),
+      );
+      const integration = await CoverageParserFactory.parseContent(
+        [
+          "SF:src/foo.ts",
+          "FN:1,foo",
+          "FNDA:3,foo",
+          "DA:1,3",
+          "end_of_record",
+        ].join("\n"),
+      );
+
+      const aggregated = CoverageParserFactory.aggregateResults([
+        unit,
+        integration,
+      ]);
+
+      const file = aggregated.files[0];
+      expect(file.functions?.map((fn) => [fn.name, fn.hits])).toEqual([
+        ["foo", 3],
+        ["bar", 0],
+      ]);
+      expect(file.methods).toBe(2);
+      expect(file.coveredMethods).toBe(1);
+    });
+
     it("should handle empty results array", () => {
       const aggregated = CoverageParserFactory.aggregateResults([]);
 
@@ -90,6 +90,127 @@ index 83db48f..bf269f4 100644
     expect(result.changedFiles).toEqual(["src/utils.ts"]);
   });
 
+  it("should list changed functions that never ran", () => {
+    const coverage: AggregatedCoverageResults = {
+      ...mockCoverage,
+      files: [
+        {
+          ...mockCoverage.files[0],
+          functions: [
+            { name: "sum", startLine: 9, endLine: 11, hits: 4 },
+            // Changed but never called; the range runs to the next function
+            { name: "subtract", startLine: 13, hits: 0 },
+            { name: "multiply", startLine: 17, endLine: 22, hits: 2 },
+            // Not touched by the diff
+            { name: "divide", startLine: 24, hits: 0 },
+          ],
+        },
+      ],
+    };
+
+    const result = PatchAnalyzer.analyzePatchCoverage(sampleDiff, coverage);
+
+    expect(result.uncoveredFunctions).toEqual([
+      { name: "subtract", startLine: 13, hits: 0, path: "src/utils.ts" },
+    ]);
+  });
+
+  it("should count lines with an unexecuted region as partial", () => {
+    const coverage: AggregatedCoverageResults = {
+      ...mockCoverage,
+      files: [
+        {
+          ...mockCoverage.files[0],
+          // The "b === 0" operand on line 18 never ran
+          regions: [
+            {
+              startLine: 18,
+              startColumn: 2,
+              endLine: 18,
+              endColumn: 28,
+              count: 1,
+            },
+            {
+              startLine: 18,
+              startColumn: 19,
+              endLine: 18,
+              endColumn: 25,
+              count: 0,
+            },
+          ],
+        },
+      ],
+    };
+
+    const result = PatchAnalyzer.analyzePatchCoverage(sampleDiff, coverage);
+
+    expect(result.coveredLines).toBe(4);
+    expect(result.partialLines).toBe(1);
+    expect(result.missedLines).toBe(1);
+    expect(result.totalLines).toBe(6);
+    expect(result.fileBreakdown[0].partialLines).toEqual([18]);
+    expect(result.percentage).toBeCloseTo(66.67, 2); // 4/6 * 100
+  });
+
+  it("should count lines with a missed branch arm as partial", () => {
+    const coverage: AggregatedCoverageResults = {
+      ...mockCoverage,
+      files: [
+        {
+          ...mockCoverage.files[0],
+          lines: mockCoverage.files[0].lines.map((line) =>
+            line.lineNumber === 18
+              ? { ...line, trueCount: 1, falseCount: 1 }
+              : line,
+          ),
+          partialLines: [21],
+        },
+      ],
+    };
+
+    const result = PatchAnalyzer.analyzePatchCoverage(sampleDiff, coverage);
+
+    expect(result.coveredLines).toBe(3);
+    expect(result.partialLines).toBe(2);
+    expect(result.missedLines).toBe(1);
+    expect(result.fileBreakdown[0].partialLines).toEqual([18, 21]);
+    expect(result.percentage).toBe(50); // 3/6 * 100
+  });
+
+  it.each([
+    ["none", 50], // 3/6
+    ["half", 66.67], // (3 + 2 * 0.5)/6
+    ["full", 83.33], // (3 + 2)/6
+  ] as const)("should give partial lines %s credit", (credit, expected) => {
+    const coverage: AggregatedCoverageResults = {
+      ...mockCoverage,
+      files: [{ ...mockCoverage.files[0], partialLines: [18, 21] }],
+    };
+
+    const result = PatchAnalyzer.analyzePatchCoverage(
+      sampleDiff,
+      coverage,
+      credit,
+    );
+
+    expect(result.partialLines).toBe(2);
+    expect(result.percentage).toBeCloseTo(expected, 2);
+    expect(result.fileBreakdown[0].percentage).toBeCloseTo(expected, 2);
+  });
+
+  it("should skip summary-only files", () => {
+    const coverage: AggregatedCoverageResults = {
+      ...mockCoverage,
+      files: [{ ...mockCoverage.files[0], summaryOnly: true }],
+    };
+
+    const result = PatchAnalyzer.analyzePatchCoverage(sampleDiff, coverage);
+
+    expect(result.totalLines).toBe(0);
+    expect(result.fileBreakdown).toEqual([]);
+    expect(result.changedFiles).toEqual(["src/utils.ts"]);
+  });
+
   it("should handle files not present in coverage report", () => {
     const diffWithNewFile = `diff --git a/src/new-file.ts b/src/new-file.ts
 new file mode 100644
@@ -0,0 +1,136 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { PathFix } from "../types/config.js";
+import type { CoverageResults, FileCoverage } from "../types/coverage.js";
+import { PathFixer } from "../utils/path-fixer.js";
+
+describe("PathFixer", () => {
+  describe("fixPath", () => {
+    const workspace = "/home/runner/work/svc/svc";
+
+    it("should strip and prepend prefixes", () => {
+      const fixes: PathFix[] = [
+        { before: "/app/", after: "", regex: false },
+        { before: "github.com/acme/svc/", after: "", regex: false },
+      ];
+      expect(PathFixer.fixPath("/app/src/x.py", fixes, workspace)).toBe(
+        "src/x.py",
+      );
+      expect(
+        PathFixer.fixPath("github.com/acme/svc/pkg/x.go", fixes, workspace),
+      ).toBe("pkg/x.go");
+      expect(
+        PathFixer.fixPath(
+          "com/acme/Foo.java",
+          [{ before: "", after: "src/main/java/", regex: false }],
+          workspace,
+        ),
+      ).toBe("src/main/java/com/acme/Foo.java");
+    });
+
+    it("should apply regex fixes", () => {
+      const fixes: PathFix[] = [
+        { before: "^.*/build/generated/", after: "generated/", regex: true },
+      ];
+      expect(
+        PathFixer.fixPath("/tmp/ci/build/generated/api.ts", fixes, workspace),
+      ).toBe("generated/api.ts");
+    });
+
+    it("should strip the workspace prefix", () => {
+      expect(
+        PathFixer.fixPath(`${workspace}/src/index.ts`, [], workspace),
+      ).toBe("src/index.ts");
+      expect(PathFixer.fixPath("./src/index.ts", [], workspace)).toBe(
+        "src/index.ts",
+      );
+      expect(PathFixer.fixPath("/other/src/index.ts", [], workspace)).toBe(
+        "/other/src/index.ts",
+      );
+    });
+  });
+
+  describe("fixResultPaths", () => {
+    let workspace: string;
+
+    beforeEach(() => {
+      workspace = fs.mkdtempSync(path.join(os.tmpdir(), "path-fixer-test-"));
+      fs.mkdirSync(path.join(workspace, "src"));
+      fs.writeFileSync(path.join(workspace, "src", "x.py"), "");
+      fs.writeFileSync(path.join(workspace, "src", "y.py"), "");
+    });
+
+    afterEach(() => {
+      fs.rmSync(workspace, { recursive: true });
+    });
+
+    const createFile = (filePath: string): FileCoverage => ({
+      name: filePath.split("/").pop() || filePath,
+      path: filePath,
+      statements: 1,
+      coveredStatements: 1,
+      conditionals: 0,
+      coveredConditionals: 0,
+      methods: 0,
+      coveredMethods: 0,
+      lineRate: 100,
+      branchRate: 0,
+      lines: [{ lineNumber: 1, count: 1, type: "stmt" }],
+      missingLines: [],
+      partialLines: [],
+    });
+
+    const createResults = (paths: string[]): CoverageResults => ({
+      timestamp: 0,
+      metrics: {
+        statements: paths.length,
+        coveredStatements: paths.length,
+        conditionals: 0,
+        coveredConditionals: 0,
+        methods: 0,
+        coveredMethods: 0,
+        elements: paths.length,
+        coveredElements: paths.length,
+        lineRate: 100,
+        branchRate: 0,
+      },
+      files: paths.map(createFile),
+    });
+
+    it("should rewrite paths and drop files missing from the checkout", () => {
+      const messages: string[] = [];
+      const results = PathFixer.fixResultPaths(
+        createResults([
+          "/app/src/x.py",
+          `${workspace}/src/y.py`,
+          "/app/src/deleted.py",
+        ]),
+        {
+          fixes: [{ before: "/app/", after: "", regex: false }],
+          workspace,
+          log: (message) => messages.push(message),
+        },
+      );
+
+      expect(results.files.map((f) => f.path)).toEqual([
+        "src/x.py",
+        "src/y.py",
+      ]);
+      expect(messages).toEqual([
+        "Path fix: /app/src/x.py -> src/x.py",
+        `Path fix: ${workspace}/src/y.py -> src/y.py`,
+        "Path fix: /app/src/deleted.py -> src/deleted.py",
+        "Dropping src/deleted.py: not found in the checkout",
+      ]);
+    });
+
+    it("should keep files whose paths already match", () => {
+      const input = createResults(["src/x.py"]);
+      const results = PathFixer.fixResultPaths(input, { fixes: [], workspace });
+
+      expect(results.files[0]).toBe(input.files[0]);
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { CoverageParserFactory } from "../parsers/parser-factory.js";
+
+// A minimal "COBOL" exporter format: one "<file> <line> <hits>" record per line
+const COBOL_PLUGIN = `
+export default class CobolParser {
+  format = "cobol";
+
+  detect(content) {
+    return content.startsWith("*COBCOV")
+      ? { confidence: 90, reason: "*COBCOV header" }
+      : { confidence: 0, reason: "no *COBCOV header" };
+  }
+
+  async parseContent(content) {
+    if (!content.startsWith("*COBCOV")) {
+      throw new Error("Invalid COBCOV file: missing header");
+    }
+    const lines = content.trim().split("\\n").slice(1).map((record) => {
+      const [, lineNumber, count] = record.split(" ");
+      return { lineNumber: Number(lineNumber), count: Number(count), type: "stmt" };
+    });
+    const covered = lines.filter((l) => l.count > 0).length;
+    const file = {
+      name: "PAYROLL.cbl",
+      path: "src/PAYROLL.cbl",
+      statements: lines.length,
+      coveredStatements: covered,
+      conditionals: 0,
+      coveredConditionals: 0,
+      methods: 0,
+      coveredMethods: 0,
+      lineRate: (covered / lines.length) * 100,
+      branchRate: 0,
+      lines,
+      missingLines: lines.filter((l) => l.count === 0).map((l) => l.lineNumber),
+      partialLines: [],
+    };
+    return {
+      timestamp: 0,
+      metrics: {
+        statements: lines.length,
+        coveredStatements: covered,
+        conditionals: 0,
+        coveredConditionals: 0,
+        methods: 0,
+        coveredMethods: 0,
+        elements: lines.length,
+        coveredElements: covered,
+        lineRate: file.lineRate,
+        branchRate: 0,
+      },
+      files: [file],
+    };
+  }
+}
+`;
+
+const COBCOV = "*COBCOV\nsrc/PAYROLL.cbl 10 3\nsrc/PAYROLL.cbl 11 0\n";
+
+describe("Parser plugins", () => {
+  let workspace: string;
+
+  const writeFile = (relativePath: string, content: string) => {
+    const fullPath = path.join(workspace, relativePath);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  };
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), "plugin-parser-test-"));
+    writeFile("tools/cobol-parser.mjs", COBOL_PLUGIN);
+  });
+
+  afterEach(async () => {
+    await CoverageParserFactory.loadPlugins([], workspace);
+    fs.rmSync(workspace, { recursive: true });
+  });
+
+  it("should register plugins ahead of the built-in parsers", async () => {
+    const { formats, errors } = await CoverageParserFactory.loadPlugins(
+      ["tools/cobol-parser.mjs"],
+      workspace,
+    );
+
+    expect(formats).toEqual(["cobol"]);
+    expect(errors).toEqual([]);
+    expect(CoverageParserFactory.getSupportedFormats()[0]).toBe("cobol");
+    expect(CoverageParserFactory.detectParser(COBCOV, "cov.txt")?.format).toBe(
+      "cobol",
+    );
+
+    const result = await CoverageParserFactory.parseContent(
+      COBCOV,
+      "cov.txt",
+      "cobol",
+    );
+    expect(result.files[0].missingLines).toEqual([11]);
+  });
+
+  it("should surface plugin parse errors like built-in ones", async () => {
+    await CoverageParserFactory.loadPlugins(
+      ["tools/cobol-parser.mjs"],
+      workspace,
+    );
+
+    await expect(
+      CoverageParserFactory.parseContent("garbage", "cov.txt", "cobol"),
+    ).rejects.toThrow("Invalid COBCOV file: missing header");
+  });
+
+  it("should report plugins that cannot be loaded", async () => {
+    writeFile("tools/empty.mjs", "export const nothing = 1;\n");
+    writeFile(
+      "tools/lcov.mjs",
+      'export const parser = { format: "lcov", parseContent() {} };\n',
+    );
+    writeFile("tools/broken.mjs", "export default {\n");
+
+    const { formats, errors } = await CoverageParserFactory.loadPlugins(
+      [
+        "tools/empty.mjs",
+        "tools/lcov.mjs",
+        "tools/broken.mjs",
+        "tools/missing.mjs",
+        "../outside.mjs",
+        "tools/cobol-parser.mjs",
+      ],
+      workspace,
+    );
+
+    expect(formats).toEqual(["cobol"]);
+    expect(errors).toHaveLength(5);
+    expect(errors[0]).toBe(
+      "Invalid parser plugin tools/empty.mjs: expected a default or `parser` export implementing ICoverageParser",
+    );
+    expect(errors[1]).toBe(
+      'Parser plugin tools/lcov.mjs uses format "lcov", which is already registered',
+    );
+    expect(errors[2]).toMatch(
+      /^Failed to load parser plugin tools\/broken\.mjs/,
+    );
+    expect(errors[3]).toBe("Parser plugin tools/missing.mjs not found");
+    expect(errors[4]).toMatch(/must be inside the workspace/);
+  });
+});
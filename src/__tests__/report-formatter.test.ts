@@ -404,5 +404,164 @@ describe("ReportFormatter", () => {
 
       expect(comment).not.toContain("Files with missing lines");
     });
+
+    it("should describe the branches of partial lines", () => {
+      const results: AggregatedCoverageResults = {
+        ...coverageWithMissingFiles,
+        files: [
+          {
+            ...coverageWithMissingFiles.files[0],
+            lines: [
+              {
+                lineNumber: 12,
+                count: 3,
+                type: "cond",
+                trueCount: 2,
+                falseCount: 2,
+                branches: [
+                  { block: 0, branch: 0, taken: 2 },
+                  { block: 0, branch: 1, taken: 1 },
+                  { block: 0, branch: 2, taken: 0 },
+                  { block: 0, branch: 3, taken: 0 },
+                ],
+              },
+              {
+                lineNumber: 20,
+                count: 1,
+                type: "cond",
+                trueCount: 1,
+                falseCount: 1,
+                branches: [
+                  { block: 0, branch: 0, taken: 1, label: "then" },
+                  { block: 0, branch: 1, taken: 0, label: "else" },
+                ],
+              },
+            ],
+            partialLines: [12, 20],
+          },
+        ],
+      };
+
+      const report = formatter.formatReport(undefined, results);
+
+      expect(report).toContain(
+        "<summary>Partially covered lines (2)</summary>",
+      );
+      expect(report).toContain(
+        "| `changed-file.ts` | 12 | 2 of 4 branches taken |",
+      );
+      expect(report).toContain(
+        "| `changed-file.ts` | 20 | 1 of 2 branches taken (missed: else) |",
+      );
+    });
+
+    it("should list changed functions that never ran", () => {
+      const report = formatter.formatReport(
+        undefined,
+        coverageWithMissingFiles,
+        {
+          uncoveredFunctions: [
+            {
+              path: "src/utils/math.ts",
+              name: "operator|",
+              startLine: 5,
+              endLine: 8,
+              hits: 0,
+            },
+          ],
+        },
+      );
+
+      expect(report).toContain(
+        "<summary>Uncovered functions in this PR (1)</summary>",
+      );
+      expect(report).toContain("| `math.ts` | `operator\\|` | 5-8 |");
+      expect(
+        formatter.formatReport(undefined, coverageWithMissingFiles),
+      ).not.toContain("Uncovered functions");
+    });
+    it("should split patch lines into hits, misses and partials", () => {
+      const report = formatter.formatReport(
+        undefined,
+        coverageWithMissingFiles,
+        {
+          patchFiles: [
+            {
+              path: "src/utils/math.ts",
+              coveredLines: [1, 2],
+              missedLines: [3],
+              partialLines: [4],
+              percentage: 50,
+            },
+          ],
+        },
+      );
+
+      expect(report).toContain("<summary>Patch lines by file (1)</summary>");
+      expect(report).toContain("| `math.ts` | 50.00% | 2 | 1 | 1 |");
+      expect(
+        formatter.formatReport(undefined, coverageWithMissingFiles),
+      ).not.toContain("Patch lines by file");
+    });
+  });
+
+  describe("parse diagnostics", () => {
+    it("should list diagnostics only when there are any", () => {
+      const report = formatter.formatReport(undefined, undefined, {
+        diagnostics: [
+          {
+            severity: "warning",
+            message: 'Malformed record "DA:x|1" skipped',
+            file: "lcov.info",
+            line: 7,
+            source: "src/a.ts",
+          },
+        ],
+      });
+
+      expect(report).toContain("### ⚠️ Parse Diagnostics");
+      expect(report).toContain(
+        '| warning | `lcov.info` | 7 | Malformed record "DA:x\\|1" skipped (`src/a.ts`) |',
+      );
+      expect(
+        formatter.formatReport(undefined, undefined, { diagnostics: [] }),
+      ).not.toContain("Parse Diagnostics");
+    });
+
+    it("should skip the section when there are only info diagnostics", () => {
+      const report = formatter.formatReport(undefined, undefined, {
+        diagnostics: [
+          {
+            severity: "info",
+            message: "Detected lcov (content match)",
+            file: "lcov.info",
+          },
+        ],
+      });
+
+      expect(report).not.toContain("Parse Diagnostics");
+      expect(report).not.toContain("problem(s)");
+    });
+
+    it("should count and list only warnings and errors", () => {
+      const report = formatter.formatReport(undefined, undefined, {
+        diagnostics: [
+          ...Array.from({ length: 60 }, (_, i) => ({
+            severity: "info" as const,
+            message: `Detected lcov ${i}`,
+          })),
+          ...Array.from({ length: 52 }, (_, i) => ({
+            severity: "warning" as const,
+            message: `Record ${i} skipped`,
+          })),
+        ],
+      });
+
+      expect(report).toContain("52 problem(s) found while reading reports");
+      expect(report).not.toContain("Detected lcov");
+      expect(report).toContain("Record 49 skipped");
+      expect(report).not.toContain("Record 50 skipped");
+      expect(report).toContain("_...and 2 more_");
+    });
   });
 });
@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import { CoverageParserFactory } from "../parsers/parser-factory.js";
+import { ScoverageParser } from "../parsers/scoverage-parser.js";
+
+describe("ScoverageParser", () => {
+  const source = "/project/src/main/scala/com/example/Calculator.scala";
+
+  const scoverageXml = `<?xml version="1.0" encoding="utf-8"?>
+<scoverage statement-count="6" statements-invoked="4" statement-rate="66.67" branch-rate="50.00" version="1.0" timestamp="1700000000000">
+  <packages>
+    <package name="com.example" statement-count="6" statements-invoked="4" statement-rate="66.67">
+      <classes>
+        <class name="com.example.Calculator" filename="com/example/Calculator.scala" statement-count="6" statements-invoked="4" statement-rate="66.67" branch-rate="50.00">
+          <methods>
+            <method name="com.example/Calculator/add" statement-count="2" statements-invoked="2" statement-rate="100.00" branch-rate="100.00">
+              <statements>
+                <statement source="${source}" package="com.example" class="Calculator" class-type="Class" full-class-name="com.example.Calculator" method="add" start="80" end="85" line="4" branch="false" invocation-count="3" ignored="false"></statement>
+                <statement source="${source}" package="com.example" class="Calculator" class-type="Class" full-class-name="com.example.Calculator" method="add" start="86" end="90" line="4" branch="false" invocation-count="3" ignored="false"></statement>
+              </statements>
+            </method>
+            <method name="com.example/Calculator/abs" statement-count="3" statements-invoked="2" statement-rate="66.67" branch-rate="50.00">
+              <statements>
+                <statement source="${source}" package="com.example" class="Calculator" class-type="Class" full-class-name="com.example.Calculator" method="abs" start="120" end="125" line="6" branch="false" invocation-count="2" ignored="false"></statement>
+                <statement source="${source}" package="com.example" class="Calculator" class-type="Class" full-class-name="com.example.Calculator" method="abs" start="126" end="130" line="6" branch="true" invocation-count="2" ignored="false"></statement>
+                <statement source="${source}" package="com.example" class="Calculator" class-type="Class" full-class-name="com.example.Calculator" method="abs" start="136" end="140" line="6" branch="true" invocation-count="0" ignored="false"></statement>
+              </statements>
+            </method>
+            <method name="com.example/Calculator/unused" statement-count="1" statements-invoked="0" statement-rate="0.00" branch-rate="100.00">
+              <statements>
+                <statement source="${source}" package="com.example" class="Calculator" class-type="Class" full-class-name="com.example.Calculator" method="unused" start="160" end="170" line="9" branch="false" invocation-count="0" ignored="false"></statement>
+                <statement source="${source}" package="com.example" class="Calculator" class-type="Class" full-class-name="com.example.Calculator" method="unused" start="171" end="175" line="10" branch="false" invocation-count="0" ignored="true"></statement>
+              </statements>
+            </method>
+          </methods>
+        </class>
+      </classes>
+    </package>
+  </packages>
+</scoverage>`;
+
+  it("should group statements by source file", async () => {
+    const parser = new ScoverageParser();
+    const result = await parser.parseContent(scoverageXml);
+
+    expect(result.files).toHaveLength(1);
+    const file = result.files[0];
+    expect(file.name).toBe("Calculator.scala");
+    expect(file.path).toBe(source);
+    // Ignored statements are skipped
+    expect(file.lines.map((l) => l.lineNumber)).toEqual([4, 6, 9]);
+    expect(file.statements).toBe(3);
+    expect(file.coveredStatements).toBe(2);
+    expect(file.missingLines).toEqual([9]);
+    expect(result.timestamp).toBe(1700000000000);
+  });
+
+  it("should mark lines with uncovered statements as partial", async () => {
+    const parser = new ScoverageParser();
+    const result = await parser.parseContent(scoverageXml);
+
+    const file = result.files[0];
+    expect(file.partialLines).toEqual([6]);
+
+    const line4 = file.lines.find((l) => l.lineNumber === 4);
+    expect(line4?.count).toBe(3);
+    expect(line4?.type).toBe("stmt");
+  });
+
+  it("should count branch statements as conditionals", async () => {
+    const parser = new ScoverageParser();
+    const result = await parser.parseContent(scoverageXml);
+
+    const file = result.files[0];
+    expect(file.conditionals).toBe(2);
+    expect(file.coveredConditionals).toBe(1);
+    expect(file.branchRate).toBe(50);
+
+    const line6 = file.lines.find((l) => l.lineNumber === 6);
+    expect(line6?.type).toBe("cond");
+    expect(line6?.trueCount).toBe(1);
+    expect(line6?.falseCount).toBe(1);
+  });
+
+  it("should count methods", async () => {
+    const parser = new ScoverageParser();
+    const result = await parser.parseContent(scoverageXml);
+
+    expect(result.metrics.methods).toBe(3);
+    expect(result.metrics.coveredMethods).toBe(2);
+  });
+
+  it("should record methods as functions", async () => {
+    const parser = new ScoverageParser();
+    const result = await parser.parseContent(scoverageXml);
+
+    expect(result.files[0].functions).toEqual([
+      { name: "Calculator.add", startLine: 4, endLine: 4, hits: 3 },
+      { name: "Calculator.abs", startLine: 6, endLine: 6, hits: 2 },
+      { name: "Calculator.unused", startLine: 9, endLine: 9, hits: 0 },
+    ]);
+  });
+
+  it("should detect Scoverage format", () => {
+    const parser = new ScoverageParser();
+    expect(parser.canParse(scoverageXml)).toBe(true);
+    expect(parser.canParse(scoverageXml, "scoverage.xml")).toBe(true);
+    expect(parser.canParse(scoverageXml, "scoverage.json")).toBe(false);
+    expect(
+      parser.canParse(
+        '<coverage line-rate="0.5"><packages></packages></coverage>',
+      ),
+    ).toBe(false);
+  });
+
+  it("should be picked up by factory auto-detection ahead of Cobertura", () => {
+    const parser = CoverageParserFactory.detectParser(
+      scoverageXml,
+      "target/scala-2.13/scoverage-report/scoverage.xml",
+    );
+    expect(parser?.format).toBe("scoverage");
+    expect(
+      CoverageParserFactory.detectFormatFromPath(
+        "scoverage-report/scoverage.xml",
+      ),
+    ).toBe("scoverage");
+  });
+
+  it("should throw on invalid content", async () => {
+    const parser = new ScoverageParser();
+    await expect(parser.parseContent("<coverage></coverage>")).rejects.toThrow(
+      "Invalid Scoverage XML",
+    );
+  });
+});
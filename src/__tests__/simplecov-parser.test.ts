@@ -0,0 +1,198 @@
+import { describe, expect, it } from "vitest";
+import { SimpleCovParser } from "../parsers/simplecov-parser.js";
+
+describe("SimpleCovParser", () => {
+  const legacyResultSet = JSON.stringify({
+    RSpec: {
+      coverage: {
+        "/app/models/user.rb": [null, 1, 1, 0, null, 2],
+        "/app/models/post.rb": [1, 0],
+      },
+      timestamp: 1700000000,
+    },
+  });
+
+  const branchResultSet = JSON.stringify({
+    RSpec: {
+      coverage: {
+        "/app/services/pricing.rb": {
+          lines: [1, 1, 3, 0, 1, null],
+          branches: {
+            "[:if, 0, 3, 4, 5, 7]": {
+              "[:then, 1, 4, 6, 4, 10]": 0,
+              "[:else, 2, 5, 6, 5, 10]": 3,
+            },
+            "[:case, 3, 5, 4, 5, 20]": {
+              "[:when, 4, 5, 8, 5, 10]": 1,
+              "[:else, 5, 5, 12, 5, 14]": 1,
+            },
+          },
+        },
+      },
+      timestamp: 1700000000,
+    },
+  });
+
+  it("should parse legacy array form", async () => {
+    const parser = new SimpleCovParser();
+    const result = await parser.parseContent(legacyResultSet);
+
+    expect(result.files).toHaveLength(2);
+
+    const user = result.files.find((f) => f.path === "/app/models/user.rb");
+    expect(user).toBeDefined();
+    expect(user!.name).toBe("user.rb");
+    // null entries are not relevant lines
+    expect(user!.statements).toBe(4);
+    expect(user!.coveredStatements).toBe(3);
+    expect(user!.missingLines).toEqual([4]);
+    expect(user!.lines.map((l) => l.lineNumber)).toEqual([2, 3, 4, 6]);
+  });
+
+  it("should calculate aggregate metrics", async () => {
+    const parser = new SimpleCovParser();
+    const result = await parser.parseContent(legacyResultSet);
+
+    expect(result.metrics.statements).toBe(6);
+    expect(result.metrics.coveredStatements).toBe(4);
+    expect(result.metrics.lineRate).toBe(66.67);
+    expect(result.metrics.conditionals).toBe(0);
+    expect(result.timestamp).toBe(1700000000 * 1000);
+  });
+
+  it("should parse lines and branches form", async () => {
+    const parser = new SimpleCovParser();
+    const result = await parser.parseContent(branchResultSet);
+
+    const file = result.files[0];
+    expect(file.statements).toBe(5);
+    expect(file.coveredStatements).toBe(4);
+    expect(file.conditionals).toBe(4);
+    expect(file.coveredConditionals).toBe(3);
+    expect(file.branchRate).toBe(75);
+  });
+
+  it("should report branches on the condition line and track partials", async () => {
+    const parser = new SimpleCovParser();
+    const result = await parser.parseContent(branchResultSet);
+
+    const file = result.files[0];
+    const line3 = file.lines.find((l) => l.lineNumber === 3);
+    expect(line3?.type).toBe("cond");
+    expect(line3?.trueCount).toBe(1);
+    expect(line3?.falseCount).toBe(1);
+
+    const line5 = file.lines.find((l) => l.lineNumber === 5);
+    expect(line5?.type).toBe("cond");
+    expect(line5?.falseCount).toBe(0);
+
+    expect(file.partialLines).toEqual([3]);
+    expect(file.missingLines).toEqual([4]);
+  });
+
+  it("should read method coverage as functions", async () => {
+    const parser = new SimpleCovParser();
+    const resultSet = JSON.stringify({
+      RSpec: {
+        coverage: {
+          "/app/models/user.rb": {
+            lines: [1, 1, 1, 0, null, 1, 0],
+            methods: {
+              "[User, :admin?, 2, 2, 4, 5]": 2,
+              "[User, :guest?, 6, 2, 7, 5]": 0,
+            },
+          },
+        },
+        timestamp: 1700000000,
+      },
+      Minitest: {
+        coverage: {
+          "/app/models/user.rb": {
+            lines: [1, 1, 0, 0, null, 1, 0],
+            methods: { "[User, :admin?, 2, 2, 4, 5]": 1 },
+          },
+        },
+        timestamp: 1700000000,
+      },
+    });
+    const result = await parser.parseContent(resultSet);
+
+    expect(result.files[0].functions).toEqual([
+      { name: "User#admin?", startLine: 2, endLine: 4, hits: 3 },
+      { name: "User#guest?", startLine: 6, endLine: 7, hits: 0 },
+    ]);
+    expect(result.metrics.methods).toBe(2);
+    expect(result.metrics.coveredMethods).toBe(1);
+  });
+
+  it("should merge multiple command names", async () => {
+    const parser = new SimpleCovParser();
+    const resultSet = JSON.stringify({
+      RSpec: {
+        coverage: {
+          "/app/lib/a.rb": {
+            lines: [1, 0, 0],
+            branches: {
+              "[:if, 0, 1, 0, 3, 3]": {
+                "[:then, 1, 2, 2, 2, 5]": 0,
+                "[:else, 2, 3, 2, 3, 5]": 1,
+              },
+            },
+          },
+        },
+        timestamp: 1700000000,
+      },
+      Minitest: {
+        coverage: {
+          "/app/lib/a.rb": {
+            lines: [2, 1, 0],
+            branches: {
+              "[:if, 0, 1, 0, 3, 3]": {
+                "[:then, 1, 2, 2, 2, 5]": 1,
+                "[:else, 2, 3, 2, 3, 5]": 0,
+              },
+            },
+          },
+          "/app/lib/b.rb": [1],
+        },
+        timestamp: 1700000100,
+      },
+    });
+
+    const result = await parser.parseContent(resultSet);
+
+    expect(result.files).toHaveLength(2);
+    const a = result.files.find((f) => f.path === "/app/lib/a.rb")!;
+    expect(a.lines.map((l) => l.count)).toEqual([3, 1, 0]);
+    expect(a.coveredStatements).toBe(2);
+    expect(a.conditionals).toBe(2);
+    expect(a.coveredConditionals).toBe(2);
+    expect(a.partialLines).toEqual([]);
+    expect(result.timestamp).toBe(1700000100 * 1000);
+  });
+
+  it("should detect SimpleCov format from path", () => {
+    const parser = new SimpleCovParser();
+    expect(parser.canParse("", "coverage/.resultset.json")).toBe(true);
+    expect(parser.canParse("", "coverage.xml")).toBe(false);
+  });
+
+  it("should detect SimpleCov format from content", () => {
+    const parser = new SimpleCovParser();
+    expect(parser.canParse(legacyResultSet)).toBe(true);
+    expect(parser.canParse(branchResultSet, "results.json")).toBe(true);
+  });
+
+  it("should not detect Codecov JSON as SimpleCov", () => {
+    const parser = new SimpleCovParser();
+    const codecov = JSON.stringify({ coverage: { "src/a.rs": { "1": 1 } } });
+    expect(parser.canParse(codecov)).toBe(false);
+  });
+
+  it("should throw on invalid JSON", async () => {
+    const parser = new SimpleCovParser();
+    await expect(parser.parseContent("not json")).rejects.toThrow(
+      "Invalid SimpleCov JSON",
+    );
+  });
+});
@@ -0,0 +1,136 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { LcovParser } from "../parsers/lcov-parser.js";
+import { SourceMapRemapper } from "../utils/source-map-remapper.js";
+
+describe("SourceMapRemapper", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "remap-test-"));
+    fs.mkdirSync(path.join(tmpDir, "dist"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true });
+  });
+
+  // Generated lines 1-3 come from src/math.ts lines 1-3, line 4 from src/util.ts line 1
+  const writeBundle = (name: string) => {
+    const bundlePath = path.join(tmpDir, "dist", name);
+    fs.writeFileSync(
+      bundlePath,
+      `a();\nb();\nc();\nd();\n//# sourceMappingURL=${name}.map\n`,
+    );
+    fs.writeFileSync(
+      `${bundlePath}.map`,
+      JSON.stringify({
+        version: 3,
+        sources: ["../src/math.ts", "../src/util.ts"],
+        mappings: "AAAA;AACA;AACA;ACFA",
+      }),
+    );
+  };
+
+  it("should project line and branch hits onto original sources", async () => {
+    writeBundle("bundle.js");
+    const lcov = [
+      "SF:dist/bundle.js",
+      "DA:1,1",
+      "DA:2,0",
+      "DA:3,4",
+      "DA:4,2",
+      "BRDA:3,0,0,4",
+      "BRDA:3,0,1,0",
+      "end_of_record",
+    ].join("\n");
+
+    const parsed = await new LcovParser().parseContent(lcov);
+    const result = SourceMapRemapper.remapResults(parsed, [tmpDir]);
+
+    expect(result.files.map((f) => f.path).sort()).toEqual([
+      "src/math.ts",
+      "src/util.ts",
+    ]);
+
+    const math = result.files.find((f) => f.path === "src/math.ts")!;
+    expect(math.name).toBe("math.ts");
+    expect(math.missingLines).toEqual([2]);
+    expect(math.partialLines).toEqual([3]);
+    expect(math.conditionals).toBe(2);
+    expect(math.coveredConditionals).toBe(1);
+
+    const util = result.files.find((f) => f.path === "src/util.ts")!;
+    expect(util.lines).toEqual([{ lineNumber: 1, count: 2, type: "stmt" }]);
+
+    expect(result.metrics.statements).toBe(4);
+    expect(result.metrics.coveredStatements).toBe(3);
+  });
+
+  it("should move functions to the source they start in", async () => {
+    writeBundle("bundle.js");
+    const lcov = [
+      "SF:dist/bundle.js",
+      "FN:1,3,area",
+      "FN:4,4,clamp",
+      "FNDA:2,area",
+      "FNDA:0,clamp",
+      "DA:1,2",
+      "DA:4,0",
+      "end_of_record",
+    ].join("\n");
+
+    const parsed = await new LcovParser().parseContent(lcov);
+    const result = SourceMapRemapper.remapResults(parsed, [tmpDir]);
+
+    const math = result.files.find((f) => f.path === "src/math.ts")!;
+    expect(math.functions).toEqual([
+      { name: "area", startLine: 1, endLine: 3, hits: 2 },
+    ]);
+    expect(math.methods).toBe(1);
+    expect(math.coveredMethods).toBe(1);
+
+    const util = result.files.find((f) => f.path === "src/util.ts")!;
+    expect(util.functions).toEqual([
+      { name: "clamp", startLine: 1, endLine: 1, hits: 0 },
+    ]);
+    expect(util.methods).toBe(1);
+  });
+
+  it("should merge hits from generated files that share a source", async () => {
+    writeBundle("a.js");
+    writeBundle("b.js");
+    const lcov = [
+      "SF:dist/a.js",
+      "DA:1,1",
+      "DA:2,0",
+      "end_of_record",
+      "SF:dist/b.js",
+      "DA:1,2",
+      "DA:2,3",
+      "end_of_record",
+    ].join("\n");
+
+    const parsed = await new LcovParser().parseContent(lcov);
+    const result = SourceMapRemapper.remapResults(parsed, [tmpDir]);
+
+    expect(result.files).toHaveLength(1);
+    expect(result.files[0].path).toBe("src/math.ts");
+    expect(result.files[0].lines).toEqual([
+      { lineNumber: 1, count: 3, type: "stmt" },
+      { lineNumber: 2, count: 3, type: "stmt" },
+    ]);
+    expect(result.files[0].missingLines).toEqual([]);
+  });
+
+  it("should keep files without a source map unchanged", async () => {
+    const lcov = ["SF:src/plain.js", "DA:1,1", "end_of_record"].join("\n");
+
+    const parsed = await new LcovParser().parseContent(lcov);
+    const result = SourceMapRemapper.remapResults(parsed, [tmpDir]);
+
+    expect(result).toBe(parsed);
+  });
+});
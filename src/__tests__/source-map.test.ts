@@ -0,0 +1,144 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { describe, expect, it } from "vitest";
+import {
+  decodeMappings,
+  loadSourceMap,
+  SourceMap,
+} from "../utils/source-map.js";
+
+describe("source-map", () => {
+  describe("decodeMappings", () => {
+    it("should decode relative VLQ fields", () => {
+      expect(decodeMappings("AAAA,GAAG;AACA;;gBAAD")).toEqual([
+        [
+          {
+            generatedColumn: 0,
+            sourceIndex: 0,
+            originalLine: 0,
+            originalColumn: 0,
+          },
+          {
+            generatedColumn: 3,
+            sourceIndex: 0,
+            originalLine: 0,
+            originalColumn: 3,
+          },
+        ],
+        [
+          {
+            generatedColumn: 0,
+            sourceIndex: 0,
+            originalLine: 1,
+            originalColumn: 3,
+          },
+        ],
+        [],
+        [
+          {
+            generatedColumn: 16,
+            sourceIndex: 0,
+            originalLine: 1,
+            originalColumn: 2,
+          },
+        ],
+      ]);
+    });
+
+    it("should keep segments without a source", () => {
+      expect(decodeMappings("A,CAAA")).toEqual([
+        [
+          { generatedColumn: 0 },
+          {
+            generatedColumn: 1,
+            sourceIndex: 0,
+            originalLine: 0,
+            originalColumn: 0,
+          },
+        ],
+      ]);
+    });
+
+    it("should throw on invalid characters", () => {
+      expect(() => decodeMappings("A!AA")).toThrow(
+        "Invalid source map mappings",
+      );
+    });
+  });
+
+  describe("SourceMap", () => {
+    const map = new SourceMap(
+      {
+        version: 3,
+        sourceRoot: "src",
+        sources: ["calc.ts", "/abs/util.ts"],
+        mappings: "AAAA,IAAI;ACAJ",
+      },
+      "/project/dist/calc.js.map",
+    );
+
+    it("should resolve sources against the map location", () => {
+      expect(map.sources).toEqual([
+        "/project/dist/src/calc.ts",
+        "/abs/util.ts",
+      ]);
+    });
+
+    it("should find original positions", () => {
+      expect(map.originalPositionFor(1, 0)).toEqual({
+        source: "/project/dist/src/calc.ts",
+        line: 1,
+        column: 0,
+      });
+      expect(map.originalPositionFor(1, 7)).toEqual({
+        source: "/project/dist/src/calc.ts",
+        line: 1,
+        column: 4,
+      });
+      expect(map.originalPositionFor(2, 0)).toEqual({
+        source: "/abs/util.ts",
+        line: 1,
+        column: 0,
+      });
+      expect(map.originalPositionFor(3, 0)).toBeNull();
+    });
+  });
+
+  describe("loadSourceMap", () => {
+    it("should read inline data URLs", () => {
+      const raw = JSON.stringify({
+        version: 3,
+        sources: ["app.ts"],
+        mappings: "AAAA",
+      });
+      const source = `x();\n//# sourceMappingURL=data:application/json;base64,${Buffer.from(raw).toString("base64")}\n`;
+
+      const map = loadSourceMap("/project/app.js", source);
+      expect(map?.sources).toEqual(["/project/app.ts"]);
+    });
+
+    it("should fall back to a sidecar .map file", () => {
+      const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "sourcemap-test-"));
+      const filePath = path.join(tmpDir, "app.js");
+      fs.writeFileSync(filePath, "x();\n");
+      fs.writeFileSync(
+        `${filePath}.map`,
+        JSON.stringify({ version: 3, sources: ["app.ts"], mappings: "AAAA" }),
+      );
+
+      try {
+        const map = loadSourceMap(filePath);
+        expect(map?.originalPositionFor(1, 0)?.source).toBe(
+          path.join(tmpDir, "app.ts").replace(/\\/g, "/"),
+        );
+      } finally {
+        fs.rmSync(tmpDir, { recursive: true });
+      }
+    });
+
+    it("should return null when no map exists", () => {
+      expect(loadSourceMap("/nonexistent/app.js", "x();\n")).toBeNull();
+    });
+  });
+});
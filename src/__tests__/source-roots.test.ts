@@ -0,0 +1,143 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { CoberturaParser } from "../parsers/cobertura-parser.js";
+import { JaCoCoParser } from "../parsers/jacoco-parser.js";
+import { SourceRootResolver } from "../utils/source-roots.js";
+
+describe("SourceRootResolver", () => {
+  let workspace: string;
+
+  const writeFile = (relativePath: string) => {
+    const fullPath = path.join(workspace, relativePath);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, "");
+  };
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), "source-roots-test-"));
+    writeFile("api/src/main/java/com/acme/api/Handler.java");
+    writeFile("core/src/main/kotlin/com/acme/core/Service.kt");
+    // Kotlin does not require files to live in their package directory
+    writeFile("core/src/main/kotlin/Extensions.kt");
+    writeFile("app/src/main/java/com/acme/app/Config.java");
+    writeFile("core/src/main/java/com/acme/core/Config.java");
+    writeFile("legacy/sources/com/acme/legacy/Old.java");
+    // Build outputs are not sources
+    writeFile("api/build/generated/com/acme/api/Handler.java");
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true });
+  });
+
+  describe("scan", () => {
+    it("should find conventional roots of every module", () => {
+      const index = SourceRootResolver.scan(workspace);
+
+      expect(index.roots).toEqual([
+        "api/src/main/java",
+        "app/src/main/java",
+        "core/src/main/java",
+        "core/src/main/kotlin",
+      ]);
+      expect(index.files.get("Handler.java")).toEqual([
+        "api/src/main/java/com/acme/api/Handler.java",
+      ]);
+    });
+  });
+
+  describe("resolvePath", () => {
+    it("should resolve package paths under conventional and extra roots", () => {
+      const index = SourceRootResolver.scan(workspace);
+
+      expect(
+        SourceRootResolver.resolvePath("com/acme/core/Service.kt", index),
+      ).toBe("core/src/main/kotlin/com/acme/core/Service.kt");
+      expect(
+        SourceRootResolver.resolvePath("com/acme/legacy/Old.java", index, [
+          "legacy/sources",
+        ]),
+      ).toBe("legacy/sources/com/acme/legacy/Old.java");
+    });
+
+    it("should prefer the file lining up with the package directory", () => {
+      const index = SourceRootResolver.scan(workspace);
+
+      expect(
+        SourceRootResolver.resolvePath("com/acme/core/Extensions.kt", index),
+      ).toBe("core/src/main/kotlin/Extensions.kt");
+      expect(
+        SourceRootResolver.resolvePath("org/acme/app/Config.java", index),
+      ).toBe("app/src/main/java/com/acme/app/Config.java");
+      // Both Config.java files match "acme" equally well
+      expect(
+        SourceRootResolver.resolvePath("org/acme/Config.java", index),
+      ).toBeNull();
+      expect(
+        SourceRootResolver.resolvePath("com/acme/Missing.java", index),
+      ).toBeNull();
+    });
+  });
+
+  describe("resolveResultPaths", () => {
+    it("should resolve JaCoCo package paths", async () => {
+      const xml = `<?xml version="1.0"?>
+<report name="multi">
+  <package name="com/acme/api">
+    <sourcefile name="Handler.java">
+      <line nr="3" mi="0" ci="2" mb="0" cb="0"/>
+    </sourcefile>
+  </package>
+  <package name="com/acme/gone">
+    <sourcefile name="Gone.java">
+      <line nr="1" mi="1" ci="0" mb="0" cb="0"/>
+    </sourcefile>
+  </package>
+</report>`;
+      const parsed = await new JaCoCoParser().parseContent(xml);
+
+      const { results, unresolved } = SourceRootResolver.resolveResultPaths(
+        parsed,
+        SourceRootResolver.scan(workspace),
+      );
+
+      expect(results.files.map((f) => f.path)).toEqual([
+        "api/src/main/java/com/acme/api/Handler.java",
+        "com/acme/gone/Gone.java",
+      ]);
+      expect(unresolved).toEqual(["com/acme/gone/Gone.java"]);
+    });
+
+    it("should try Cobertura <sources> entries first", async () => {
+      const xml = `<?xml version="1.0"?>
+<coverage line-rate="1" branch-rate="0" timestamp="1">
+  <sources>
+    <source>${workspace}/core/src/main/java</source>
+  </sources>
+  <packages>
+    <package name="com.acme.core">
+      <classes>
+        <class name="com.acme.core.Config" filename="com/acme/core/Config.java">
+          <lines><line number="1" hits="1"/></lines>
+        </class>
+      </classes>
+    </package>
+  </packages>
+</coverage>`;
+      const parsed = await new CoberturaParser().parseContent(xml);
+      expect(parsed.sourceRoots).toEqual([`${workspace}/core/src/main/java`]);
+
+      const { results, unresolved } = SourceRootResolver.resolveResultPaths(
+        parsed,
+        SourceRootResolver.scan(workspace),
+      );
+
+      expect(results.files[0].path).toBe(
+        "core/src/main/java/com/acme/core/Config.java",
+      );
+      expect(unresolved).toEqual([]);
+    });
+  });
+});
@@ -92,10 +92,12 @@ describe("ThresholdChecker", () => {
     const mockPatchCoverage: PatchCoverageResults = {
       coveredLines: 8,
       missedLines: 2,
+      partialLines: 0,
       totalLines: 10,
       percentage: 80,
       fileBreakdown: [],
       changedFiles: [],
+      uncoveredFunctions: [],
     };
 
     it("should pass when patch coverage exceeds target", () => {
@@ -114,6 +116,17 @@ describe("ThresholdChecker", () => {
       expect(result.description).toContain("< target 90%");
     });
 
+    it("should show the hit, miss and partial split", () => {
+      const config = { target: 70, threshold: null, informational: false };
+      const result = ThresholdChecker.checkPatchStatus(
+        { ...mockPatchCoverage, coveredLines: 7, partialLines: 1 },
+        config,
+      );
+      expect(result.description).toContain(
+        "(7 hit(s), 2 miss(es), 1 partial(s))",
+      );
+    });
+
     it("should return N/A when patch coverage is null", () => {
       const config = { target: 80, threshold: null, informational: false };
       const result = ThresholdChecker.checkPatchStatus(null, config);
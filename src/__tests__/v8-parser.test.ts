@@ -0,0 +1,297 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { pathToFileURL } from "node:url";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { V8Parser } from "../parsers/v8-parser.js";
+
+describe("V8Parser", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "v8-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true });
+  });
+
+  const script = [
+    '"use strict";',
+    "function add(a, b) {",
+    "  return a + b;",
+    "}",
+    "function abs(x) {",
+    "  if (x < 0) { return -x; }",
+    "  return x;",
+    "}",
+    "// helper",
+    "function unused() {",
+    "  return 0;",
+    "}",
+    "add(1, 2); abs(3);",
+  ].join("\n");
+
+  const functionRange = (source: string, start: string, end: string) => {
+    const startOffset = source.indexOf(start);
+    return {
+      startOffset,
+      endOffset: source.indexOf(end, startOffset) + end.length,
+    };
+  };
+
+  const buildCoverage = (url: string, source: string) =>
+    JSON.stringify({
+      result: [
+        {
+          scriptId: "1",
+          url,
+          functions: [
+            {
+              functionName: "",
+              ranges: [{ startOffset: 0, endOffset: source.length, count: 1 }],
+              isBlockCoverage: true,
+            },
+            {
+              functionName: "add",
+              ranges: [
+                { ...functionRange(source, "function add", "}"), count: 1 },
+              ],
+              isBlockCoverage: true,
+            },
+            {
+              functionName: "abs",
+              ranges: [
+                { ...functionRange(source, "function abs", "\n}"), count: 1 },
+                {
+                  startOffset: source.indexOf("{ return -x; }"),
+                  endOffset:
+                    source.indexOf("{ return -x; }") + "{ return -x; }".length,
+                  count: 0,
+                },
+              ],
+              isBlockCoverage: true,
+            },
+            {
+              functionName: "unused",
+              ranges: [
+                {
+                  ...functionRange(source, "function unused", "\n}"),
+                  count: 0,
+                },
+              ],
+              isBlockCoverage: true,
+            },
+          ],
+        },
+        {
+          scriptId: "2",
+          url: "node:internal/main/run_main_module",
+          functions: [],
+        },
+      ],
+      timestamp: 1234.5,
+    });
+
+  it("should convert byte-offset ranges into line counts", async () => {
+    const scriptPath = path.join(tmpDir, "calc.js");
+    fs.writeFileSync(scriptPath, script);
+
+    const parser = new V8Parser();
+    const result = await parser.parseContent(
+      buildCoverage(pathToFileURL(scriptPath).href, script),
+    );
+
+    expect(result.files).toHaveLength(1);
+    const file = result.files[0];
+    expect(file.name).toBe("calc.js");
+    // Comment-only lines are skipped
+    expect(file.lines.map((l) => l.lineNumber)).toEqual([
+      1, 2, 3, 4, 5, 6, 7, 8, 10, 11, 12, 13,
+    ]);
+    expect(file.missingLines).toEqual([10, 11, 12]);
+    expect(file.coveredStatements).toBe(9);
+  });
+
+  it("should mark lines containing unexecuted blocks as partial", async () => {
+    const scriptPath = path.join(tmpDir, "calc.js");
+    fs.writeFileSync(scriptPath, script);
+
+    const parser = new V8Parser();
+    const result = await parser.parseContent(
+      buildCoverage(pathToFileURL(scriptPath).href, script),
+    );
+
+    expect(result.files[0].partialLines).toEqual([6]);
+  });
+
+  it("should count functions", async () => {
+    const scriptPath = path.join(tmpDir, "calc.js");
+    fs.writeFileSync(scriptPath, script);
+
+    const parser = new V8Parser();
+    const result = await parser.parseContent(
+      buildCoverage(pathToFileURL(scriptPath).href, script),
+    );
+
+    expect(result.metrics.methods).toBe(3);
+    expect(result.metrics.coveredMethods).toBe(2);
+  });
+
+  it("should keep function names and line ranges", async () => {
+    const scriptPath = path.join(tmpDir, "calc.js");
+    fs.writeFileSync(scriptPath, script);
+
+    const parser = new V8Parser();
+    const result = await parser.parseContent(
+      buildCoverage(pathToFileURL(scriptPath).href, script),
+    );
+
+    expect(result.files[0].functions).toEqual([
+      { name: "add", startLine: 2, endLine: 4, hits: 1 },
+      { name: "abs", startLine: 5, endLine: 8, hits: 1 },
+      { name: "unused", startLine: 10, endLine: 12, hits: 0 },
+    ]);
+  });
+
+  it("should remap through a sidecar source map", async () => {
+    const compiled = [
+      '"use strict";',
+      "function add(a, b) {",
+      "    return a + b;",
+      "}",
+      "//# sourceMappingURL=calc.js.map",
+    ].join("\n");
+    fs.mkdirSync(path.join(tmpDir, "dist"));
+    const scriptPath = path.join(tmpDir, "dist", "calc.js");
+    fs.writeFileSync(scriptPath, compiled);
+    fs.writeFileSync(
+      `${scriptPath}.map`,
+      JSON.stringify({
+        version: 3,
+        file: "calc.js",
+        sources: ["../src/calc.ts"],
+        mappings: ";AAAA;AACA;AACA",
+      }),
+    );
+
+    const parser = new V8Parser();
+    const result = await parser.parseContent(
+      JSON.stringify({
+        result: [
+          {
+            scriptId: "1",
+            url: pathToFileURL(scriptPath).href,
+            functions: [
+              {
+                functionName: "add",
+                ranges: [
+                  { ...functionRange(compiled, "function add", "}"), count: 2 },
+                ],
+                isBlockCoverage: true,
+              },
+            ],
+          },
+        ],
+      }),
+    );
+
+    expect(result.files).toHaveLength(1);
+    const file = result.files[0];
+    expect(file.path).toBe(
+      path.join(tmpDir, "src", "calc.ts").replace(/\\/g, "/"),
+    );
+    expect(file.lines).toEqual([
+      { lineNumber: 1, count: 2, type: "stmt" },
+      { lineNumber: 2, count: 2, type: "stmt" },
+      { lineNumber: 3, count: 2, type: "stmt" },
+    ]);
+    expect(file.methods).toBe(1);
+    expect(file.coveredMethods).toBe(1);
+  });
+
+  it("should use the source-map-cache when the script is gone", async () => {
+    const lines = ["function f() {", "  return 1;", "}", "f();"];
+    const url = "file:///project/dist/app.js";
+
+    const parser = new V8Parser();
+    const result = await parser.parseContent(
+      JSON.stringify({
+        result: [
+          {
+            scriptId: "1",
+            url,
+            functions: [
+              {
+                functionName: "",
+                ranges: [{ startOffset: 0, endOffset: 36, count: 1 }],
+                isBlockCoverage: true,
+              },
+              {
+                functionName: "f",
+                ranges: [{ startOffset: 0, endOffset: 29, count: 0 }],
+                isBlockCoverage: true,
+              },
+            ],
+          },
+        ],
+        "source-map-cache": {
+          [url]: {
+            lineLengths: lines.map((l) => l.length),
+            data: {
+              version: 3,
+              sources: ["../src/app.ts"],
+              mappings: "AAAA;AACA;AACA;AACA",
+            },
+            url: null,
+          },
+        },
+      }),
+    );
+
+    const file = result.files[0];
+    expect(file.path).toBe("/project/src/app.ts");
+    expect(file.missingLines).toEqual([1, 2, 3]);
+    expect(file.coveredStatements).toBe(1);
+  });
+
+  it("should skip node_modules and non-file scripts", async () => {
+    const parser = new V8Parser();
+    const result = await parser.parseContent(
+      JSON.stringify({
+        result: [
+          {
+            scriptId: "1",
+            url: "file:///project/node_modules/lib/index.js",
+            functions: [],
+          },
+          { scriptId: "2", url: "node:fs", functions: [] },
+          { scriptId: "3", url: "", functions: [] },
+        ],
+      }),
+    );
+
+    expect(result.files).toEqual([]);
+  });
+
+  it("should detect V8 coverage format", () => {
+    const parser = new V8Parser();
+    const content = buildCoverage("file:///project/calc.js", script);
+    expect(parser.canParse(content)).toBe(true);
+    expect(parser.canParse(content, "coverage-1234-1700000000000-0.json")).toBe(
+      true,
+    );
+    expect(parser.canParse(content, "coverage.xml")).toBe(false);
+    expect(parser.canParse('{"result": []}')).toBe(false);
+  });
+
+  it("should throw on invalid content", async () => {
+    const parser = new V8Parser();
+    await expect(parser.parseContent("{")).rejects.toThrow(
+      "Invalid V8 coverage JSON",
+    );
+    await expect(parser.parseContent("{}")).rejects.toThrow(
+      "missing 'result' array",
+    );
+  });
+});
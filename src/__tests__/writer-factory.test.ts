@@ -0,0 +1,218 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { describe, expect, it } from "vitest";
+import { CoberturaParser } from "../parsers/cobertura-parser.js";
+import { CodecovParser } from "../parsers/codecov-parser.js";
+import { GoParser } from "../parsers/go-parser.js";
+import { IstanbulParser } from "../parsers/istanbul-parser.js";
+import { LcovParser } from "../parsers/lcov-parser.js";
+import { CoverageParserFactory } from "../parsers/parser-factory.js";
+import type { AggregatedCoverageResults } from "../types/coverage.js";
+import { CoverageWriterFactory } from "../writers/writer-factory.js";
+
+describe("CoverageWriterFactory", () => {
+  const lcov = `SF:src/utils/math.ts
+FNF:2
+FNH:1
+DA:1,5
+DA:2,5
+DA:3,0
+DA:5,2
+BRDA:2,0,0,3
+BRDA:2,0,1,0
+BRDA:3,0,0,-
+BRDA:3,0,1,-
+LF:4
+LH:3
+end_of_record
+SF:src/a & b.ts
+DA:1,1
+end_of_record
+`;
+
+  const aggregate = async (): Promise<AggregatedCoverageResults> =>
+    CoverageParserFactory.aggregateResults([
+      await new LcovParser().parseContent(lcov),
+    ]);
+
+  const lineMetrics = (
+    results: AggregatedCoverageResults,
+    withMethods: boolean,
+  ) => ({
+    statements: results.totalStatements,
+    coveredStatements: results.coveredStatements,
+    conditionals: results.totalConditionals,
+    coveredConditionals: results.coveredConditionals,
+    lines: results.files.map((f) => [
+      f.path,
+      f.lines.map((l) => [l.lineNumber, l.count > 0]),
+      f.partialLines,
+    ]),
+    // Codecov JSON has no method counts
+    ...(withMethods
+      ? {
+          methods: results.totalMethods,
+          coveredMethods: results.coveredMethods,
+          fileMethods: results.files.map((f) => [f.methods, f.coveredMethods]),
+        }
+      : {}),
+  });
+
+  it.each([
+    ["lcov", new LcovParser(), true],
+    ["cobertura", new CoberturaParser(), true],
+    ["codecov", new CodecovParser(), false],
+  ] as const)("should round-trip line and branch metrics through %s", async (format, parser, withMethods) => {
+    const results = await aggregate();
+
+    const written = CoverageWriterFactory.getWriter(format).write(results);
+    const reread = CoverageParserFactory.aggregateResults([
+      await parser.parseContent(written),
+    ]);
+
+    expect(parser.detect(written).confidence).toBeGreaterThan(0);
+    expect(lineMetrics(reread, withMethods)).toEqual(
+      lineMetrics(results, withMethods),
+    );
+  });
+
+  it("should keep the lines and methods of a Go profile in Cobertura", async () => {
+    const goProfile = `mode: set
+example.com/app/main.go:3.10,6.2 3 1
+example.com/app/main.go:8.10,9.2 1 0
+`;
+    const results = CoverageParserFactory.aggregateResults([
+      await new GoParser().parseContent(goProfile),
+    ]);
+
+    const reread = CoverageParserFactory.aggregateResults([
+      await new CoberturaParser().parseContent(
+        CoverageWriterFactory.getWriter("cobertura").write(results),
+      ),
+    ]);
+
+    // Statements become lines: 3 of 4 statements, 4 of 6 lines
+    expect(lineMetrics(reread, true)).toEqual({
+      ...lineMetrics(results, true),
+      statements: 6,
+      coveredStatements: 4,
+    });
+  });
+
+  it("should keep statement and method totals in LCOV", async () => {
+    const goProfile = `mode: set
+example.com/app/main.go:3.10,6.2 3 1
+example.com/app/main.go:8.10,9.2 1 0
+`;
+    const results = CoverageParserFactory.aggregateResults([
+      await new GoParser().parseContent(goProfile),
+    ]);
+    const lcovResults = await aggregate();
+
+    for (const original of [results, lcovResults]) {
+      const reread = CoverageParserFactory.aggregateResults([
+        await new LcovParser().parseContent(
+          CoverageWriterFactory.getWriter("lcov").write(original),
+        ),
+      ]);
+      expect(reread.totalStatements).toBe(original.totalStatements);
+      expect(reread.coveredStatements).toBe(original.coveredStatements);
+      expect(reread.totalMethods).toBe(original.totalMethods);
+      expect(reread.coveredMethods).toBe(original.coveredMethods);
+    }
+  });
+
+  it("should keep method totals in Cobertura", async () => {
+    const withFunctions = `SF:src/math.ts
+FN:1,3,add
+FN:5,6,divide
+FNDA:4,add
+FNDA:0,divide
+DA:1,4
+DA:2,4
+DA:5,0
+DA:6,0
+end_of_record
+SF:src/format.ts
+FN:2,format
+FNDA:1,format
+DA:2,1
+end_of_record
+`;
+    const results = CoverageParserFactory.aggregateResults([
+      await new LcovParser().parseContent(withFunctions),
+    ]);
+
+    const written = CoverageWriterFactory.getWriter("cobertura").write(results);
+    const reread = CoverageParserFactory.aggregateResults([
+      await new CoberturaParser().parseContent(written),
+    ]);
+
+    expect(written).toContain(
+      '<method name="add" signature="" line-rate="1.0000"',
+    );
+    expect(reread.totalMethods).toBe(3);
+    expect(reread.coveredMethods).toBe(2);
+    expect(reread.totalMethods).toBe(results.totalMethods);
+    expect(reread.coveredMethods).toBe(results.coveredMethods);
+  });
+
+  it("should write LCOV branch numbers instead of labels", async () => {
+    const location = {
+      start: { line: 2, column: 2 },
+      end: { line: 2, column: 20 },
+    };
+    const istanbul = JSON.stringify({
+      "src/a.ts": {
+        path: "src/a.ts",
+        statementMap: { "0": location },
+        fnMap: {},
+        branchMap: {
+          "0": {
+            loc: location,
+            type: "if",
+            line: 2,
+            locations: [location, location],
+          },
+        },
+        s: { "0": 1 },
+        f: {},
+        b: { "0": [1, 0] },
+      },
+    });
+    const results = CoverageParserFactory.aggregateResults([
+      await new IstanbulParser().parseContent(istanbul),
+    ]);
+    expect(results.files[0].lines[0].branches?.[0].label).toBe("then");
+
+    const written = CoverageWriterFactory.getWriter("lcov").write(results);
+
+    expect(written.split("\n").filter((l) => l.startsWith("BRDA:"))).toEqual([
+      "BRDA:2,0,0,1",
+      "BRDA:2,0,1,0",
+    ]);
+  });
+
+  it("should write each format to the export directory", async () => {
+    const directory = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), "writer-test-")),
+      "export",
+    );
+
+    const written = CoverageWriterFactory.exportResults(
+      await aggregate(),
+      ["cobertura", "codecov"],
+      directory,
+    );
+
+    expect([...written.entries()]).toEqual([
+      ["cobertura", path.join(directory, "cobertura.xml")],
+      ["codecov", path.join(directory, "codecov.json")],
+    ]);
+    expect(fs.readFileSync(written.get("cobertura") ?? "", "utf-8")).toContain(
+      'filename="src/a &amp; b.ts"',
+    );
+    fs.rmSync(path.dirname(directory), { recursive: true });
+  });
+});
@@ -0,0 +1,188 @@
+import { describe, expect, it } from "vitest";
+import { XccovParser } from "../parsers/xccov-parser.js";
+
+describe("XccovParser", () => {
+  const reportJson = JSON.stringify({
+    coveredLines: 7,
+    executableLines: 12,
+    lineCoverage: 0.5833,
+    targets: [
+      {
+        name: "MyApp.app",
+        coveredLines: 7,
+        executableLines: 12,
+        lineCoverage: 0.5833,
+        files: [
+          {
+            name: "Calculator.swift",
+            path: "/src/MyApp/Calculator.swift",
+            coveredLines: 5,
+            executableLines: 8,
+            lineCoverage: 0.625,
+            functions: [
+              {
+                name: "Calculator.add(_:_:)",
+                lineNumber: 3,
+                executionCount: 2,
+                coveredLines: 3,
+                executableLines: 3,
+                lineCoverage: 1,
+              },
+              {
+                name: "Calculator.divide(_:_:)",
+                lineNumber: 8,
+                executionCount: 0,
+                coveredLines: 0,
+                executableLines: 3,
+                lineCoverage: 0,
+              },
+            ],
+          },
+          {
+            name: "AppDelegate.swift",
+            path: "/src/MyApp/AppDelegate.swift",
+            coveredLines: 2,
+            executableLines: 4,
+            lineCoverage: 0.5,
+            functions: [],
+          },
+        ],
+      },
+      {
+        name: "MyAppTests.xctest",
+        files: [
+          {
+            name: "Calculator.swift",
+            path: "/src/MyApp/Calculator.swift",
+            coveredLines: 5,
+            executableLines: 8,
+            functions: [
+              {
+                name: "Calculator.add(_:_:)",
+                lineNumber: 3,
+                executionCount: 1,
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  });
+
+  const archiveJson = JSON.stringify({
+    "/src/MyApp/Calculator.swift": [
+      { line: 1, isExecutable: false },
+      { line: 3, isExecutable: true, executionCount: 2 },
+      {
+        line: 4,
+        isExecutable: true,
+        executionCount: 2,
+        subranges: [{ column: 12, length: 9, executionCount: 0 }],
+      },
+      { line: 5, isExecutable: true, executionCount: 0 },
+    ],
+    "/src/MyApp/AppDelegate.swift": [
+      { line: 1, isExecutable: true, executionCount: 1 },
+    ],
+  });
+
+  describe("report view", () => {
+    it("should walk targets, files and functions", async () => {
+      const parser = new XccovParser();
+      const result = await parser.parseContent(reportJson);
+
+      // Files repeated across targets are merged
+      expect(result.files).toHaveLength(2);
+
+      const calculator = result.files.find(
+        (f) => f.path === "/src/MyApp/Calculator.swift",
+      )!;
+      expect(calculator.name).toBe("Calculator.swift");
+      expect(calculator.statements).toBe(8);
+      expect(calculator.coveredStatements).toBe(5);
+      expect(calculator.lineRate).toBe(62.5);
+    });
+
+    it("should count function coverage", async () => {
+      const parser = new XccovParser();
+      const result = await parser.parseContent(reportJson);
+
+      const calculator = result.files.find(
+        (f) => f.path === "/src/MyApp/Calculator.swift",
+      )!;
+      expect(calculator.methods).toBe(2);
+      expect(calculator.coveredMethods).toBe(1);
+      expect(calculator.functions).toEqual([
+        { name: "Calculator.add(_:_:)", startLine: 3, hits: 3 },
+        { name: "Calculator.divide(_:_:)", startLine: 8, hits: 0 },
+      ]);
+      // The report view has no line data to make lines up from
+      expect(calculator.summaryOnly).toBe(true);
+      expect(calculator.lines).toEqual([]);
+      expect(calculator.missingLines).toEqual([]);
+    });
+
+    it("should calculate aggregate metrics", async () => {
+      const parser = new XccovParser();
+      const result = await parser.parseContent(reportJson);
+
+      expect(result.metrics.statements).toBe(12);
+      expect(result.metrics.coveredStatements).toBe(7);
+      expect(result.metrics.methods).toBe(2);
+      expect(result.metrics.coveredMethods).toBe(1);
+    });
+  });
+
+  describe("archive view", () => {
+    it("should read executable lines and counts", async () => {
+      const parser = new XccovParser();
+      const result = await parser.parseContent(archiveJson);
+
+      const calculator = result.files.find(
+        (f) => f.path === "/src/MyApp/Calculator.swift",
+      )!;
+      expect(calculator.lines.map((l) => [l.lineNumber, l.count])).toEqual([
+        [3, 2],
+        [4, 2],
+        [5, 0],
+      ]);
+      expect(calculator.statements).toBe(3);
+      expect(calculator.coveredStatements).toBe(2);
+      expect(calculator.missingLines).toEqual([5]);
+    });
+
+    it("should treat unexecuted subranges as partial coverage", async () => {
+      const parser = new XccovParser();
+      const result = await parser.parseContent(archiveJson);
+
+      const calculator = result.files.find(
+        (f) => f.path === "/src/MyApp/Calculator.swift",
+      )!;
+      expect(calculator.partialLines).toEqual([4]);
+      expect(calculator.conditionals).toBe(1);
+      expect(calculator.coveredConditionals).toBe(0);
+
+      const line4 = calculator.lines.find((l) => l.lineNumber === 4);
+      expect(line4?.type).toBe("cond");
+      expect(line4?.falseCount).toBe(1);
+    });
+  });
+
+  it("should detect xccov formats", () => {
+    const parser = new XccovParser();
+    expect(parser.canParse(reportJson)).toBe(true);
+    expect(parser.canParse(archiveJson, "xccov-archive.json")).toBe(true);
+    expect(parser.canParse(reportJson, "report.xml")).toBe(false);
+    expect(parser.canParse('{"coverage": {}}')).toBe(false);
+  });
+
+  it("should throw on invalid JSON", async () => {
+    const parser = new XccovParser();
+    await expect(parser.parseContent("[")).rejects.toThrow(
+      "Invalid xccov JSON",
+    );
+    await expect(parser.parseContent("[]")).rejects.toThrow(
+      "expected an object",
+    );
+  });
+});
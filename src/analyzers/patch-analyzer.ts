@@ -1,37 +1,111 @@
 import * as core from "@actions/core";
 import parseDiff from "parse-diff";
-import type { AggregatedCoverageResults } from "../types/coverage.js";
+import type {
+  AggregatedCoverageResults,
+  FileCoverage,
+  FunctionCoverage,
+} from "../types/coverage.js";
+import { CoverageRegions } from "../utils/regions.js";
 
 export interface PatchCoverageResults {
   coveredLines: number;
   missedLines: number;
+  partialLines: number; // Hit lines with a missed branch or region
   totalLines: number;
   percentage: number;
   fileBreakdown: PatchFileCoverage[];
   changedFiles: string[];
+  uncoveredFunctions: UncoveredFunction[];
 }
 
+/**
+ * A function touched by the patch that never ran
+ */
+export interface UncoveredFunction extends FunctionCoverage {
+  path: string;
+}
+
+/**
+ * How partially covered lines count toward the patch percentage:
+ * as misses (Codecov's default), as hits, or as half a hit
+ */
+export type PatchPartialCredit = "none" | "half" | "full";
+
+/**
+ * Fraction of a hit a partial line is worth for each credit mode
+ */
+const PARTIAL_CREDIT: Record<PatchPartialCredit, number> = {
+  none: 0,
+  half: 0.5,
+  full: 1,
+};
+
 export interface PatchFileCoverage {
   path: string;
   coveredLines: number[];
   missedLines: number[];
+  partialLines: number[];
   percentage: number;
 }
 
+/**
+ * Percentage of patch lines hit, giving partial lines the configured credit
+ */
+function calculatePatchPercentage(
+  covered: number,
+  missed: number,
+  partial: number,
+  partialCredit: PatchPartialCredit,
+): number {
+  const total = covered + missed + partial;
+  if (total === 0) return 100;
+  return ((covered + partial * PARTIAL_CREDIT[partialCredit]) / total) * 100;
+}
+
+/**
+ * Line ranges of a file's functions. Functions without a recorded end line
+ * are assumed to run until the next function or the last tracked line.
+ */
+function getFunctionRanges(
+  file: FileCoverage,
+): { fn: FunctionCoverage; start: number; end: number }[] {
+  const functions = [...(file.functions ?? [])].sort(
+    (a, b) => a.startLine - b.startLine,
+  );
+  const lastLine = file.lines.reduce(
+    (last, line) => Math.max(last, line.lineNumber),
+    0,
+  );
+
+  return functions.map((fn, index) => {
+    const next = functions
+      .slice(index + 1)
+      .find((other) => other.startLine > fn.startLine);
+    const end =
+      fn.endLine ??
+      (next ? next.startLine - 1 : Math.max(lastLine, fn.startLine));
+    return { fn, start: fn.startLine, end };
+  });
+}
+
 export const PatchAnalyzer = {
   /**
    * Calculate patch coverage by intersecting coverage results with git diff
+   * @param partialCredit How partial lines count toward the percentage
    */
   analyzePatchCoverage(
     diffContent: string,
-    coverageResults: AggregatedCoverageResults
+    coverageResults: AggregatedCoverageResults,
+    partialCredit: PatchPartialCredit = "none",
   ): PatchCoverageResults {
     const diffFiles = parseDiff(diffContent);
     const fileBreakdown: PatchFileCoverage[] = [];
     const changedFiles = new Set<string>();
+    const uncoveredFunctions: UncoveredFunction[] = [];
 
     let totalCovered = 0;
     let totalMissed = 0;
+    let totalPartial = 0;
 
     // Create a map of normalized file paths from coverage results for faster lookup
     // Normalize by ensuring paths start with relative root logic if needed,
@@ -54,12 +128,23 @@ export const PatchAnalyzer = {
 
       // If not found, try to be more fuzzy if needed, but exact match is safest for now
       // Assuming coverage paths are normalized to repo root
-      if (!coverageFile) {
+      // Summary-only files (totals without lines) can't be intersected
+      if (!coverageFile || coverageFile.summaryOnly) {
         continue;
       }
 
+      const addedLines: number[] = [];
       const coveredLines: number[] = [];
       const missedLines: number[] = [];
+      const partialLines: number[] = [];
+      // Index the file's lines once instead of searching per added line
+      const linesByNumber = new Map(
+        coverageFile.lines.map((line) => [line.lineNumber, line]),
+      );
+      const uncoveredRegionLines = CoverageRegions.uncoveredLines(
+        coverageFile.regions ?? [],
+      );
+      const reportedPartialLines = new Set(coverageFile.partialLines ?? []);
 
       // Iterate through chunks and changes
       for (const chunk of diffFile.chunks) {
@@ -67,34 +152,59 @@ export const PatchAnalyzer = {
           // We only care about added lines
           if (change.type === "add") {
             const lineNumber = change.ln;
+            addedLines.push(lineNumber);
 
             // Check if this line exists in coverage data
-            const lineCoverage = coverageFile.lines.find(
-              (l) => l.lineNumber === lineNumber
-            );
+            const lineCoverage = linesByNumber.get(lineNumber);
 
             // If line exists in coverage data (meaning it's executable code, not comment/whitespace)
             if (lineCoverage) {
-              if (lineCoverage.count > 0) {
-                coveredLines.push(lineNumber);
-                totalCovered++;
-              } else {
+              if (lineCoverage.count === 0) {
                 missedLines.push(lineNumber);
                 totalMissed++;
+              } else if (
+                reportedPartialLines.has(lineNumber) ||
+                (lineCoverage.falseCount ?? 0) > 0 ||
+                uncoveredRegionLines.has(lineNumber)
+              ) {
+                // Part of the line (a branch arm or one side of a ternary)
+                // never ran
+                partialLines.push(lineNumber);
+                totalPartial++;
+              } else {
+                coveredLines.push(lineNumber);
+                totalCovered++;
               }
             }
           }
         }
       }
 
+      // Changed functions that were never called
+      for (const { fn, start, end } of getFunctionRanges(coverageFile)) {
+        if (
+          fn.hits === 0 &&
+          addedLines.some((line) => line >= start && line <= end)
+        ) {
+          uncoveredFunctions.push({ ...fn, path: diffFile.to });
+        }
+      }
+
       // Only add to breakdown if there were executable lines in the patch
-      if (coveredLines.length > 0 || missedLines.length > 0) {
-        const total = coveredLines.length + missedLines.length;
+      const total =
+        coveredLines.length + missedLines.length + partialLines.length;
+      if (total > 0) {
         fileBreakdown.push({
           path: diffFile.to,
           coveredLines,
           missedLines,
-          percentage: total === 0 ? 100 : (coveredLines.length / total) * 100,
+          partialLines,
+          percentage: calculatePatchPercentage(
+            coveredLines.length,
+            missedLines.length,
+            partialLines.length,
+            partialCredit,
+          ),
         });
 
         // Enrich the original file coverage object with patch info if needed
@@ -104,22 +214,32 @@ export const PatchAnalyzer = {
       }
     }
 
-    const totalLines = totalCovered + totalMissed;
-    const percentage =
-      totalLines === 0 ? 100 : (totalCovered / totalLines) * 100;
+    const totalLines = totalCovered + totalMissed + totalPartial;
+    const percentage = calculatePatchPercentage(
+      totalCovered,
+      totalMissed,
+      totalPartial,
+      partialCredit,
+    );
 
     core.info(`Patch Coverage Analysis:`);
     core.info(`  Covered Lines: ${totalCovered}`);
     core.info(`  Missed Lines: ${totalMissed}`);
-    core.info(`  Percentage: ${percentage.toFixed(2)}%`);
+    core.info(`  Partial Lines: ${totalPartial}`);
+    core.info(
+      `  Percentage: ${percentage.toFixed(2)}% (partial credit: ${partialCredit})`,
+    );
+    core.info(`  Uncovered Functions: ${uncoveredFunctions.length}`);
 
     return {
       coveredLines: totalCovered,
       missedLines: totalMissed,
+      partialLines: totalPartial,
       totalLines,
       percentage,
       fileBreakdown,
       changedFiles: [...changedFiles],
+      uncoveredFunctions,
     };
   },
 };
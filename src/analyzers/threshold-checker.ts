@@ -84,11 +84,11 @@ export const ThresholdChecker = {
   ): StatusCheckResult {
     const { informational } = config;
 
-    // If no patch coverage data available (not in PR context or calculation failed)
+    // No patch coverage data (no diff for the event or calculation failed)
     if (!patchCoverage) {
       return {
         status: "success",
-        description: "Patch coverage: N/A (not in PR context)",
+        description: "Patch coverage: N/A (no diff for this event)",
         informational,
       };
     }
@@ -96,12 +96,13 @@ export const ThresholdChecker = {
     // Default target to 80% if set to "auto"
     const target = typeof config.target === "number" ? config.target : 80;
     const isSuccess = patchCoverage.percentage >= target;
+    const { coveredLines, missedLines, partialLines } = patchCoverage;
 
     return {
       status: isSuccess ? "success" : "failure",
       description: `${patchCoverage.percentage.toFixed(2)}% ${
         isSuccess ? ">=" : "<"
-      } target ${target}%`,
+      } target ${target}% (${coveredLines} hit(s), ${missedLines} miss(es), ${partialLines} partial(s))`,
       informational,
     };
   },
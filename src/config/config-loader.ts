@@ -9,6 +9,7 @@ import type {
   CodecovConfig,
   CoverageStatusConfig,
   NormalizedConfig,
+  PathFix,
 } from "../types/config.js";
 
 export class ConfigLoader {
@@ -145,6 +146,69 @@ export class ConfigLoader {
     return "all";
   }
 
+  /**
+   * Parse "before::after" path fixes, skipping malformed entries
+   */
+  private parseFixes(fixes: unknown): PathFix[] {
+    if (fixes === undefined || fixes === null) return [];
+    if (!Array.isArray(fixes)) {
+      core.warning(
+        'Invalid fixes value. Expected a list of "before::after" strings.',
+      );
+      return [];
+    }
+
+    const parsed: PathFix[] = [];
+    for (const fix of fixes) {
+      const separator = typeof fix === "string" ? fix.indexOf("::") : -1;
+      if (separator === -1) {
+        core.warning(
+          `Invalid fixes entry "${String(fix)}". Expected "before::after".`,
+        );
+        continue;
+      }
+
+      const before = (fix as string).slice(0, separator);
+      const after = (fix as string).slice(separator + 2);
+      const regex = before.startsWith("^");
+      if (regex) {
+        try {
+          new RegExp(before);
+        } catch {
+          core.warning(`Invalid fixes regex "${before}". Skipping.`);
+          continue;
+        }
+      }
+      parsed.push({ before, after, regex });
+    }
+
+    return parsed;
+  }
+
+  /**
+   * Parse the list of parser plugin module paths, skipping non-strings
+   */
+  private parseParsers(parsers: unknown): string[] {
+    if (parsers === undefined || parsers === null) return [];
+    if (!Array.isArray(parsers)) {
+      core.warning("Invalid parsers value. Expected a list of module paths.");
+      return [];
+    }
+
+    const parsed: string[] = [];
+    for (const entry of parsers) {
+      if (typeof entry !== "string" || !entry.trim()) {
+        core.warning(
+          `Invalid parsers entry "${String(entry)}". Expected a module path.`,
+        );
+        continue;
+      }
+      parsed.push(entry.trim());
+    }
+
+    return parsed;
+  }
+
   /**
    * Normalize configuration with defaults
    */
@@ -172,6 +236,8 @@ export class ConfigLoader {
         },
       },
       ignore: coverage.ignore || [],
+      fixes: this.parseFixes(config.fixes),
+      parsers: this.parseParsers(config.parsers),
       comment: this.normalizeComment(config.comment),
     };
   }
@@ -1,5 +1,14 @@
-import type { AggregatedCoverageResults } from "../types/coverage.js";
+import type {
+  PatchFileCoverage,
+  UncoveredFunction,
+} from "../analyzers/patch-analyzer.js";
+import type {
+  AggregatedCoverageResults,
+  FileCoverage,
+  LineCoverage,
+} from "../types/coverage.js";
 import type { CommentFilesMode } from "../types/config.js";
+import type { ParseDiagnostic } from "../types/diagnostics.js";
 import type {
   AggregatedTestResults,
   TestComparison,
@@ -9,6 +18,40 @@ export interface ReportFormatOptions {
   filesMode?: CommentFilesMode;
   changedFiles?: string[];
   patchTarget?: number;
+  diagnostics?: ParseDiagnostic[];
+  uncoveredFunctions?: UncoveredFunction[];
+  patchFiles?: PatchFileCoverage[];
+}
+
+/**
+ * Most parse diagnostics listed in a report; the rest are only counted
+ */
+const MAX_REPORTED_DIAGNOSTICS = 50;
+
+/**
+ * Most partially covered lines listed in a report; the rest are only counted
+ */
+const MAX_REPORTED_PARTIAL_LINES = 50;
+
+/**
+ * Describe the branch arms of a line, e.g. "2 of 4 branches taken"
+ * @returns The description, or null when the line has no branch data
+ */
+function describeBranches(line: LineCoverage): string | null {
+  if (line.branches && line.branches.length > 0) {
+    const missed = line.branches.filter((arm) => arm.taken === 0);
+    const taken = line.branches.length - missed.length;
+    const text = `${taken} of ${line.branches.length} branches taken`;
+    const labels = missed.map((arm) => arm.label);
+    return labels.length > 0 && labels.every((label) => label)
+      ? `${text} (missed: ${labels.join(", ")})`
+      : text;
+  }
+  if (line.trueCount === undefined && line.falseCount === undefined) {
+    return null;
+  }
+  const taken = line.trueCount ?? 0;
+  return `${taken} of ${taken + (line.falseCount ?? 0)} branches taken`;
 }
 
 export class ReportFormatter {
@@ -36,6 +79,11 @@ export class ReportFormatter {
       this.addCoverageSection(lines, coverageResults, options);
     }
 
+    // Add parse diagnostics section
+    if (options.diagnostics && options.diagnostics.length > 0) {
+      this.addDiagnosticsSection(lines, options.diagnostics);
+    }
+
     // Footer
     lines.push("---");
     lines.push("*Generated by [Codecov Action](https://github.com/getsentry/codecov-action)*");
@@ -205,6 +253,16 @@ export class ReportFormatter {
       lines.push("");
       lines.push("</details>");
       lines.push("");
+
+      this.addPartialLinesSection(lines, filesWithMissing);
+    }
+
+    if (options.patchFiles && options.patchFiles.length > 0) {
+      this.addPatchLinesSection(lines, options.patchFiles);
+    }
+
+    if (options.uncoveredFunctions && options.uncoveredFunctions.length > 0) {
+      this.addUncoveredFunctionsSection(lines, options.uncoveredFunctions);
     }
 
     // Coverage diff (collapsible)
@@ -427,6 +485,146 @@ export class ReportFormatter {
     lines.push("");
   }
 
+  /**
+   * List partially covered lines with the branches they took (collapsible)
+   */
+  private addPartialLinesSection(lines: string[], files: FileCoverage[]): void {
+    const partials: { file: FileCoverage; line: LineCoverage }[] = [];
+    for (const file of files) {
+      const partialLines = new Set(file.partialLines || []);
+      for (const line of file.lines) {
+        if (partialLines.has(line.lineNumber)) partials.push({ file, line });
+      }
+    }
+    if (partials.length === 0) return;
+
+    lines.push("<details>");
+    lines.push(
+      `<summary>Partially covered lines (${partials.length})</summary>`,
+    );
+    lines.push("");
+    lines.push("| File | Line | Branches |");
+    lines.push("|------|-----:|----------|");
+
+    const listed = partials.slice(0, MAX_REPORTED_PARTIAL_LINES);
+    for (const { file, line } of listed) {
+      const description = describeBranches(line) ?? "partially covered";
+      const branches = description.replace(/\|/g, "\\|");
+      lines.push(
+        `| \`${this.getFileName(file.path)}\` | ${line.lineNumber} | ${branches} |`,
+      );
+    }
+
+    if (partials.length > MAX_REPORTED_PARTIAL_LINES) {
+      lines.push("");
+      lines.push(
+        `_...and ${partials.length - MAX_REPORTED_PARTIAL_LINES} more_`,
+      );
+    }
+    lines.push("");
+    lines.push("</details>");
+    lines.push("");
+  }
+
+  /**
+   * Split each changed file's patch lines into hits, misses and partials
+   * (collapsible)
+   */
+  private addPatchLinesSection(
+    lines: string[],
+    files: PatchFileCoverage[],
+  ): void {
+    lines.push("<details>");
+    lines.push(`<summary>Patch lines by file (${files.length})</summary>`);
+    lines.push("");
+    lines.push("| File | Patch % | Hits | Misses | Partials |");
+    lines.push("|------|--------:|-----:|-------:|---------:|");
+
+    for (const file of files) {
+      lines.push(
+        `| \`${this.getFileName(file.path)}\` | ${file.percentage.toFixed(
+          2,
+        )}% | ${file.coveredLines.length} | ${file.missedLines.length} | ${
+          file.partialLines.length
+        } |`,
+      );
+    }
+
+    lines.push("");
+    lines.push("</details>");
+    lines.push("");
+  }
+
+  /**
+   * List functions changed by the PR that no test called (collapsible)
+   */
+  private addUncoveredFunctionsSection(
+    lines: string[],
+    functions: UncoveredFunction[],
+  ): void {
+    lines.push("<details>");
+    lines.push(
+      `<summary>Uncovered functions in this PR (${functions.length})</summary>`,
+    );
+    lines.push("");
+    lines.push("| File | Function | Lines |");
+    lines.push("|------|----------|-------|");
+
+    for (const fn of functions) {
+      const name = fn.name.replace(/\|/g, "\\|");
+      const range =
+        fn.endLine && fn.endLine !== fn.startLine
+          ? `${fn.startLine}-${fn.endLine}`
+          : `${fn.startLine}`;
+      lines.push(
+        `| \`${this.getFileName(fn.path)}\` | \`${name}\` | ${range} |`,
+      );
+    }
+
+    lines.push("");
+    lines.push("</details>");
+    lines.push("");
+  }
+
+  /**
+   * Add parse diagnostics section (collapsible)
+   */
+  private addDiagnosticsSection(
+    lines: string[],
+    diagnostics: ParseDiagnostic[],
+  ): void {
+    // Info diagnostics are left to the log
+    const problems = diagnostics.filter((d) => d.severity !== "info");
+    if (problems.length === 0) return;
+
+    lines.push("### ⚠️ Parse Diagnostics");
+    lines.push("");
+    lines.push("<details>");
+    lines.push(
+      `<summary>${problems.length} problem(s) found while reading reports</summary>`,
+    );
+    lines.push("");
+    lines.push("| Severity | File | Line | Message |");
+    lines.push("|----------|------|-----:|---------|");
+
+    for (const diagnostic of problems.slice(0, MAX_REPORTED_DIAGNOSTICS)) {
+      const file = diagnostic.file ? `\`${diagnostic.file}\`` : "";
+      const source = diagnostic.source ? ` (\`${diagnostic.source}\`)` : "";
+      const message = `${diagnostic.message}${source}`.replace(/\|/g, "\\|");
+      lines.push(
+        `| ${diagnostic.severity} | ${file} | ${diagnostic.line ?? ""} | ${message} |`,
+      );
+    }
+
+    if (problems.length > MAX_REPORTED_DIAGNOSTICS) {
+      lines.push("");
+      lines.push(`_...and ${problems.length - MAX_REPORTED_DIAGNOSTICS} more_`);
+    }
+    lines.push("");
+    lines.push("</details>");
+    lines.push("");
+  }
+
   /**
    * Get just the filename from a path
    */
@@ -1,9 +1,12 @@
-import * as fs from "node:fs";
+import * as os from "node:os";
 import * as path from "node:path";
 import * as core from "@actions/core";
 import * as glob from "@actions/glob";
+import type {
+  PatchCoverageResults,
+  PatchPartialCredit,
+} from "./analyzers/patch-analyzer.js";
 import { PatchAnalyzer } from "./analyzers/patch-analyzer.js";
-import type { PatchCoverageResults } from "./analyzers/patch-analyzer.js";
 import { ThresholdChecker } from "./analyzers/threshold-checker.js";
 import { ConfigLoader } from "./config/config-loader.js";
 import { ReportFormatter } from "./formatters/report-formatter.js";
@@ -18,9 +21,21 @@ import type { CoverageResults } from "./types/coverage.js";
 import type { TestResults } from "./types/test-results.js";
 import { ArtifactManager } from "./utils/artifact-manager.js";
 import { TestResultsComparator } from "./utils/comparison.js";
+import { type CoverageInput, readCoverageInputs } from "./utils/compression.js";
 import { CoverageComparator } from "./utils/coverage-comparison.js";
+import { DiagnosticsCollector } from "./utils/diagnostics.js";
 import { FileFinder } from "./utils/file-finder.js";
+import { LocalGitDiff } from "./utils/git-diff.js";
 import { GitHubClient } from "./utils/github-client.js";
+import { GoModuleResolver } from "./utils/go-modules.js";
+import { ParsePool, type ParseTask } from "./utils/parse-pool.js";
+import { PathFixer } from "./utils/path-fixer.js";
+import { SourceMapRemapper } from "./utils/source-map-remapper.js";
+import { type SourceIndex, SourceRootResolver } from "./utils/source-roots.js";
+import {
+  CoverageWriterFactory,
+  type ExportFormat,
+} from "./writers/writer-factory.js";
 
 /**
  * Coverage input configuration
@@ -30,8 +45,14 @@ interface CoverageConfig {
   directory: string;
   exclude: string[];
   format: CoverageFormat | "auto";
+  remapSourceMaps: boolean;
+  sourceRoots: string[];
   disableSearch: boolean;
   failCiIfError: boolean;
+  strictParsing: boolean;
+  parseConcurrency: number;
+  exportFormats: ExportFormat[];
+  exportDirectory: string;
   handleNoReportsFound: boolean;
   verbose: boolean;
   flags: string[];
@@ -39,13 +60,22 @@ interface CoverageConfig {
   // Config from .github/coverage.yml
   status?: NormalizedConfig["status"];
   comment: NormalizedConfig["comment"];
+  fixes: NormalizedConfig["fixes"];
+  parsers: NormalizedConfig["parsers"];
   // Threshold overrides from inputs
   failOnError: boolean;
   targetProject?: number | "auto";
   thresholdProject?: number;
   targetPatch?: number;
+  patchPartialCredit: PatchPartialCredit;
+  patchBaseRef?: string;
 }
 
+/**
+ * Accepted values of the patch-partial-credit input
+ */
+const PATCH_PARTIAL_CREDITS: string[] = ["none", "half", "full"];
+
 /**
  * Parse coverage configuration from action inputs and YAML config
  */
@@ -83,10 +113,48 @@ async function getCoverageConfig(): Promise<CoverageConfig> {
   // Get format
   const formatInput = core.getInput("coverage-format") || "auto";
   const format = formatInput as CoverageFormat | "auto";
+  const remapSourceMaps = core.getBooleanInput("remap-source-maps") === true;
+
+  // Get extra JVM source roots (comma-separated)
+  const sourceRootsInput = core.getInput("source-roots");
+  const sourceRoots = sourceRootsInput
+    ? sourceRootsInput
+        .split(",")
+        .map((r) => r.trim())
+        .filter(Boolean)
+    : [];
+
+  // Get formats to export the merged coverage in (comma-separated)
+  const exportFormats: ExportFormat[] = [];
+  for (const exportFormat of core
+    .getInput("export-formats")
+    .split(",")
+    .map((f) => f.trim().toLowerCase())
+    .filter(Boolean)) {
+    if (CoverageWriterFactory.isSupportedFormat(exportFormat)) {
+      if (!exportFormats.includes(exportFormat)) {
+        exportFormats.push(exportFormat);
+      }
+    } else {
+      core.warning(
+        `Unsupported export format "${exportFormat}". Supported formats: ${CoverageWriterFactory.getSupportedFormats().join(", ")}`,
+      );
+    }
+  }
+  const exportDirectory =
+    core.getInput("export-directory") || "coverage-export";
 
   // Get boolean flags
   const disableSearch = core.getBooleanInput("disable-search") === true;
   const failCiIfError = core.getBooleanInput("fail-ci-if-error") === true;
+  const strictParsing = core.getBooleanInput("strict-parsing") === true;
+
+  // Get parse concurrency (defaults to one worker per CPU)
+  const parseConcurrencyInput = Number(core.getInput("parse-concurrency"));
+  const parseConcurrency =
+    Number.isInteger(parseConcurrencyInput) && parseConcurrencyInput > 0
+      ? parseConcurrencyInput
+      : os.availableParallelism();
   const handleNoReportsFound =
     core.getBooleanInput("handle-no-reports-found") === true;
   const verbose = core.getBooleanInput("verbose") === true;
@@ -121,26 +189,62 @@ async function getCoverageConfig(): Promise<CoverageConfig> {
     : undefined;
   const targetPatch = targetPatchInput ? Number(targetPatchInput) : undefined;
 
+  // Base to measure patch coverage against outside pull requests
+  const patchBaseRef = core.getInput("patch-base-ref").trim() || undefined;
+
+  // How partially covered lines count toward patch coverage
+  const patchPartialCreditInput =
+    core.getInput("patch-partial-credit").trim().toLowerCase() || "none";
+  let patchPartialCredit: PatchPartialCredit = "none";
+  if (PATCH_PARTIAL_CREDITS.includes(patchPartialCreditInput)) {
+    patchPartialCredit = patchPartialCreditInput as PatchPartialCredit;
+  } else {
+    core.warning(
+      `Unsupported patch-partial-credit "${patchPartialCreditInput}". Supported values: ${PATCH_PARTIAL_CREDITS.join(", ")}`,
+    );
+  }
+
   return {
     files,
     directory,
     exclude,
     format,
+    remapSourceMaps,
+    sourceRoots,
     disableSearch,
     failCiIfError,
+    strictParsing,
+    parseConcurrency,
+    exportFormats,
+    exportDirectory,
     handleNoReportsFound,
     verbose,
     flags,
     name,
     status: yamlConfig.status,
     comment: yamlConfig.comment,
+    fixes: yamlConfig.fixes,
+    parsers: yamlConfig.parsers,
     failOnError,
     targetProject,
     thresholdProject,
     targetPatch,
+    patchPartialCredit,
+    patchBaseRef,
   };
 }
 
+/**
+ * Most parse diagnostics written to the workflow log; the rest are counted
+ */
+const MAX_LOGGED_DIAGNOSTICS = 50;
+
+/**
+ * Fewest reports parsed on worker threads; starting workers costs more
+ * than parsing a handful of reports on the main thread
+ */
+const MIN_REPORTS_FOR_WORKERS = 4;
+
 /**
  * Log message if verbose mode is enabled
  */
@@ -150,6 +254,81 @@ function verboseLog(message: string, verbose: boolean): void {
   }
 }
 
+/**
+ * In strict parsing mode, fail a report whose parser reported problems
+ */
+function assertNoParseProblems(
+  diagnostics: DiagnosticsCollector,
+  strictParsing: boolean,
+): void {
+  if (!strictParsing) return;
+  const problems = diagnostics.getProblems();
+  if (problems.length > 0) {
+    throw new Error(
+      `${problems.length} parse problem(s) with strict-parsing enabled, first: ${DiagnosticsCollector.format(problems[0])}`,
+    );
+  }
+}
+
+/**
+ * Write parse diagnostics to the workflow log
+ */
+function logDiagnostics(
+  diagnostics: DiagnosticsCollector,
+  verbose: boolean,
+): void {
+  const problems = diagnostics.getProblems();
+  for (const diagnostic of diagnostics.getDiagnostics()) {
+    if (diagnostic.severity === "info") {
+      verboseLog(DiagnosticsCollector.format(diagnostic), verbose);
+    }
+  }
+  if (problems.length === 0) return;
+
+  core.warning(
+    `Found ${problems.length} problem(s) while parsing reports; affected records were skipped`,
+  );
+  for (const problem of problems.slice(0, MAX_LOGGED_DIAGNOSTICS)) {
+    core.warning(DiagnosticsCollector.format(problem));
+  }
+  if (problems.length > MAX_LOGGED_DIAGNOSTICS) {
+    core.warning(`...and ${problems.length - MAX_LOGGED_DIAGNOSTICS} more`);
+  }
+}
+
+/**
+ * Get the diff patch coverage is measured on: the PR diff on pull requests,
+ * otherwise a local git diff of the pushed commits, the merge group or
+ * patch-base-ref, falling back to the compare API when git fails
+ * @returns The diff, or null when the event has nothing to compare against
+ */
+async function getPatchDiff(
+  githubClient: GitHubClient,
+  patchBaseRef?: string,
+): Promise<string | null> {
+  if (githubClient.isPullRequest()) {
+    return githubClient.getPrDiff();
+  }
+
+  const range = githubClient.getDiffRange(patchBaseRef);
+  if (!range) {
+    core.info("No base commit for this event, skipping patch coverage");
+    return null;
+  }
+
+  const workspace = process.env.GITHUB_WORKSPACE || process.cwd();
+  try {
+    return await LocalGitDiff.getDiff(range, workspace);
+  } catch (error) {
+    core.warning(
+      `Local git diff failed, falling back to the GitHub API: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    );
+    return githubClient.getCompareDiff(range.base, range.head);
+  }
+}
+
 async function run() {
   try {
     // Get inputs
@@ -192,6 +371,9 @@ async function run() {
     const currentBranch = ArtifactManager.getCurrentBranch();
     core.info(`Current branch: ${currentBranch}`);
 
+    // Problems found in any report, shown in the log and Job Summary
+    const diagnostics = new DiagnosticsCollector();
+
     // Process test results if enabled
     let aggregatedTestResults = null;
     if (enableTests) {
@@ -199,7 +381,9 @@ async function run() {
         junitPattern,
         artifactManager,
         currentBranch,
-        baseBranch
+        baseBranch,
+        diagnostics,
+        coverageConfig.strictParsing,
       );
     }
 
@@ -215,7 +399,8 @@ async function run() {
         coverageConfig,
         artifactManager,
         currentBranch,
-        baseBranch
+        baseBranch,
+        diagnostics,
       );
 
       // Run threshold checks if coverage results are available
@@ -223,28 +408,36 @@ async function run() {
         // Initialize status reporter
         const statusReporter = new StatusReporter(token);
 
-        // Calculate patch coverage if in PR context
-        if (githubClient.isPullRequest()) {
-          try {
-            core.info("🔍 Calculating patch coverage...");
-            const diffContent = await githubClient.getPrDiff();
+        // Calculate patch coverage from the PR, push or merge group diff
+        try {
+          core.info("🔍 Calculating patch coverage...");
+          const diffContent = await getPatchDiff(
+            githubClient,
+            coverageConfig.patchBaseRef,
+          );
+          if (diffContent !== null) {
             patchCoverage = PatchAnalyzer.analyzePatchCoverage(
               diffContent,
-              aggregatedCoverageResults
+              aggregatedCoverageResults,
+              coverageConfig.patchPartialCredit,
             );
 
-            // Set patch coverage output
+            // Set patch coverage outputs
             core.setOutput(
               "patch-coverage",
               patchCoverage.percentage.toString()
             );
+            core.setOutput(
+              "patch-partials",
+              patchCoverage.partialLines.toString(),
+            );
 
             // Enrich aggregated results with patch coverage for the formatter
             aggregatedCoverageResults.patchCoverageRate =
               patchCoverage.percentage;
-          } catch (error) {
-            core.warning(`Failed to calculate patch coverage: ${error}`);
           }
+        } catch (error) {
+          core.warning(`Failed to calculate patch coverage: ${error}`);
         }
 
         // Determine project config (inputs override YAML)
@@ -330,6 +523,8 @@ async function run() {
       }
     }
 
+    logDiagnostics(diagnostics, coverageConfig.verbose);
+
     // Generate report using the formatter
     const formatter = new ReportFormatter();
     const summaryReportBody = formatter.formatReport(
@@ -337,6 +532,9 @@ async function run() {
       aggregatedCoverageResults || undefined,
       {
         patchTarget: patchTargetForFormatter,
+        diagnostics: diagnostics.getDiagnostics(),
+        uncoveredFunctions: patchCoverage?.uncoveredFunctions,
+        patchFiles: patchCoverage?.fileBreakdown,
       }
     );
 
@@ -357,6 +555,8 @@ async function run() {
               ? patchCoverage?.changedFiles || []
               : undefined,
           patchTarget: patchTargetForFormatter,
+          uncoveredFunctions: patchCoverage?.uncoveredFunctions,
+          patchFiles: patchCoverage?.fileBreakdown,
         }
       );
       core.info("📝 Posting results to PR comment...");
@@ -382,7 +582,9 @@ async function processTestResults(
   junitPattern: string,
   artifactManager: ArtifactManager,
   currentBranch: string,
-  baseBranch: string
+  baseBranch: string,
+  diagnostics: DiagnosticsCollector,
+  strictParsing: boolean,
 ) {
   core.info("📊 Processing test results...");
 
@@ -421,7 +623,9 @@ async function processTestResults(
   for (const file of validFiles) {
     try {
       core.info(`Parsing: ${file}`);
-      const result = parser.parseFile(file);
+      const fileDiagnostics = diagnostics.forFile(file);
+      const result = parser.parseFile(file, fileDiagnostics);
+      assertNoParseProblems(fileDiagnostics, strictParsing);
       allResults.push(result);
     } catch (error) {
       const message = error instanceof Error ? error.message : "Unknown error";
@@ -530,14 +734,30 @@ async function findCoverageFiles(config: CoverageConfig): Promise<string[]> {
     "**/clover.xml",
     "**/cobertura.xml",
     "**/coverage.xml",
+    "**/*.opencover.xml",
+    "**/scoverage.xml",
     "**/jacoco.xml",
     "**/lcov.info",
     "**/*.lcov",
     "**/coverage-final.json",
+    "**/coverage-*-*-*.json",
     "**/coverage.out",
     "**/cover.out",
     "**/codecov.json",
+    "**/.resultset.json",
+    "**/coverage.json",
+    "**/llvm-cov.json",
+    "**/*.gcov.json",
+    "**/*xccov*.json",
   ];
+  // Gzip-compressed reports, and archives of reports
+  defaultPatterns.push(
+    ...defaultPatterns.map((pattern) => `${pattern}.gz`),
+    "**/coverage*.zip",
+    "**/coverage*.tar",
+    "**/coverage*.tar.gz",
+    "**/coverage*.tgz",
+  );
 
   // Check for legacy coverage-xml-pattern input
   const legacyPattern = core.getInput("coverage-xml-pattern");
@@ -578,10 +798,25 @@ async function processCoverage(
   config: CoverageConfig,
   artifactManager: ArtifactManager,
   currentBranch: string,
-  baseBranch: string
+  baseBranch: string,
+  diagnostics: DiagnosticsCollector,
 ) {
-  const { format, failCiIfError, handleNoReportsFound, verbose, flags, name } =
-    config;
+  const {
+    format,
+    remapSourceMaps,
+    sourceRoots,
+    failCiIfError,
+    strictParsing,
+    parseConcurrency,
+    exportFormats,
+    exportDirectory,
+    handleNoReportsFound,
+    verbose,
+    flags,
+    name,
+    fixes,
+    parsers,
+  } = config;
 
   core.info("🎯 Processing coverage results...");
   if (name) {
@@ -594,6 +829,22 @@ async function processCoverage(
     core.setOutput("coverage-flags", flagsValue);
   }
 
+  const workspace = process.env.GITHUB_WORKSPACE || process.cwd();
+
+  // Register parser plugins before any format detection
+  if (parsers.length > 0) {
+    const plugins = await CoverageParserFactory.loadPlugins(parsers, workspace);
+    for (const error of plugins.errors) {
+      if (failCiIfError) {
+        throw new Error(error);
+      }
+      core.error(error);
+    }
+    if (plugins.formats.length > 0) {
+      core.info(`Loaded parser plugins: ${plugins.formats.join(", ")}`);
+    }
+  }
+
   // Find coverage files
   const files = await findCoverageFiles(config);
 
@@ -636,47 +887,212 @@ async function processCoverage(
   // Parse all coverage files
   const allResults: CoverageResults[] = [];
   let detectedFormat: CoverageFormat | null = null;
+  // Go modules are discovered once, on the first Go profile
+  let goModules: Map<string, string> | null = null;
+  // Likewise the source tree, on the first JaCoCo or Cobertura report
+  let sourceIndex: SourceIndex | null = null;
 
+  // Archives are expanded so each of their reports is parsed on its own
+  const inputs: CoverageInput[] = [];
   for (const file of validFiles) {
     try {
-      verboseLog(`Parsing coverage: ${file}`, verbose);
-
-      // Read file once and use for both parsing and format detection
-      const content = fs.readFileSync(file, "utf-8");
-
-      // Determine the format to use and log
-      let fileFormat: CoverageFormat | "auto" = format;
-      if (format === "auto") {
-        const parser = CoverageParserFactory.detectParser(content, file);
-        if (parser) {
-          fileFormat = parser.format;
-          if (detectedFormat === null) {
-            detectedFormat = parser.format;
-          }
-        }
-      } else {
-        // When explicit format is provided, use it for tracking
+      const fileInputs = readCoverageInputs(file);
+      if (fileInputs.some((input) => input.label !== file)) {
+        verboseLog(
+          `Read ${fileInputs.length} file(s) from archive ${file}`,
+          verbose,
+        );
+      }
+      inputs.push(...fileInputs);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      if (failCiIfError) {
+        throw new Error(`Failed to read ${file}: ${message}`);
+      }
+      core.error(`Failed to read ${file}: ${message}`);
+    }
+  }
+
+  // Reports are labelled by file path, or "archive.zip!/entry" in archives
+  const tasks: { task: ParseTask; fileFormat: CoverageFormat | "auto" }[] = [];
+  for (const input of inputs) {
+    const { filePath, label: file } = input;
+
+    // Determine the format to use and log
+    let fileFormat: CoverageFormat | "auto" = format;
+    const fromArchive = file !== filePath;
+    // Streamed reports are detected from their first megabyte
+    const detection =
+      format === "auto" || fromArchive
+        ? CoverageParserFactory.detectFormat(input.content ?? input.head, file)
+        : null;
+    if (detection) {
+      verboseLog(
+        `Formats considered for ${file}: ${
+          CoverageParserFactory.describeCandidates(detection.candidates) ||
+          "none"
+        }`,
+        verbose,
+      );
+    }
+    // Archives may hold more than coverage reports (logs, HTML, ...)
+    if (fromArchive && detection?.candidates.length === 0) {
+      verboseLog(`Skipping ${file}: not a coverage report`, verbose);
+      continue;
+    }
+    if (format === "auto") {
+      const parser = detection?.parser;
+      if (parser) {
+        fileFormat = parser.format;
         if (detectedFormat === null) {
-          detectedFormat = format;
+          detectedFormat = parser.format;
         }
       }
+    } else {
+      // When explicit format is provided, use it for tracking
+      if (detectedFormat === null) {
+        detectedFormat = format;
+      }
+    }
 
-      const result = await CoverageParserFactory.parseContent(
-        content,
-        file,
-        format
+    if (input.content === null) {
+      verboseLog(
+        `${file} is large or compressed; streaming it if its format allows`,
+        verbose,
       );
-      allResults.push(result);
+    }
+    tasks.push({
+      task: { filePath, label: file, content: input.content, format },
+      fileFormat,
+    });
+  }
 
-      core.info(`✓ Parsed ${file} (${fileFormat})`);
-    } catch (error) {
-      const message = error instanceof Error ? error.message : "Unknown error";
-      if (failCiIfError) {
-        throw new Error(`Failed to parse ${file}: ${message}`);
+  // Parse on worker threads, then handle the results in report order so
+  // the outcome doesn't depend on which worker finishes first
+  const concurrency =
+    tasks.length < MIN_REPORTS_FOR_WORKERS
+      ? 1
+      : Math.min(parseConcurrency, tasks.length);
+  const pool = new ParsePool(concurrency, { plugins: parsers, workspace });
+  verboseLog(
+    `Parsing ${tasks.length} report(s) with concurrency ${concurrency}`,
+    verbose,
+  );
+  const parsing = tasks.map(({ task }) => {
+    const pending = pool.parse(task);
+    // Failures are handled when their turn comes
+    pending.catch(() => {});
+    return pending;
+  });
+
+  try {
+    for (const [index, { task, fileFormat }] of tasks.entries()) {
+      const { filePath, label: file } = task;
+      try {
+        verboseLog(`Parsing coverage: ${file}`, verbose);
+
+        const fileDiagnostics = diagnostics.forFile(file);
+        const parsed = await parsing[index];
+        for (const { severity, message, line, source } of parsed.diagnostics) {
+          fileDiagnostics.report(severity, message, { line, source });
+        }
+        if (!parsed.results) {
+          throw new Error(parsed.error ?? "Unknown error");
+        }
+        let result = parsed.results;
+        assertNoParseProblems(fileDiagnostics, strictParsing);
+
+        // Map coverage of bundled/compiled JS back to the original sources
+        if (
+          remapSourceMaps &&
+          (fileFormat === "istanbul" || fileFormat === "lcov")
+        ) {
+          result = SourceMapRemapper.remapResults(result, [
+            process.cwd(),
+            path.dirname(filePath),
+          ]);
+          verboseLog(
+            `Remapped ${file} through source maps (${result.files.length} file(s))`,
+            verbose,
+          );
+        }
+
+        // Go profiles use import paths; map them to module directories
+        if (fileFormat === "go") {
+          if (!goModules) {
+            goModules = GoModuleResolver.findModules(workspace);
+            verboseLog(
+              `Go modules: ${
+                Array.from(goModules.entries())
+                  .map(([module, dir]) => `${module} -> ${dir || "."}`)
+                  .join(", ") || "none"
+              }`,
+              verbose,
+            );
+          }
+          const resolution = GoModuleResolver.resolveResultPaths(
+            result,
+            goModules,
+          );
+          result = resolution.results;
+          if (resolution.unresolved.length > 0) {
+            core.warning(
+              `Could not resolve the Go module of ${resolution.unresolved.length} file(s) in ${file} (e.g. ${resolution.unresolved[0]}). Check that their go.mod is in the checkout or add "fixes:" to .github/coverage.yml.`,
+            );
+          }
+        }
+
+        // JVM reports use package-relative paths; find them under source roots
+        if (fileFormat === "jacoco" || fileFormat === "cobertura") {
+          if (!sourceIndex) {
+            sourceIndex = SourceRootResolver.scan(workspace);
+            verboseLog(
+              `Source roots: ${sourceIndex.roots.join(", ") || "none"}`,
+              verbose,
+            );
+          }
+          const resolution = SourceRootResolver.resolveResultPaths(
+            result,
+            sourceIndex,
+            sourceRoots,
+          );
+          result = resolution.results;
+          if (resolution.unresolved.length > 0) {
+            verboseLog(
+              `Could not find ${resolution.unresolved.length} file(s) of ${file} under any source root (e.g. ${resolution.unresolved[0]})`,
+              verbose,
+            );
+          }
+        }
+
+        // Rewrite paths to repo-relative ones, dropping files outside the
+        // checkout
+        const reportedFiles = result.files.length;
+        result = PathFixer.fixResultPaths(result, {
+          fixes,
+          workspace,
+          log: (message) => verboseLog(message, verbose),
+        });
+        if (reportedFiles > 0 && result.files.length === 0) {
+          core.warning(
+            `None of the ${reportedFiles} file path(s) in ${file} exist in the checkout. Add "fixes:" to .github/coverage.yml to rewrite them.`,
+          );
+        }
+        allResults.push(result);
+
+        core.info(`✓ Parsed ${file} (${fileFormat})`);
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : "Unknown error";
+        if (failCiIfError) {
+          throw new Error(`Failed to parse ${file}: ${message}`);
+        }
+        core.error(`Failed to parse ${file}: ${message}`);
+        // Continue with other files
       }
-      core.error(`Failed to parse ${file}: ${message}`);
-      // Continue with other files
     }
+  } finally {
+    await pool.close();
   }
 
   if (allResults.length === 0) {
@@ -772,6 +1188,27 @@ async function processCoverage(
     core.setOutput("coverage-improved", "false");
   }
 
+  // Export the merged coverage for other tools
+  if (exportFormats.length > 0) {
+    try {
+      const exported = CoverageWriterFactory.exportResults(
+        aggregatedResults,
+        exportFormats,
+        path.resolve(workspace, exportDirectory),
+      );
+      for (const [exportFormat, filePath] of exported) {
+        core.info(`📤 Exported ${exportFormat} coverage to ${filePath}`);
+        core.setOutput(`exported-${exportFormat}`, filePath);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      if (failCiIfError) {
+        throw new Error(`Failed to export coverage: ${message}`);
+      }
+      core.error(`Failed to export coverage: ${message}`);
+    }
+  }
+
   // Set outputs
   core.setOutput("line-coverage", aggregatedResults.lineRate.toString());
   core.setOutput("branch-coverage", aggregatedResults.branchRate.toString());
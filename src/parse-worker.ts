@@ -0,0 +1,18 @@
+import { parentPort, workerData } from "node:worker_threads";
+import { CoverageParserFactory } from "./parsers/parser-factory.js";
+import {
+  type ParseTask,
+  type ParseWorkerData,
+  runParseTask,
+} from "./utils/parse-pool.js";
+
+// Worker thread entry point: parses the reports ParsePool posts to it
+const { plugins, workspace } = workerData as ParseWorkerData;
+
+// Load errors were already reported by the main thread
+const pluginsLoaded = CoverageParserFactory.loadPlugins(plugins, workspace);
+
+parentPort?.on("message", async (task: ParseTask) => {
+  await pluginsLoaded;
+  parentPort?.postMessage(await runParseTask(task));
+});
@@ -1,16 +1,79 @@
-import type { CoverageResults } from "../types/coverage.js";
+import type { Readable } from "node:stream";
+import type { BranchCoverage, CoverageResults } from "../types/coverage.js";
+import { readCoverageFile } from "../utils/compression.js";
+import type { DiagnosticsCollector } from "../utils/diagnostics.js";
 
 /**
- * Supported coverage format types
+ * Coverage formats with a built-in parser
  */
-export type CoverageFormat =
+export type BuiltInCoverageFormat =
   | "clover"
   | "cobertura"
   | "jacoco"
   | "lcov"
   | "istanbul"
   | "go"
-  | "codecov";
+  | "codecov"
+  | "simplecov"
+  | "coveragepy"
+  | "llvm"
+  | "opencover"
+  | "gcov"
+  | "xccov"
+  | "scoverage"
+  | "v8";
+
+/**
+ * Supported coverage format types: built-in ones plus the names of parser
+ * plugins declared under `parsers:` in the config
+ */
+export type CoverageFormat = BuiltInCoverageFormat | (string & {});
+
+/**
+ * How sure a parser is that it can handle some content (0-100)
+ */
+export const DETECTION_CONFIDENCE = {
+  /** File name and content both match */
+  CERTAIN: 100,
+  /** Content has markers unique to the format */
+  CONTENT: 90,
+  /** Content has a shape other formats could share */
+  WEAK_CONTENT: 60,
+  /** Only the file name matches a name the format's tool writes */
+  FILE_NAME: 50,
+  /** Only a generic file extension matches */
+  EXTENSION: 20,
+  NONE: 0,
+} as const;
+
+/**
+ * Outcome of a parser inspecting content for its format
+ */
+export interface DetectionResult {
+  /** 0 (not this format) to 100 (certain) */
+  confidence: number;
+  /** Short explanation shown in verbose logs */
+  reason: string;
+}
+
+/**
+ * A format considered for a file during auto-detection
+ */
+export interface FormatCandidate extends DetectionResult {
+  format: CoverageFormat;
+}
+
+/**
+ * Outcome of auto-detecting the format of a file
+ */
+export interface FormatDetection {
+  /** The best match; null when nothing matched or the best match is tied */
+  parser: ICoverageParser | null;
+  /** Every format with some confidence, best first */
+  candidates: FormatCandidate[];
+  /** Whether several formats share the highest confidence */
+  ambiguous: boolean;
+}
 
 /**
  * Interface for all coverage parsers
@@ -24,22 +87,50 @@ export interface ICoverageParser {
   /**
    * Parse a coverage file from disk
    * @param filePath Path to the coverage file
+   * @param diagnostics Optional collector for skipped or suspect records
    * @returns Parsed coverage results
    */
-  parseFile(filePath: string): Promise<CoverageResults>;
+  parseFile(
+    filePath: string,
+    diagnostics?: DiagnosticsCollector,
+  ): Promise<CoverageResults>;
 
   /**
    * Parse coverage data from a string
    * @param content Raw content of the coverage file
+   * @param diagnostics Optional collector for skipped or suspect records
+   * @returns Parsed coverage results
+   */
+  parseContent(
+    content: string,
+    diagnostics?: DiagnosticsCollector,
+  ): Promise<CoverageResults>;
+
+  /**
+   * Parse coverage data from a stream without holding the whole report in
+   * memory. Only line-oriented formats implement it.
+   * @param stream Readable stream of the report text
+   * @param diagnostics Optional collector for skipped or suspect records
    * @returns Parsed coverage results
    */
-  parseContent(content: string): Promise<CoverageResults>;
+  parseStream?(
+    stream: Readable,
+    diagnostics?: DiagnosticsCollector,
+  ): Promise<CoverageResults>;
+
+  /**
+   * Score how likely the content is in this parser's format
+   * @param content Raw content to check
+   * @param filePath Optional file path for name-based detection
+   * @returns Confidence and the reason for it
+   */
+  detect(content: string, filePath?: string): DetectionResult;
 
   /**
    * Check if this parser can handle the given content
    * @param content Raw content to check
    * @param filePath Optional file path for extension-based detection
-   * @returns true if this parser can handle the content
+   * @returns true if detect reports any confidence
    */
   canParse(content: string, filePath?: string): boolean;
 }
@@ -50,14 +141,23 @@ export interface ICoverageParser {
 export abstract class BaseCoverageParser implements ICoverageParser {
   abstract readonly format: CoverageFormat;
 
-  abstract parseContent(content: string): Promise<CoverageResults>;
+  abstract parseContent(
+    content: string,
+    diagnostics?: DiagnosticsCollector,
+  ): Promise<CoverageResults>;
+
+  abstract detect(content: string, filePath?: string): DetectionResult;
 
-  abstract canParse(content: string, filePath?: string): boolean;
+  canParse(content: string, filePath?: string): boolean {
+    return this.detect(content, filePath).confidence > 0;
+  }
 
-  async parseFile(filePath: string): Promise<CoverageResults> {
-    const fs = await import("node:fs/promises");
-    const content = await fs.readFile(filePath, "utf-8");
-    return this.parseContent(content);
+  async parseFile(
+    filePath: string,
+    diagnostics?: DiagnosticsCollector,
+  ): Promise<CoverageResults> {
+    const content = await readCoverageFile(filePath);
+    return this.parseContent(content, diagnostics);
   }
 
   /**
@@ -69,11 +169,60 @@ export abstract class BaseCoverageParser implements ICoverageParser {
   }
 
   /**
-   * Helper to get file extension from path
+   * Helper to list the arms of a branch line whose format only counts them.
+   * Which arms were taken is unknown, so the taken ones are listed first.
+   */
+  protected countedBranchArms(
+    covered: number,
+    total: number,
+  ): BranchCoverage[] {
+    return Array.from({ length: total }, (_, branch) => ({
+      block: 0,
+      branch,
+      taken: branch < covered ? 1 : 0,
+    }));
+  }
+
+  /**
+   * Helper to build a detection result
+   */
+  protected detected(confidence: number, reason: string): DetectionResult {
+    return { confidence, reason };
+  }
+
+  /**
+   * Helper to combine a file name match with a content match
+   * @param nameMatches Whether the file name is one the format's tool writes
+   * @param content Result of inspecting the content alone
+   */
+  protected withFileName(
+    nameMatches: boolean,
+    content: DetectionResult,
+  ): DetectionResult {
+    if (!nameMatches) return content;
+    if (content.confidence > 0) {
+      return this.detected(
+        DETECTION_CONFIDENCE.CERTAIN,
+        `file name and ${content.reason}`,
+      );
+    }
+    return this.detected(DETECTION_CONFIDENCE.FILE_NAME, "file name");
+  }
+
+  /**
+   * Helper to get file extension from path; a trailing .gz is ignored so
+   * coverage.xml.gz has the extension of coverage.xml
    */
   protected getFileExtension(filePath: string): string {
-    const parts = filePath.split(".");
-    return parts.length > 1 ? parts[parts.length - 1].toLowerCase() : "";
+    const parts = this.getFileNameForMatching(filePath).split(".");
+    return parts.length > 1 ? parts[parts.length - 1] : "";
+  }
+
+  /**
+   * Lower-cased path without a trailing .gz, for file name checks
+   */
+  protected getFileNameForMatching(filePath: string): string {
+    return filePath.toLowerCase().replace(/\.gz$/, "");
   }
 
   /**
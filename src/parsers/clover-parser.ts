@@ -4,9 +4,16 @@ import type {
   CoverageMetrics,
   CoverageResults,
   FileCoverage,
+  FunctionCoverage,
   LineCoverage,
 } from "../types/coverage.js";
-import { BaseCoverageParser, type CoverageFormat } from "./base-parser.js";
+import type { DiagnosticsCollector } from "../utils/diagnostics.js";
+import {
+  BaseCoverageParser,
+  type CoverageFormat,
+  DETECTION_CONFIDENCE,
+  type DetectionResult,
+} from "./base-parser.js";
 
 /**
  * Parser for Clover XML coverage format
@@ -16,19 +23,16 @@ export class CloverParser extends BaseCoverageParser {
   readonly format: CoverageFormat = "clover";
 
   /**
-   * Check if content is Clover XML format
+   * Score how likely content is Clover XML format
    * Clover XML has a <coverage> root with a <project> child element
    */
-  canParse(content: string, filePath?: string): boolean {
-    // Check file extension first
+  detect(content: string, filePath?: string): DetectionResult {
+    let nameMatches = false;
     if (filePath) {
-      const ext = this.getFileExtension(filePath);
-      const fileName = filePath.toLowerCase();
-      if (fileName.endsWith("clover.xml")) {
-        return true;
-      }
-      if (ext !== "xml") {
-        return false;
+      nameMatches =
+        this.getFileNameForMatching(filePath).endsWith("clover.xml");
+      if (!nameMatches && this.getFileExtension(filePath) !== "xml") {
+        return this.detected(DETECTION_CONFIDENCE.NONE, "not an .xml file");
       }
     }
 
@@ -38,13 +42,24 @@ export class CloverParser extends BaseCoverageParser {
       content.includes("<project") &&
       content.includes("clover");
 
-    return hasCloverStructure;
+    return this.withFileName(
+      nameMatches,
+      hasCloverStructure
+        ? this.detected(
+            DETECTION_CONFIDENCE.CONTENT,
+            "<coverage> root with <project> and clover markers",
+          )
+        : this.detected(DETECTION_CONFIDENCE.NONE, "no <coverage>/<project>"),
+    );
   }
 
   /**
    * Parse Clover XML content
    */
-  async parseContent(content: string): Promise<CoverageResults> {
+  async parseContent(
+    content: string,
+    diagnostics?: DiagnosticsCollector,
+  ): Promise<CoverageResults> {
     const result = await parseStringPromise(content, {
       explicitArray: false,
       mergeAttrs: true,
@@ -73,7 +88,7 @@ export class CloverParser extends BaseCoverageParser {
         : [];
 
     for (const file of projectFiles) {
-      files.push(this.parseFileElement(file));
+      files.push(this.parseFileElement(file, diagnostics));
     }
 
     return {
@@ -125,7 +140,14 @@ export class CloverParser extends BaseCoverageParser {
   /**
    * Parse a single file element
    */
-  private parseFileElement(fileElement: Record<string, unknown>): FileCoverage {
+  private parseFileElement(
+    fileElement: Record<string, unknown>,
+    diagnostics?: DiagnosticsCollector,
+  ): FileCoverage {
+    const source = (fileElement.path || fileElement.name) as string | undefined;
+    if (!source) {
+      diagnostics?.warning("<file> has no path or name attribute");
+    }
     const metrics = this.parseMetrics(
       fileElement.metrics as Record<string, string>
     );
@@ -140,20 +162,34 @@ export class CloverParser extends BaseCoverageParser {
 
     const missingLines: number[] = [];
     const partialLines: number[] = [];
+    const functions: FunctionCoverage[] = [];
 
     for (const line of fileLines) {
-      const lineNum = Number.parseInt((line as Record<string, string>).num, 10);
-      const count = Number.parseInt((line as Record<string, string>).count, 10);
-      const type =
-        ((line as Record<string, string>).type as "stmt" | "cond" | "method") ||
-        "stmt";
+      const attrs = line as Record<string, string>;
+      const lineNum = Number.parseInt(attrs.num, 10);
+      const count = Number.parseInt(attrs.count, 10);
+      if (!(lineNum > 0)) {
+        diagnostics?.warning(
+          `<line> with invalid num "${String(attrs.num)}" skipped`,
+          { source },
+        );
+        continue;
+      }
+      if (Number.isNaN(count)) {
+        diagnostics?.warning(
+          `<line num="${lineNum}"> with invalid count "${String(attrs.count)}" skipped`,
+          { source },
+        );
+        continue;
+      }
+      const type = (attrs.type as "stmt" | "cond" | "method") || "stmt";
       const trueCount =
-        (line as Record<string, string>).truecount !== undefined
-          ? Number.parseInt((line as Record<string, string>).truecount, 10)
+        attrs.truecount !== undefined
+          ? Number.parseInt(attrs.truecount, 10)
           : undefined;
       const falseCount =
-        (line as Record<string, string>).falsecount !== undefined
-          ? Number.parseInt((line as Record<string, string>).falsecount, 10)
+        attrs.falsecount !== undefined
+          ? Number.parseInt(attrs.falsecount, 10)
           : undefined;
 
       lines.push({
@@ -164,6 +200,15 @@ export class CloverParser extends BaseCoverageParser {
         falseCount,
       });
 
+      // Method lines are named by PHPUnit and signed by OpenClover
+      if (type === "method") {
+        functions.push({
+          name: attrs.name || attrs.signature || `line ${lineNum}`,
+          startLine: lineNum,
+          hits: count,
+        });
+      }
+
       // Track missing lines (count === 0)
       if (count === 0) {
         missingLines.push(lineNum);
@@ -196,6 +241,7 @@ export class CloverParser extends BaseCoverageParser {
       lines,
       missingLines,
       partialLines,
+      functions,
     };
   }
 
@@ -3,9 +3,16 @@ import type {
   CoverageMetrics,
   CoverageResults,
   FileCoverage,
+  FunctionCoverage,
   LineCoverage,
 } from "../types/coverage.js";
-import { BaseCoverageParser, type CoverageFormat } from "./base-parser.js";
+import type { DiagnosticsCollector } from "../utils/diagnostics.js";
+import {
+  BaseCoverageParser,
+  type CoverageFormat,
+  DETECTION_CONFIDENCE,
+  type DetectionResult,
+} from "./base-parser.js";
 
 /**
  * Parser for Cobertura XML coverage format
@@ -13,6 +20,9 @@ import { BaseCoverageParser, type CoverageFormat } from "./base-parser.js";
  *
  * Format structure:
  * <coverage line-rate="0.85" branch-rate="0.72" ...>
+ *   <sources>
+ *     <source>/home/user/project/src</source>
+ *   </sources>
  *   <packages>
  *     <package name="..." line-rate="..." branch-rate="...">
  *       <classes>
@@ -31,16 +41,13 @@ export class CoberturaParser extends BaseCoverageParser {
   readonly format: CoverageFormat = "cobertura";
 
   /**
-   * Check if content is Cobertura XML format
+   * Score how likely content is Cobertura XML format
    * Cobertura has <coverage> root with line-rate attribute and <packages>/<classes> structure
    */
-  canParse(content: string, filePath?: string): boolean {
+  detect(content: string, filePath?: string): DetectionResult {
     // Check file extension
-    if (filePath) {
-      const ext = this.getFileExtension(filePath);
-      if (ext !== "xml") {
-        return false;
-      }
+    if (filePath && this.getFileExtension(filePath) !== "xml") {
+      return this.detected(DETECTION_CONFIDENCE.NONE, "not an .xml file");
     }
 
     // Check content structure
@@ -52,13 +59,24 @@ export class CoberturaParser extends BaseCoverageParser {
       !content.includes("<project") && // Not Clover (which has <project>)
       !content.includes("<report"); // Not JaCoCo (which has <report>)
 
-    return hasCoberturaStructure;
+    return hasCoberturaStructure
+      ? this.detected(
+          DETECTION_CONFIDENCE.CONTENT,
+          "<coverage> root with line-rate and <packages>",
+        )
+      : this.detected(
+          DETECTION_CONFIDENCE.NONE,
+          "no <coverage line-rate> with <packages>",
+        );
   }
 
   /**
    * Parse Cobertura XML content
    */
-  async parseContent(content: string): Promise<CoverageResults> {
+  async parseContent(
+    content: string,
+    diagnostics?: DiagnosticsCollector,
+  ): Promise<CoverageResults> {
     const result = await parseStringPromise(content, {
       explicitArray: false,
       mergeAttrs: true,
@@ -89,7 +107,7 @@ export class CoberturaParser extends BaseCoverageParser {
       const classes = this.ensureArray(pkg.classes?.class);
 
       for (const cls of classes) {
-        const fileResult = this.parseClass(cls);
+        const fileResult = this.parseClass(cls, diagnostics);
         files.push(fileResult);
 
         totalStatements += fileResult.statements;
@@ -120,20 +138,33 @@ export class CoberturaParser extends BaseCoverageParser {
           : globalBranchRate * 100,
     };
 
+    // Class filenames are relative to one of the <source> entries
+    const sourceRoots = this.ensureArray(coverage.sources?.source)
+      .filter((source): source is string => typeof source === "string")
+      .map((source) => source.trim())
+      .filter(Boolean);
+
     return {
       timestamp: Number.parseInt(coverage.timestamp || "0", 10),
       metrics,
       files,
+      ...(sourceRoots.length > 0 ? { sourceRoots } : {}),
     };
   }
 
   /**
    * Parse a class element into FileCoverage
    */
-  private parseClass(classElement: Record<string, unknown>): FileCoverage {
+  private parseClass(
+    classElement: Record<string, unknown>,
+    diagnostics?: DiagnosticsCollector,
+  ): FileCoverage {
     const filename = (classElement.filename as string) || "";
     const name =
       (classElement.name as string) || filename.split("/").pop() || "";
+    if (!filename) {
+      diagnostics?.warning(`Class "${name || "?"}" has no filename attribute`);
+    }
 
     const lines: LineCoverage[] = [];
     const missingLines: number[] = [];
@@ -152,6 +183,18 @@ export class CoberturaParser extends BaseCoverageParser {
       const lineNum = Number.parseInt((line.number as string) || "0", 10);
       const hits = Number.parseInt((line.hits as string) || "0", 10);
       const isBranch = line.branch === "true" || line.branch === true;
+      if (!(lineNum > 0)) {
+        diagnostics?.warning(
+          `<line> with invalid number "${String(line.number)}" skipped`,
+          { source: filename },
+        );
+        continue;
+      }
+      if (hits < 0) {
+        diagnostics?.warning(`Negative hit count on line ${lineNum}`, {
+          source: filename,
+        });
+      }
 
       statements++;
       if (hits > 0) {
@@ -162,6 +205,8 @@ export class CoberturaParser extends BaseCoverageParser {
 
       // Handle branch coverage
       let isPartial = false;
+      let coveredArms: number | undefined;
+      let totalArms: number | undefined;
       if (isBranch) {
         const conditionCoverage = line["condition-coverage"] as string;
         if (conditionCoverage) {
@@ -172,6 +217,8 @@ export class CoberturaParser extends BaseCoverageParser {
             const total = Number.parseInt(match[2], 10);
             conditionals += total;
             coveredConditionals += covered;
+            coveredArms = covered;
+            totalArms = total;
             // Partial if some but not all branches covered
             if (covered > 0 && covered < total) {
               isPartial = true;
@@ -195,6 +242,13 @@ export class CoberturaParser extends BaseCoverageParser {
         lineNumber: lineNum,
         count: hits,
         type: isBranch ? "cond" : "stmt",
+        ...(totalArms !== undefined && coveredArms !== undefined
+          ? {
+              trueCount: coveredArms,
+              falseCount: totalArms - coveredArms,
+              branches: this.countedBranchArms(coveredArms, totalArms),
+            }
+          : {}),
       });
     }
 
@@ -202,28 +256,38 @@ export class CoberturaParser extends BaseCoverageParser {
     const methods = this.ensureArray(
       (classElement.methods as Record<string, unknown>)?.method
     );
-    let methodCount = methods.length;
+    const methodCount = methods.length;
     let coveredMethodCount = 0;
+    const functions: FunctionCoverage[] = [];
 
     for (const methodData of methods) {
       const method = methodData as Record<string, unknown>;
-      const methodLines = this.ensureArray(
-        (method.lines as Record<string, unknown>)?.line
-      );
-      const hasHits = methodLines.some((l) => {
-        const lineObj = l as Record<string, unknown>;
-        return Number.parseInt((lineObj.hits as string) || "0", 10) > 0;
-      });
-      if (hasHits) {
+      const methodLines = (
+        this.ensureArray(
+          (method.lines as Record<string, unknown>)?.line,
+        ) as Array<Record<string, string>>
+      ).map((line) => ({
+        number: Number.parseInt(line.number || "0", 10),
+        hits: Number.parseInt(line.hits || "0", 10) || 0,
+      }));
+      const hits = Math.max(0, ...methodLines.map((line) => line.hits));
+      if (hits > 0) {
         coveredMethodCount++;
       }
-    }
 
-    // If no method info, estimate from coverage
-    if (methodCount === 0) {
-      methodCount = 1;
-      coveredMethodCount = coveredStatements > 0 ? 1 : 0;
+      // Unnamed methods only carry counts
+      if (typeof method.name !== "string" || !method.name) continue;
+      const numbers = methodLines
+        .map((line) => line.number)
+        .filter((number) => number > 0);
+      functions.push({
+        name: method.name,
+        startLine: numbers.length > 0 ? Math.min(...numbers) : 0,
+        endLine: numbers.length > 0 ? Math.max(...numbers) : undefined,
+        hits,
+      });
     }
+    functions.sort((a, b) => a.startLine - b.startLine);
 
     return {
       name,
@@ -239,6 +303,7 @@ export class CoberturaParser extends BaseCoverageParser {
       lines,
       missingLines,
       partialLines,
+      functions,
     };
   }
 }
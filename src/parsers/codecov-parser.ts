@@ -4,7 +4,13 @@ import type {
   FileCoverage,
   LineCoverage,
 } from "../types/coverage.js";
-import { BaseCoverageParser, type CoverageFormat } from "./base-parser.js";
+import type { DiagnosticsCollector } from "../utils/diagnostics.js";
+import {
+  BaseCoverageParser,
+  type CoverageFormat,
+  DETECTION_CONFIDENCE,
+  type DetectionResult,
+} from "./base-parser.js";
 
 /**
  * Codecov JSON coverage format types
@@ -40,28 +46,41 @@ export class CodecovParser extends BaseCoverageParser {
   readonly format: CoverageFormat = "codecov";
 
   /**
-   * Check if content is Codecov JSON format
+   * Score how likely content is Codecov JSON format
    */
-  canParse(content: string, filePath?: string): boolean {
-    // Check file extension first
+  detect(content: string, filePath?: string): DetectionResult {
+    let nameMatches = false;
     if (filePath) {
-      const fileName = filePath.toLowerCase();
-      if (fileName.endsWith("codecov.json")) {
-        return true;
-      }
-      const ext = this.getFileExtension(filePath);
-      if (ext !== "json") {
-        return false;
+      nameMatches =
+        this.getFileNameForMatching(filePath).endsWith("codecov.json");
+      if (!nameMatches && this.getFileExtension(filePath) !== "json") {
+        return this.detected(DETECTION_CONFIDENCE.NONE, "not a .json file");
       }
     }
 
-    // Check content structure
+    return this.withFileName(nameMatches, this.detectContent(content));
+  }
+
+  /**
+   * Inspect content alone. A "coverage" object keyed by line numbers is a
+   * shape other JSON reports can share, so it is only a weak match.
+   */
+  private detectContent(content: string): DetectionResult {
+    const noMatch = this.detected(
+      DETECTION_CONFIDENCE.NONE,
+      'no "coverage" object of line numbers',
+    );
+    const match = this.detected(
+      DETECTION_CONFIDENCE.WEAK_CONTENT,
+      '"coverage" object of files keyed by line number',
+    );
+
     try {
       const data = JSON.parse(content);
 
       // Must have "coverage" key
       if (!data.coverage || typeof data.coverage !== "object") {
-        return false;
+        return noMatch;
       }
 
       // Must NOT have Istanbul markers (to differentiate from Istanbul format)
@@ -70,38 +89,41 @@ export class CodecovParser extends BaseCoverageParser {
         content.includes('"fnMap"') ||
         content.includes('"branchMap"')
       ) {
-        return false;
+        return this.detected(DETECTION_CONFIDENCE.NONE, "Istanbul markers");
       }
 
       // Check that values under coverage are file objects with line number keys
       const files = Object.values(data.coverage);
       if (files.length === 0) {
-        return true; // Empty coverage is valid
+        return match; // Empty coverage is valid
       }
 
       // Check first file has numeric string keys (line numbers)
       const firstFile = files[0] as Record<string, unknown>;
       if (typeof firstFile !== "object" || firstFile === null) {
-        return false;
+        return noMatch;
       }
 
       const keys = Object.keys(firstFile);
       if (keys.length === 0) {
-        return true; // Empty file coverage is valid
+        return match; // Empty file coverage is valid
       }
 
       // At least some keys should be numeric (line numbers)
       const hasNumericKeys = keys.some((key) => /^\d+$/.test(key));
-      return hasNumericKeys;
+      return hasNumericKeys ? match : noMatch;
     } catch {
-      return false;
+      return this.detected(DETECTION_CONFIDENCE.NONE, "not valid JSON");
     }
   }
 
   /**
    * Parse Codecov JSON content
    */
-  async parseContent(content: string): Promise<CoverageResults> {
+  async parseContent(
+    content: string,
+    diagnostics?: DiagnosticsCollector,
+  ): Promise<CoverageResults> {
     let data: CodecovCoverageData;
 
     try {
@@ -123,7 +145,11 @@ export class CodecovParser extends BaseCoverageParser {
     let coveredConditionals = 0;
 
     for (const [filePath, lineCoverage] of Object.entries(data.coverage)) {
-      const fileResult = this.parseFileCoverage(filePath, lineCoverage);
+      const fileResult = this.parseFileCoverage(
+        filePath,
+        lineCoverage,
+        diagnostics,
+      );
       files.push(fileResult);
 
       totalStatements += fileResult.statements;
@@ -157,7 +183,8 @@ export class CodecovParser extends BaseCoverageParser {
    */
   private parseFileCoverage(
     filePath: string,
-    lineCoverage: { [lineNumber: string]: number | string | null }
+    lineCoverage: { [lineNumber: string]: number | string | null },
+    diagnostics?: DiagnosticsCollector,
   ): FileCoverage {
     const fileName = filePath.split("/").pop() || filePath;
 
@@ -178,6 +205,9 @@ export class CodecovParser extends BaseCoverageParser {
 
       const lineNumber = parseInt(lineNumStr, 10);
       if (Number.isNaN(lineNumber)) {
+        diagnostics?.warning(`Invalid line number "${lineNumStr}" skipped`, {
+          source: filePath,
+        });
         continue;
       }
 
@@ -230,6 +260,11 @@ export class CodecovParser extends BaseCoverageParser {
           } else {
             missingLines.push(lineNumber);
           }
+        } else {
+          diagnostics?.warning(
+            `Unrecognized value "${value}" for line ${lineNumber} skipped`,
+            { source: filePath },
+          );
         }
       }
     }
@@ -0,0 +1,334 @@
+import type {
+  CoverageMetrics,
+  CoverageResults,
+  FileCoverage,
+  FunctionCoverage,
+  LineCoverage,
+} from "../types/coverage.js";
+import type { DiagnosticsCollector } from "../utils/diagnostics.js";
+import {
+  BaseCoverageParser,
+  type CoverageFormat,
+  DETECTION_CONFIDENCE,
+  type DetectionResult,
+} from "./base-parser.js";
+
+/**
+ * coverage.py JSON report format types
+ * Branches are [fromLine, toLine] arcs; a negative toLine means exiting the code object.
+ */
+type CoveragePyArc = [number, number];
+
+interface CoveragePyFunction {
+  executed_lines?: number[];
+  missing_lines?: number[];
+}
+
+interface CoveragePyFileCoverage {
+  executed_lines?: number[];
+  missing_lines?: number[];
+  excluded_lines?: number[];
+  executed_branches?: CoveragePyArc[];
+  missing_branches?: CoveragePyArc[];
+  contexts?: { [lineNumber: string]: string[] };
+  functions?: { [name: string]: CoveragePyFunction };
+}
+
+interface CoveragePyReport {
+  meta?: {
+    version?: string;
+    format?: number;
+    timestamp?: string;
+    branch_coverage?: boolean;
+    show_contexts?: boolean;
+  };
+  files: { [filePath: string]: CoveragePyFileCoverage };
+}
+
+/**
+ * Parser for coverage.py native JSON format
+ * Generated by: coverage json [--show-contexts]
+ *
+ * Format structure:
+ * {
+ *   "meta": { "version": "7.4.0", "format": 3, "branch_coverage": true, "show_contexts": true, ... },
+ *   "files": {
+ *     "src/app.py": {
+ *       "executed_lines": [1, 2, 4],
+ *       "missing_lines": [5],
+ *       "excluded_lines": [9],
+ *       "executed_branches": [[2, 4]],
+ *       "missing_branches": [[2, 5]],
+ *       "contexts": { "4": ["tests/test_app.py::test_add|run"] },
+ *       "functions": { "add": { "executed_lines": [4], "missing_lines": [] } }
+ *     }
+ *   },
+ *   "totals": { ... }
+ * }
+ */
+export class CoveragePyParser extends BaseCoverageParser {
+  readonly format: CoverageFormat = "coveragepy";
+
+  /**
+   * Score how likely content is coverage.py JSON format
+   */
+  detect(content: string, filePath?: string): DetectionResult {
+    // Check file extension
+    if (filePath && this.getFileExtension(filePath) !== "json") {
+      return this.detected(DETECTION_CONFIDENCE.NONE, "not a .json file");
+    }
+
+    const noMatch = this.detected(
+      DETECTION_CONFIDENCE.NONE,
+      'no "executed_lines"/"missing_lines"',
+    );
+
+    // Quick marker check before a full parse
+    if (
+      !content.includes('"executed_lines"') ||
+      !content.includes('"missing_lines"')
+    ) {
+      return noMatch;
+    }
+
+    try {
+      const data = JSON.parse(content);
+      const hasStructure =
+        typeof data.meta === "object" &&
+        data.meta !== null &&
+        typeof data.files === "object" &&
+        data.files !== null;
+      return hasStructure
+        ? this.detected(
+            DETECTION_CONFIDENCE.CONTENT,
+            '"meta" and "files" with executed/missing lines',
+          )
+        : noMatch;
+    } catch {
+      return this.detected(DETECTION_CONFIDENCE.NONE, "not valid JSON");
+    }
+  }
+
+  /**
+   * Parse coverage.py JSON content
+   */
+  async parseContent(
+    content: string,
+    diagnostics?: DiagnosticsCollector,
+  ): Promise<CoverageResults> {
+    let data: CoveragePyReport;
+
+    try {
+      data = JSON.parse(content);
+    } catch (error) {
+      throw new Error(
+        `Invalid coverage.py JSON: ${error instanceof Error ? error.message : "parse error"}`,
+      );
+    }
+
+    if (!data.files || typeof data.files !== "object") {
+      throw new Error("Invalid coverage.py JSON: missing 'files' key");
+    }
+
+    const files: FileCoverage[] = [];
+    let totalStatements = 0;
+    let coveredStatements = 0;
+    let totalConditionals = 0;
+    let coveredConditionals = 0;
+    let totalMethods = 0;
+    let coveredMethods = 0;
+
+    for (const [filePath, fileCoverage] of Object.entries(data.files)) {
+      const fileResult = this.parseFileCoverage(
+        filePath,
+        fileCoverage,
+        diagnostics,
+      );
+      files.push(fileResult);
+
+      totalStatements += fileResult.statements;
+      coveredStatements += fileResult.coveredStatements;
+      totalConditionals += fileResult.conditionals;
+      coveredConditionals += fileResult.coveredConditionals;
+      totalMethods += fileResult.methods;
+      coveredMethods += fileResult.coveredMethods;
+    }
+
+    const metrics: CoverageMetrics = {
+      statements: totalStatements,
+      coveredStatements,
+      conditionals: totalConditionals,
+      coveredConditionals,
+      methods: totalMethods,
+      coveredMethods,
+      elements: totalStatements + totalConditionals,
+      coveredElements: coveredStatements + coveredConditionals,
+      lineRate: this.calculateRate(coveredStatements, totalStatements),
+      branchRate: this.calculateRate(coveredConditionals, totalConditionals),
+    };
+
+    const timestamp = data.meta?.timestamp
+      ? Date.parse(data.meta.timestamp)
+      : Number.NaN;
+
+    return {
+      timestamp: Number.isNaN(timestamp) ? Date.now() : timestamp,
+      metrics,
+      files,
+    };
+  }
+
+  /**
+   * Parse a single file's coverage data
+   */
+  private parseFileCoverage(
+    filePath: string,
+    fileCoverage: CoveragePyFileCoverage,
+    diagnostics?: DiagnosticsCollector,
+  ): FileCoverage {
+    const fileName = filePath.split("/").pop() || filePath;
+
+    const isLineNumber = (line: unknown, key: string) => {
+      if (Number.isInteger(line) && (line as number) > 0) return true;
+      diagnostics?.warning(`Invalid line "${String(line)}" in ${key} skipped`, {
+        source: filePath,
+      });
+      return false;
+    };
+
+    const excluded = new Set(fileCoverage.excluded_lines || []);
+    const executed = (fileCoverage.executed_lines || []).filter(
+      (l) => isLineNumber(l, "executed_lines") && !excluded.has(l),
+    );
+    const executedSet = new Set(executed);
+    const missing = (fileCoverage.missing_lines || []).filter((l) => {
+      if (!isLineNumber(l, "missing_lines") || excluded.has(l)) return false;
+      if (!executedSet.has(l)) return true;
+      diagnostics?.warning(`Line ${l} is both executed and missing`, {
+        source: filePath,
+      });
+      return false;
+    });
+
+    // Group branch arcs by their source line
+    const branchData: Map<number, { total: number; covered: number }> =
+      new Map();
+    let totalBranches = 0;
+    let coveredBranches = 0;
+
+    const addArcs = (arcs: CoveragePyArc[] | undefined, taken: boolean) => {
+      for (const arc of arcs || []) {
+        if (
+          !Array.isArray(arc) ||
+          arc.length !== 2 ||
+          !Number.isInteger(arc[0])
+        ) {
+          diagnostics?.warning(`Malformed arc ${JSON.stringify(arc)} skipped`, {
+            source: filePath,
+          });
+          continue;
+        }
+        const fromLine = arc[0];
+        if (excluded.has(fromLine)) continue;
+
+        let existing = branchData.get(fromLine);
+        if (!existing) {
+          existing = { total: 0, covered: 0 };
+          branchData.set(fromLine, existing);
+        }
+        existing.total++;
+        totalBranches++;
+        if (taken) {
+          existing.covered++;
+          coveredBranches++;
+        }
+      }
+    };
+    addArcs(fileCoverage.executed_branches, true);
+    addArcs(fileCoverage.missing_branches, false);
+
+    const contexts = fileCoverage.contexts || {};
+
+    const lines: LineCoverage[] = [];
+    const missingLines: number[] = [];
+    const partialLines: number[] = [];
+
+    const buildLine = (lineNumber: number, count: number): LineCoverage => {
+      const branch = branchData.get(lineNumber);
+      const line: LineCoverage = {
+        lineNumber,
+        count,
+        type: branch ? "cond" : "stmt",
+      };
+      if (branch) {
+        line.trueCount = branch.covered;
+        line.falseCount = branch.total - branch.covered;
+      }
+      // The empty string is coverage.py's default (unnamed) context
+      const lineContexts = (contexts[String(lineNumber)] || []).filter(Boolean);
+      if (lineContexts.length > 0) {
+        line.contexts = lineContexts;
+      }
+      return line;
+    };
+
+    for (const lineNumber of executed) {
+      // coverage.py records whether a line ran, not how many times
+      lines.push(buildLine(lineNumber, 1));
+
+      const branch = branchData.get(lineNumber);
+      if (branch && branch.covered < branch.total) {
+        partialLines.push(lineNumber);
+      }
+    }
+
+    for (const lineNumber of missing) {
+      lines.push(buildLine(lineNumber, 0));
+      missingLines.push(lineNumber);
+    }
+
+    // Functions span their own statements; coverage.py only records whether
+    // a line ran, so a called function has one hit. The "" key holds
+    // module-level code, not a function.
+    const functions: FunctionCoverage[] = [];
+    for (const [name, fn] of Object.entries(fileCoverage.functions || {})) {
+      if (!name) continue;
+      const fnLines = [
+        ...(fn.executed_lines || []),
+        ...(fn.missing_lines || []),
+      ].filter((line) => Number.isInteger(line) && line > 0);
+      functions.push({
+        name,
+        startLine: fnLines.length > 0 ? Math.min(...fnLines) : 0,
+        endLine: fnLines.length > 0 ? Math.max(...fnLines) : undefined,
+        hits: (fn.executed_lines || []).length > 0 ? 1 : 0,
+      });
+    }
+    functions.sort((a, b) => a.startLine - b.startLine);
+    const coveredMethods = functions.filter((fn) => fn.hits > 0).length;
+
+    // Sort by line number
+    lines.sort((a, b) => a.lineNumber - b.lineNumber);
+    missingLines.sort((a, b) => a - b);
+    partialLines.sort((a, b) => a - b);
+
+    const statements = executed.length + missing.length;
+
+    return {
+      name: fileName,
+      path: filePath,
+      statements,
+      coveredStatements: executed.length,
+      conditionals: totalBranches,
+      coveredConditionals: coveredBranches,
+      methods: functions.length,
+      coveredMethods,
+      lineRate: this.calculateRate(executed.length, statements),
+      branchRate: this.calculateRate(coveredBranches, totalBranches),
+      lines,
+      missingLines,
+      partialLines,
+      functions,
+    };
+  }
+}
@@ -0,0 +1,336 @@
+import type {
+  CoverageMetrics,
+  CoverageResults,
+  FileCoverage,
+  FunctionCoverage,
+  LineCoverage,
+} from "../types/coverage.js";
+import type { DiagnosticsCollector } from "../utils/diagnostics.js";
+import {
+  BaseCoverageParser,
+  type CoverageFormat,
+  DETECTION_CONFIDENCE,
+  type DetectionResult,
+} from "./base-parser.js";
+
+/**
+ * gcov / gcovr JSON format types (the two schemas share the per-file layout)
+ */
+interface GcovBranch {
+  count: number;
+  fallthrough?: boolean;
+  throw?: boolean;
+}
+
+interface GcovLine {
+  line_number: number;
+  count: number;
+  branches?: GcovBranch[];
+  function_name?: string;
+  unexecuted_block?: boolean;
+  "gcovr/noncode"?: boolean;
+}
+
+interface GcovFunction {
+  name: string;
+  demangled_name?: string;
+  start_line?: number;
+  end_line?: number;
+  lineno?: number;
+  execution_count?: number;
+}
+
+interface GcovFile {
+  file: string;
+  lines?: GcovLine[];
+  functions?: GcovFunction[];
+}
+
+interface GcovReport {
+  format_version?: string;
+  gcc_version?: string;
+  "gcovr/format_version"?: string;
+  current_working_directory?: string;
+  files: GcovFile[];
+}
+
+/**
+ * Parser for gcov and gcovr JSON coverage formats
+ * Generated by: gcov --json-format (GCC 9+, usually *.gcov.json.gz), gcovr --json
+ *
+ * gcov --json-format structure:
+ * {
+ *   "format_version": "1",
+ *   "gcc_version": "12.2.0",
+ *   "current_working_directory": "/build",
+ *   "files": [
+ *     {
+ *       "file": "src/main.c",
+ *       "functions": [{ "name": "main", "start_line": 3, "end_line": 9, "execution_count": 1, ... }],
+ *       "lines": [{ "line_number": 4, "count": 1, "branches": [{ "count": 1, "fallthrough": true, "throw": false }] }]
+ *     }
+ *   ]
+ * }
+ *
+ * gcovr --json structure:
+ * {
+ *   "gcovr/format_version": "0.6",
+ *   "files": [
+ *     {
+ *       "file": "src/main.c",
+ *       "functions": [{ "name": "main", "lineno": 3, "execution_count": 1 }],
+ *       "lines": [{ "line_number": 4, "count": 1, "branches": [...], "gcovr/noncode": false }]
+ *     }
+ *   ]
+ * }
+ *
+ * Gzip-compressed input is decompressed when read from disk.
+ */
+export class GcovParser extends BaseCoverageParser {
+  readonly format: CoverageFormat = "gcov";
+
+  /**
+   * Score how likely content is gcov or gcovr JSON format
+   */
+  detect(content: string, filePath?: string): DetectionResult {
+    let nameMatches = false;
+    if (filePath) {
+      const fileName = this.getFileNameForMatching(filePath);
+      nameMatches = fileName.endsWith(".gcov.json");
+      if (!nameMatches && this.getFileExtension(filePath) !== "json") {
+        return this.detected(DETECTION_CONFIDENCE.NONE, "not a .json file");
+      }
+    }
+
+    // gcovr tags its output; gcov tags it with the compiler version
+    let contentResult = this.detected(
+      DETECTION_CONFIDENCE.NONE,
+      "no gcov or gcovr version markers",
+    );
+    if (content.includes('"gcovr/format_version"')) {
+      contentResult = this.detected(
+        DETECTION_CONFIDENCE.CONTENT,
+        '"gcovr/format_version" marker',
+      );
+    } else if (
+      content.includes('"gcc_version"') &&
+      content.includes('"format_version"') &&
+      content.includes('"line_number"')
+    ) {
+      contentResult = this.detected(
+        DETECTION_CONFIDENCE.CONTENT,
+        '"gcc_version" and "format_version" markers',
+      );
+    }
+
+    return this.withFileName(nameMatches, contentResult);
+  }
+
+  /**
+   * Parse gcov / gcovr JSON content
+   */
+  async parseContent(
+    content: string,
+    diagnostics?: DiagnosticsCollector,
+  ): Promise<CoverageResults> {
+    let data: GcovReport;
+
+    try {
+      data = JSON.parse(content);
+    } catch (error) {
+      throw new Error(
+        `Invalid gcov JSON: ${error instanceof Error ? error.message : "parse error"}`,
+      );
+    }
+
+    if (!Array.isArray(data.files)) {
+      throw new Error("Invalid gcov JSON: missing 'files' array");
+    }
+
+    // The same source can appear several times (e.g. headers in gcovr output)
+    const filesByPath: Map<string, GcovFile[]> = new Map();
+    for (const file of data.files) {
+      if (!file.file) {
+        diagnostics?.warning("File entry without a file name skipped");
+        continue;
+      }
+      let group = filesByPath.get(file.file);
+      if (!group) {
+        group = [];
+        filesByPath.set(file.file, group);
+      }
+      group.push(file);
+    }
+
+    const files: FileCoverage[] = [];
+    let totalStatements = 0;
+    let coveredStatements = 0;
+    let totalConditionals = 0;
+    let coveredConditionals = 0;
+    let totalMethods = 0;
+    let coveredMethods = 0;
+
+    for (const [filePath, entries] of filesByPath.entries()) {
+      const fileResult = this.parseFileEntries(filePath, entries, diagnostics);
+      files.push(fileResult);
+
+      totalStatements += fileResult.statements;
+      coveredStatements += fileResult.coveredStatements;
+      totalConditionals += fileResult.conditionals;
+      coveredConditionals += fileResult.coveredConditionals;
+      totalMethods += fileResult.methods;
+      coveredMethods += fileResult.coveredMethods;
+    }
+
+    const metrics: CoverageMetrics = {
+      statements: totalStatements,
+      coveredStatements,
+      conditionals: totalConditionals,
+      coveredConditionals,
+      methods: totalMethods,
+      coveredMethods,
+      elements: totalStatements + totalConditionals,
+      coveredElements: coveredStatements + coveredConditionals,
+      lineRate: this.calculateRate(coveredStatements, totalStatements),
+      branchRate: this.calculateRate(coveredConditionals, totalConditionals),
+    };
+
+    return {
+      timestamp: Date.now(),
+      metrics,
+      files,
+    };
+  }
+
+  /**
+   * Merge all entries for one source file into FileCoverage
+   */
+  private parseFileEntries(
+    filePath: string,
+    entries: GcovFile[],
+    diagnostics?: DiagnosticsCollector,
+  ): FileCoverage {
+    const fileName = filePath.split("/").pop() || filePath;
+
+    // A line can be reported once per function instance (templates, inlining)
+    const lineCounts: Map<number, number> = new Map();
+    const branchCounts: Map<number, number[]> = new Map();
+    // Keyed by mangled name, so overloads stay apart
+    const functionsByName: Map<string, FunctionCoverage> = new Map();
+
+    for (const entry of entries) {
+      for (const line of entry.lines || []) {
+        if (line["gcovr/noncode"]) continue;
+        const lineNumber = line.line_number;
+        if (!(Number.isInteger(lineNumber) && lineNumber > 0)) {
+          diagnostics?.warning(
+            `Line entry with invalid line_number "${String(lineNumber)}" skipped`,
+            { source: filePath },
+          );
+          continue;
+        }
+        if (typeof line.count !== "number" || line.count < 0) {
+          diagnostics?.warning(
+            `Invalid count "${String(line.count)}" on line ${lineNumber}`,
+            { source: filePath },
+          );
+        }
+        lineCounts.set(
+          lineNumber,
+          (lineCounts.get(lineNumber) || 0) + (line.count || 0),
+        );
+
+        const branches = line.branches || [];
+        if (branches.length === 0) continue;
+
+        // Sum branch counts position by position across instances
+        const existing = branchCounts.get(lineNumber) || [];
+        branches.forEach((branch, index) => {
+          existing[index] = (existing[index] || 0) + (branch.count || 0);
+        });
+        branchCounts.set(lineNumber, existing);
+      }
+
+      for (const fn of entry.functions || []) {
+        const name = fn.name || fn.demangled_name;
+        if (!name) {
+          diagnostics?.warning("Function entry without a name skipped", {
+            source: filePath,
+          });
+          continue;
+        }
+        const existing = functionsByName.get(name);
+        if (existing) {
+          existing.hits += fn.execution_count || 0;
+        } else {
+          functionsByName.set(name, {
+            name: fn.demangled_name || name,
+            startLine: fn.start_line ?? fn.lineno ?? 0,
+            endLine: fn.end_line,
+            hits: fn.execution_count || 0,
+          });
+        }
+      }
+    }
+
+    const lines: LineCoverage[] = [];
+    const missingLines: number[] = [];
+    const partialLines: number[] = [];
+    let coveredStatements = 0;
+    let totalBranches = 0;
+    let coveredBranches = 0;
+
+    for (const [lineNumber, count] of lineCounts.entries()) {
+      const branches = branchCounts.get(lineNumber);
+      const branchTotal = branches?.length || 0;
+      const branchCovered = branches?.filter((c) => c > 0).length || 0;
+      totalBranches += branchTotal;
+      coveredBranches += branchCovered;
+
+      lines.push({
+        lineNumber,
+        count,
+        type: branchTotal > 0 ? "cond" : "stmt",
+        trueCount: branchTotal > 0 ? branchCovered : undefined,
+        falseCount: branchTotal > 0 ? branchTotal - branchCovered : undefined,
+      });
+
+      if (count > 0) {
+        coveredStatements++;
+        // Partial: line executed but some branches never taken
+        if (branchTotal > 0 && branchCovered < branchTotal) {
+          partialLines.push(lineNumber);
+        }
+      } else {
+        missingLines.push(lineNumber);
+      }
+    }
+
+    // Sort by line number
+    lines.sort((a, b) => a.lineNumber - b.lineNumber);
+    missingLines.sort((a, b) => a - b);
+    partialLines.sort((a, b) => a - b);
+
+    const functions = Array.from(functionsByName.values()).sort(
+      (a, b) => a.startLine - b.startLine,
+    );
+    const coveredMethods = functions.filter((fn) => fn.hits > 0).length;
+
+    return {
+      name: fileName,
+      path: filePath,
+      statements: lines.length,
+      coveredStatements,
+      conditionals: totalBranches,
+      coveredConditionals: coveredBranches,
+      methods: functions.length,
+      coveredMethods,
+      lineRate: this.calculateRate(coveredStatements, lines.length),
+      branchRate: this.calculateRate(coveredBranches, totalBranches),
+      lines,
+      missingLines,
+      partialLines,
+      functions,
+    };
+  }
+}
@@ -1,10 +1,44 @@
+import * as readline from "node:readline";
+import type { Readable } from "node:stream";
 import type {
   CoverageMetrics,
+  CoverageRegion,
   CoverageResults,
   FileCoverage,
   LineCoverage,
 } from "../types/coverage.js";
-import { BaseCoverageParser, type CoverageFormat } from "./base-parser.js";
+import type { DiagnosticsCollector } from "../utils/diagnostics.js";
+import { CoverageRegions } from "../utils/regions.js";
+import {
+  BaseCoverageParser,
+  type CoverageFormat,
+  DETECTION_CONFIDENCE,
+  type DetectionResult,
+} from "./base-parser.js";
+
+/**
+ * A block of a Go profile: a statement range and how often it ran
+ */
+interface GoBlock {
+  startLine: number;
+  startCol: number;
+  endLine: number;
+  endCol: number;
+  numStmts: number;
+  count: number;
+}
+
+/**
+ * Running totals of one file while a profile is read
+ */
+interface GoFileCounts {
+  statements: number;
+  coveredStatements: number;
+  /** Source line -> highest count of any block covering it */
+  lines: Map<number, number>;
+  /** "start:col-end:col" -> block region with the highest count seen */
+  regions: Map<string, CoverageRegion>;
+}
 
 /**
  * Parser for Go coverage profile format
@@ -26,29 +60,38 @@ export class GoParser extends BaseCoverageParser {
   readonly format: CoverageFormat = "go";
 
   /**
-   * Check if content is Go coverage profile format
+   * Score how likely content is Go coverage profile format
    */
-  canParse(content: string, filePath?: string): boolean {
-    // Check file extension
+  detect(content: string, filePath?: string): DetectionResult {
+    const contentResult = this.detectContent(content);
+
+    // Check file name: the go tool's default names, or any .out file
     if (filePath) {
-      const ext = this.getFileExtension(filePath);
-      const fileName = filePath.toLowerCase();
+      const fileName = this.getFileNameForMatching(filePath);
       if (
         fileName.endsWith("coverage.out") ||
         fileName.endsWith("cover.out") ||
-        fileName.endsWith(".coverprofile") ||
-        ext === "out"
+        fileName.endsWith(".coverprofile")
       ) {
-        return true;
+        return this.withFileName(true, contentResult);
+      }
+      if (
+        this.getFileExtension(filePath) === "out" &&
+        contentResult.confidence === 0
+      ) {
+        return this.detected(DETECTION_CONFIDENCE.EXTENSION, ".out extension");
       }
     }
 
+    return contentResult;
+  }
+
+  /**
+   * Inspect content alone for a "mode:" header or profile blocks
+   */
+  private detectContent(content: string): DetectionResult {
     // Check content structure - Go coverage starts with "mode:"
     const lines = content.trim().split("\n");
-    if (lines.length === 0) {
-      return false;
-    }
-
     const firstLine = lines[0].trim();
     if (
       firstLine.startsWith("mode:") &&
@@ -56,7 +99,10 @@ export class GoParser extends BaseCoverageParser {
         firstLine.includes("count") ||
         firstLine.includes("atomic"))
     ) {
-      return true;
+      return this.detected(
+        DETECTION_CONFIDENCE.CONTENT,
+        `"${firstLine}" header`,
+      );
     }
 
     // Check for Go coverage line format
@@ -64,49 +110,74 @@ export class GoParser extends BaseCoverageParser {
     const goCoverageLinePattern = /^[\w./\\-]+\.go:\d+\.\d+,\d+\.\d+ \d+ \d+$/;
     for (const line of lines.slice(0, 5)) {
       if (goCoverageLinePattern.test(line.trim())) {
-        return true;
+        return this.detected(
+          DETECTION_CONFIDENCE.CONTENT,
+          "file.go:line.col,line.col blocks",
+        );
       }
     }
 
-    return false;
+    return this.detected(DETECTION_CONFIDENCE.NONE, 'no "mode:" header');
   }
 
   /**
    * Parse Go coverage profile content
    */
-  async parseContent(content: string): Promise<CoverageResults> {
-    const lines = content.trim().split("\n");
+  async parseContent(
+    content: string,
+    diagnostics?: DiagnosticsCollector,
+  ): Promise<CoverageResults> {
+    return this.parseLines(content.split("\n"), diagnostics);
+  }
 
-    // Skip mode line if present
-    let dataLines = lines;
-    if (lines[0]?.trim().startsWith("mode:")) {
-      dataLines = lines.slice(1);
-    }
+  /**
+   * Parse a Go profile line by line, keeping only per-line counts
+   */
+  async parseStream(
+    stream: Readable,
+    diagnostics?: DiagnosticsCollector,
+  ): Promise<CoverageResults> {
+    return this.parseLines(
+      readline.createInterface({ input: stream, crlfDelay: Infinity }),
+      diagnostics,
+    );
+  }
 
-    // Group coverage blocks by file
-    const fileBlocks: Map<
-      string,
-      Array<{
-        startLine: number;
-        startCol: number;
-        endLine: number;
-        endCol: number;
-        numStmts: number;
-        count: number;
-      }>
-    > = new Map();
+  /**
+   * Fold profile lines into per-file statement totals and line counts
+   */
+  private async parseLines(
+    lines: Iterable<string> | AsyncIterable<string>,
+    diagnostics?: DiagnosticsCollector,
+  ): Promise<CoverageResults> {
+    const fileCounts: Map<string, GoFileCounts> = new Map();
 
-    for (const line of dataLines) {
+    let lineNumber = 0;
+    for await (const line of lines) {
+      lineNumber++;
       const trimmed = line.trim();
-      if (!trimmed) continue;
+      // Skip blank lines and the mode line
+      if (!trimmed || trimmed.startsWith("mode:")) continue;
 
       const parsed = this.parseCoverageLine(trimmed);
-      if (!parsed) continue;
+      if (!parsed) {
+        diagnostics?.warning(`Malformed profile line "${trimmed}" skipped`, {
+          line: lineNumber,
+        });
+        continue;
+      }
 
-      if (!fileBlocks.has(parsed.file)) {
-        fileBlocks.set(parsed.file, []);
+      let counts = fileCounts.get(parsed.file);
+      if (!counts) {
+        counts = {
+          statements: 0,
+          coveredStatements: 0,
+          lines: new Map(),
+          regions: new Map(),
+        };
+        fileCounts.set(parsed.file, counts);
       }
-      fileBlocks.get(parsed.file)!.push(parsed.block);
+      this.addBlock(counts, parsed.block);
     }
 
     // Convert to FileCoverage
@@ -114,8 +185,8 @@ export class GoParser extends BaseCoverageParser {
     let totalStatements = 0;
     let coveredStatements = 0;
 
-    for (const [filePath, blocks] of fileBlocks.entries()) {
-      const fileResult = this.parseFileBlocks(filePath, blocks);
+    for (const [filePath, counts] of fileCounts.entries()) {
+      const fileResult = this.buildFileCoverage(filePath, counts);
       files.push(fileResult);
 
       totalStatements += fileResult.statements;
@@ -146,19 +217,9 @@ export class GoParser extends BaseCoverageParser {
    * Parse a single coverage line
    * Format: file.go:startLine.startCol,endLine.endCol numStmts count
    */
-  private parseCoverageLine(line: string):
-    | {
-        file: string;
-        block: {
-          startLine: number;
-          startCol: number;
-          endLine: number;
-          endCol: number;
-          numStmts: number;
-          count: number;
-        };
-      }
-    | null {
+  private parseCoverageLine(
+    line: string,
+  ): { file: string; block: GoBlock } | null {
     // Match: file.go:10.2,12.16 1 5
     const match = line.match(
       /^(.+\.go):(\d+)\.(\d+),(\d+)\.(\d+) (\d+) (\d+)$/
@@ -181,44 +242,63 @@ export class GoParser extends BaseCoverageParser {
   }
 
   /**
-   * Convert file blocks to FileCoverage
+   * Add a profile block to its file's statement totals and line counts
    */
-  private parseFileBlocks(
-    filePath: string,
-    blocks: Array<{
-      startLine: number;
-      startCol: number;
-      endLine: number;
-      endCol: number;
-      numStmts: number;
-      count: number;
-    }>
-  ): FileCoverage {
-    const fileName = filePath.split("/").pop() || filePath;
-
-    // Calculate total statements and covered
-    let totalStatements = 0;
-    let coveredStatements = 0;
-
-    // Build line coverage
-    const lineMap: Map<number, number> = new Map();
-
-    for (const block of blocks) {
-      totalStatements += block.numStmts;
+  private addBlock(counts: GoFileCounts, block: GoBlock): void {
+    // Merged profiles repeat each block once per test binary; count its
+    // statements once and keep one region per block so memory stays bounded
+    // while streaming
+    const regionKey = `${block.startLine}:${block.startCol}-${block.endLine}:${block.endCol}`;
+    const region = counts.regions.get(regionKey);
+    if (region) {
+      if (region.count === 0 && block.count > 0) {
+        counts.coveredStatements += block.numStmts;
+      }
+      region.count = Math.max(region.count, block.count);
+    } else {
+      counts.statements += block.numStmts;
       if (block.count > 0) {
-        coveredStatements += block.numStmts;
+        counts.coveredStatements += block.numStmts;
       }
+      counts.regions.set(regionKey, {
+        startLine: block.startLine,
+        startColumn: block.startCol,
+        endLine: block.endLine,
+        endColumn: block.endCol,
+        count: block.count,
+      });
+    }
 
-      // Mark all lines in the block
-      for (let line = block.startLine; line <= block.endLine; line++) {
-        const existing = lineMap.get(line) || 0;
-        lineMap.set(line, Math.max(existing, block.count));
-      }
+    // Mark all lines in the block
+    for (let line = block.startLine; line <= block.endLine; line++) {
+      const existing = counts.lines.get(line) || 0;
+      counts.lines.set(line, Math.max(existing, block.count));
     }
+  }
+
+  /**
+   * Convert a file's counts to FileCoverage
+   */
+  private buildFileCoverage(
+    filePath: string,
+    counts: GoFileCounts,
+  ): FileCoverage {
+    const fileName = filePath.split("/").pop() || filePath;
+    const {
+      statements: totalStatements,
+      coveredStatements,
+      lines: lineMap,
+    } = counts;
+
+    const regions = Array.from(counts.regions.values()).sort(
+      (a, b) => a.startLine - b.startLine || a.startColumn - b.startColumn,
+    );
+    const uncoveredLines = CoverageRegions.uncoveredLines(regions);
 
     // Convert to LineCoverage array
     const lines: LineCoverage[] = [];
     const missingLines: number[] = [];
+    const partialLines: number[] = [];
 
     for (const [lineNum, count] of lineMap.entries()) {
       lines.push({
@@ -227,15 +307,18 @@ export class GoParser extends BaseCoverageParser {
         type: "stmt",
       });
 
-      // Track missing lines
+      // Track missing lines, and hit lines with a block that never ran
       if (count === 0) {
         missingLines.push(lineNum);
+      } else if (uncoveredLines.has(lineNum)) {
+        partialLines.push(lineNum);
       }
     }
 
     // Sort by line number
     lines.sort((a, b) => a.lineNumber - b.lineNumber);
     missingLines.sort((a, b) => a - b);
+    partialLines.sort((a, b) => a - b);
 
     return {
       name: fileName,
@@ -250,7 +333,8 @@ export class GoParser extends BaseCoverageParser {
       branchRate: 0,
       lines,
       missingLines,
-      partialLines: [], // Go coverage doesn't have branch coverage
+      partialLines,
+      regions,
     };
   }
 }
@@ -1,10 +1,20 @@
 import type {
+  BranchCoverage,
   CoverageMetrics,
+  CoverageRegion,
   CoverageResults,
   FileCoverage,
+  FunctionCoverage,
   LineCoverage,
 } from "../types/coverage.js";
-import { BaseCoverageParser, type CoverageFormat } from "./base-parser.js";
+import type { DiagnosticsCollector } from "../utils/diagnostics.js";
+import { CoverageRegions } from "../utils/regions.js";
+import {
+  BaseCoverageParser,
+  type CoverageFormat,
+  DETECTION_CONFIDENCE,
+  type DetectionResult,
+} from "./base-parser.js";
 
 /**
  * Istanbul coverage JSON format types
@@ -50,6 +60,33 @@ type IstanbulCoverageData = {
   [filePath: string]: IstanbulFileCoverage;
 };
 
+/**
+ * Arm labels of branch types whose arms have a fixed meaning
+ */
+const ARM_LABELS: Record<string, string[]> = {
+  if: ["then", "else"],
+  "cond-expr": ["true", "false"],
+};
+
+/**
+ * Turn an Istanbul location into a region; implicit branch arms (e.g. a
+ * missing else) come without positions
+ */
+function toRegion(
+  location: IstanbulLocation | undefined,
+  count: number,
+): CoverageRegion | null {
+  const { start, end } = location ?? {};
+  if (!(start?.line && end?.line)) return null;
+  return {
+    startLine: start.line,
+    startColumn: start.column ?? 0,
+    endLine: end.line,
+    endColumn: end.column ?? 0,
+    count,
+  };
+}
+
 /**
  * Parser for Istanbul/NYC JSON coverage format (coverage-final.json)
  * Used by: Jest, Vitest, NYC, c8 (with JSON reporter)
@@ -71,43 +108,45 @@ export class IstanbulParser extends BaseCoverageParser {
   readonly format: CoverageFormat = "istanbul";
 
   /**
-   * Check if content is Istanbul JSON format
+   * Score how likely content is Istanbul JSON format
    */
-  canParse(content: string, filePath?: string): boolean {
-    // Check file extension
+  detect(content: string, filePath?: string): DetectionResult {
+    let nameMatches = false;
     if (filePath) {
-      const fileName = filePath.toLowerCase();
-      if (
+      const fileName = this.getFileNameForMatching(filePath);
+      nameMatches =
         fileName.endsWith("coverage-final.json") ||
-        fileName.endsWith("coverage-summary.json")
-      ) {
-        return true;
-      }
-      const ext = this.getFileExtension(filePath);
-      if (ext !== "json") {
-        return false;
+        fileName.endsWith("coverage-summary.json");
+      if (!nameMatches && this.getFileExtension(filePath) !== "json") {
+        return this.detected(DETECTION_CONFIDENCE.NONE, "not a .json file");
       }
     }
 
-    // Check content structure
-    try {
-      // Quick check for Istanbul markers without full parse
-      const hasIstanbulMarkers =
-        content.includes('"statementMap"') &&
-        content.includes('"fnMap"') &&
-        content.includes('"branchMap"') &&
-        (content.includes('"s"') || content.includes('"f"'));
-
-      return hasIstanbulMarkers;
-    } catch {
-      return false;
-    }
+    // Quick check for Istanbul markers without full parse
+    const hasIstanbulMarkers =
+      content.includes('"statementMap"') &&
+      content.includes('"fnMap"') &&
+      content.includes('"branchMap"') &&
+      (content.includes('"s"') || content.includes('"f"'));
+
+    return this.withFileName(
+      nameMatches,
+      hasIstanbulMarkers
+        ? this.detected(
+            DETECTION_CONFIDENCE.CONTENT,
+            '"statementMap", "fnMap" and "branchMap" markers',
+          )
+        : this.detected(DETECTION_CONFIDENCE.NONE, 'no "statementMap"'),
+    );
   }
 
   /**
    * Parse Istanbul JSON content
    */
-  async parseContent(content: string): Promise<CoverageResults> {
+  async parseContent(
+    content: string,
+    diagnostics?: DiagnosticsCollector,
+  ): Promise<CoverageResults> {
     let data: IstanbulCoverageData;
 
     try {
@@ -126,8 +165,18 @@ export class IstanbulParser extends BaseCoverageParser {
     let totalMethods = 0;
     let coveredMethods = 0;
 
-    for (const [, fileCoverage] of Object.entries(data)) {
-      const fileResult = this.parseFileCoverage(fileCoverage);
+    for (const [key, fileCoverage] of Object.entries(data)) {
+      if (!fileCoverage || typeof fileCoverage !== "object") {
+        diagnostics?.warning(`Entry "${key}" is not file coverage; skipped`);
+        continue;
+      }
+      if (!fileCoverage.path) {
+        diagnostics?.warning(`Entry "${key}" has no path; using its key`);
+      }
+      const fileResult = this.parseFileCoverage(
+        { ...fileCoverage, path: fileCoverage.path || key },
+        diagnostics,
+      );
       files.push(fileResult);
 
       totalStatements += fileResult.statements;
@@ -161,7 +210,10 @@ export class IstanbulParser extends BaseCoverageParser {
   /**
    * Parse a single file's coverage data
    */
-  private parseFileCoverage(fileCoverage: IstanbulFileCoverage): FileCoverage {
+  private parseFileCoverage(
+    fileCoverage: IstanbulFileCoverage,
+    diagnostics?: DiagnosticsCollector,
+  ): FileCoverage {
     const filePath = fileCoverage.path;
     const fileName = filePath.split("/").pop() || filePath;
 
@@ -178,6 +230,14 @@ export class IstanbulParser extends BaseCoverageParser {
     const fnHits = fileCoverage.f || {};
     const totalMethods = Object.keys(fnMap).length;
     const coveredMethods = Object.values(fnHits).filter((h) => h > 0).length;
+    const functions: FunctionCoverage[] = Object.entries(fnMap).map(
+      ([fnId, fn]) => ({
+        name: fn.name,
+        startLine: fn.loc?.start.line ?? fn.line,
+        endLine: fn.loc?.end.line,
+        hits: fnHits[fnId] || 0,
+      }),
+    );
 
     // Parse branches
     const branchMap = fileCoverage.branchMap || {};
@@ -199,7 +259,18 @@ export class IstanbulParser extends BaseCoverageParser {
 
     // Add statement lines
     for (const [stmtId, stmt] of Object.entries(statementMap)) {
-      const line = stmt.start.line;
+      const line = stmt?.start?.line;
+      if (!(line > 0)) {
+        diagnostics?.warning(`Statement ${stmtId} has no start line; skipped`, {
+          source: filePath,
+        });
+        continue;
+      }
+      if (typeof statementHits[stmtId] !== "number") {
+        diagnostics?.warning(`Statement ${stmtId} has no hit count`, {
+          source: filePath,
+        });
+      }
       const hitCount = statementHits[stmtId] || 0;
 
       if (!lineMap.has(line)) {
@@ -221,7 +292,7 @@ export class IstanbulParser extends BaseCoverageParser {
     // Build branch coverage map by line for partial detection
     const branchCoverageByLine: Map<
       number,
-      { total: number; covered: number }
+      { total: number; covered: number; arms: BranchCoverage[] }
     > = new Map();
     for (const [branchId, branch] of Object.entries(branchMap)) {
       const line = branch.line;
@@ -230,23 +301,57 @@ export class IstanbulParser extends BaseCoverageParser {
       const covered = hits.filter((h) => h > 0).length;
 
       if (!branchCoverageByLine.has(line)) {
-        branchCoverageByLine.set(line, { total: 0, covered: 0 });
+        branchCoverageByLine.set(line, { total: 0, covered: 0, arms: [] });
       }
       const existing = branchCoverageByLine.get(line)!;
       existing.total += total;
       existing.covered += covered;
+      for (const [arm, taken] of hits.entries()) {
+        existing.arms.push({
+          block: Number.parseInt(branchId, 10),
+          branch: arm,
+          taken,
+          label: ARM_LABELS[branch.type]?.[arm],
+        });
+      }
     }
 
+    // Regions: statements, and branch arms inside expressions (ternaries,
+    // short-circuits, defaults). "if" arms span whole statements and are
+    // covered by the branch counts.
+    const regions: CoverageRegion[] = [];
+    for (const [stmtId, stmt] of Object.entries(statementMap)) {
+      const region = toRegion(stmt, statementHits[stmtId] || 0);
+      if (region) regions.push(region);
+    }
+    for (const [branchId, branch] of Object.entries(branchMap)) {
+      if (branch.type === "if") continue;
+      const hits = branchHits[branchId] || [];
+      for (const [arm, location] of (branch.locations || []).entries()) {
+        const region = toRegion(location, hits[arm] || 0);
+        if (region) regions.push(region);
+      }
+    }
+    const uncoveredLines = CoverageRegions.uncoveredLines(regions);
+
     // Convert to LineCoverage array
     const lines: LineCoverage[] = [];
     const missingLines: number[] = [];
     const partialLines: number[] = [];
 
     for (const [lineNum, data] of lineMap.entries()) {
+      const lineBranches = data.hasBranch
+        ? branchCoverageByLine.get(lineNum)
+        : undefined;
       lines.push({
         lineNumber: lineNum,
         count: data.count,
         type: data.hasBranch ? "cond" : "stmt",
+        trueCount: lineBranches?.covered,
+        falseCount: lineBranches
+          ? lineBranches.total - lineBranches.covered
+          : undefined,
+        branches: lineBranches?.arms,
       });
 
       // Track missing lines
@@ -263,8 +368,14 @@ export class IstanbulParser extends BaseCoverageParser {
           branchCoverage.covered < branchCoverage.total
         ) {
           partialLines.push(lineNum);
+          continue;
         }
       }
+
+      // Hit lines with a statement or expression that never ran
+      if (data.count > 0 && uncoveredLines.has(lineNum)) {
+        partialLines.push(lineNum);
+      }
     }
 
     // Sort by line number
@@ -286,6 +397,8 @@ export class IstanbulParser extends BaseCoverageParser {
       lines,
       missingLines,
       partialLines,
+      functions,
+      regions: CoverageRegions.merge([regions]),
     };
   }
 }
@@ -3,9 +3,16 @@ import type {
   CoverageMetrics,
   CoverageResults,
   FileCoverage,
+  FunctionCoverage,
   LineCoverage,
 } from "../types/coverage.js";
-import { BaseCoverageParser, type CoverageFormat } from "./base-parser.js";
+import type { DiagnosticsCollector } from "../utils/diagnostics.js";
+import {
+  BaseCoverageParser,
+  type CoverageFormat,
+  DETECTION_CONFIDENCE,
+  type DetectionResult,
+} from "./base-parser.js";
 
 /**
  * Parser for JaCoCo XML coverage format
@@ -34,19 +41,16 @@ export class JaCoCoParser extends BaseCoverageParser {
   readonly format: CoverageFormat = "jacoco";
 
   /**
-   * Check if content is JaCoCo XML format
+   * Score how likely content is JaCoCo XML format
    * JaCoCo has <report> root with <package>/<class>/<counter> structure
    */
-  canParse(content: string, filePath?: string): boolean {
-    // Check file extension
+  detect(content: string, filePath?: string): DetectionResult {
+    let nameMatches = false;
     if (filePath) {
-      const fileName = filePath.toLowerCase();
-      if (fileName.endsWith("jacoco.xml")) {
-        return true;
-      }
-      const ext = this.getFileExtension(filePath);
-      if (ext !== "xml") {
-        return false;
+      nameMatches =
+        this.getFileNameForMatching(filePath).endsWith("jacoco.xml");
+      if (!nameMatches && this.getFileExtension(filePath) !== "xml") {
+        return this.detected(DETECTION_CONFIDENCE.NONE, "not an .xml file");
       }
     }
 
@@ -57,13 +61,24 @@ export class JaCoCoParser extends BaseCoverageParser {
       content.includes('<counter type="') &&
       !content.includes("<coverage"); // Not Cobertura/Clover
 
-    return hasJaCoCoStructure;
+    return this.withFileName(
+      nameMatches,
+      hasJaCoCoStructure
+        ? this.detected(
+            DETECTION_CONFIDENCE.CONTENT,
+            "<report> root with <counter> elements",
+          )
+        : this.detected(DETECTION_CONFIDENCE.NONE, "no <report>/<counter>"),
+    );
   }
 
   /**
    * Parse JaCoCo XML content
    */
-  async parseContent(content: string): Promise<CoverageResults> {
+  async parseContent(
+    content: string,
+    diagnostics?: DiagnosticsCollector,
+  ): Promise<CoverageResults> {
     const result = await parseStringPromise(content, {
       explicitArray: false,
       mergeAttrs: true,
@@ -82,9 +97,15 @@ export class JaCoCoParser extends BaseCoverageParser {
     for (const pkg of packages) {
       const packageName = pkg.name || "";
       const sourceFiles = this.ensureArray(pkg.sourcefile);
+      const methodsBySource = this.parseMethods(pkg);
 
       for (const sourceFile of sourceFiles) {
-        const fileResult = this.parseSourceFile(sourceFile, packageName);
+        const fileResult = this.parseSourceFile(
+          sourceFile,
+          packageName,
+          diagnostics,
+        );
+        fileResult.functions = methodsBySource.get(fileResult.name) ?? [];
         files.push(fileResult);
       }
     }
@@ -121,12 +142,53 @@ export class JaCoCoParser extends BaseCoverageParser {
     };
   }
 
+  /**
+   * Collect the methods of a package's classes by source file name.
+   * JaCoCo records no hit counts, so hits is 1 for executed methods.
+   */
+  private parseMethods(
+    pkg: Record<string, unknown>,
+  ): Map<string, FunctionCoverage[]> {
+    const methodsBySource: Map<string, FunctionCoverage[]> = new Map();
+
+    for (const classData of this.ensureArray(pkg.class)) {
+      const cls = classData as Record<string, unknown>;
+      const sourceName = cls.sourcefilename as string | undefined;
+      if (!sourceName) continue;
+      const className = ((cls.name as string) || "").split("/").pop();
+
+      for (const methodData of this.ensureArray(cls.method)) {
+        const method = methodData as Record<string, unknown>;
+        const line = Number.parseInt((method.line as string) || "0", 10);
+        // Methods without debug line information cannot be located
+        if (!(line > 0)) continue;
+
+        const counters = this.parseCounters(
+          this.ensureArray(method.counter) as Array<Record<string, unknown>>,
+        );
+        const functions = methodsBySource.get(sourceName) ?? [];
+        functions.push({
+          name: className ? `${className}.${method.name}` : `${method.name}`,
+          startLine: line,
+          hits: counters.method.covered > 0 ? 1 : 0,
+        });
+        methodsBySource.set(sourceName, functions);
+      }
+    }
+
+    for (const functions of methodsBySource.values()) {
+      functions.sort((a, b) => a.startLine - b.startLine);
+    }
+    return methodsBySource;
+  }
+
   /**
    * Parse a sourcefile element into FileCoverage
    */
   private parseSourceFile(
     sourceFile: Record<string, unknown>,
-    packageName: string
+    packageName: string,
+    diagnostics?: DiagnosticsCollector,
   ): FileCoverage {
     const fileName = (sourceFile.name as string) || "";
     const packagePath = packageName.replace(/\./g, "/");
@@ -141,6 +203,13 @@ export class JaCoCoParser extends BaseCoverageParser {
     for (const lineData of sourceLines) {
       const line = lineData as Record<string, unknown>;
       const lineNum = Number.parseInt((line.nr as string) || "0", 10);
+      if (!(lineNum > 0)) {
+        diagnostics?.warning(
+          `<line> with invalid nr "${String(line.nr)}" skipped`,
+          { source: fullPath },
+        );
+        continue;
+      }
       const coveredInstructions = Number.parseInt(
         (line.ci as string) || "0",
         10
@@ -157,6 +226,12 @@ export class JaCoCoParser extends BaseCoverageParser {
         type: hasBranches ? "cond" : "stmt",
         trueCount: hasBranches ? coveredBranches : undefined,
         falseCount: hasBranches ? missedBranches : undefined,
+        branches: hasBranches
+          ? this.countedBranchArms(
+              coveredBranches,
+              coveredBranches + missedBranches,
+            )
+          : undefined,
       });
 
       // Track missing lines
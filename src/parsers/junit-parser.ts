@@ -6,6 +6,7 @@ import type {
   TestResults,
   TestSuite,
 } from "../types/test-results.js";
+import type { DiagnosticsCollector } from "../utils/diagnostics.js";
 
 export class JUnitParser {
   private parser: XMLParser;
@@ -22,24 +23,27 @@ export class JUnitParser {
   /**
    * Parse a JUnit XML file and return structured test results
    */
-  parseFile(filePath: string): TestResults {
+  parseFile(filePath: string, diagnostics?: DiagnosticsCollector): TestResults {
     const fileContent = fs.readFileSync(filePath, "utf-8");
-    return this.parseXML(fileContent);
+    return this.parseXML(fileContent, diagnostics);
   }
 
   /**
    * Parse JUnit XML content and return structured test results
    */
-  parseXML(xmlContent: string): TestResults {
+  parseXML(
+    xmlContent: string,
+    diagnostics?: DiagnosticsCollector,
+  ): TestResults {
     const parsed = this.parser.parse(xmlContent);
 
     // Handle both <testsuites> and single <testsuite> root elements
     if (parsed.testsuites) {
-      return this.parseTestSuites(parsed.testsuites);
+      return this.parseTestSuites(parsed.testsuites, diagnostics);
     }
     if (parsed.testsuite) {
       // Single test suite - wrap it
-      const suite = this.parseTestSuite(parsed.testsuite);
+      const suite = this.parseTestSuite(parsed.testsuite, diagnostics);
       return {
         tests: suite.tests,
         failures: suite.failures,
@@ -56,14 +60,17 @@ export class JUnitParser {
   /**
    * Parse multiple test suites
    */
-  private parseTestSuites(testsuites: any): TestResults {
+  private parseTestSuites(
+    testsuites: any,
+    diagnostics?: DiagnosticsCollector,
+  ): TestResults {
     const suites = Array.isArray(testsuites.testsuite)
       ? testsuites.testsuite
       : [testsuites.testsuite];
 
     const parsedSuites = suites
       .filter((suite) => suite) // Filter out undefined
-      .map((suite) => this.parseTestSuite(suite));
+      .map((suite) => this.parseTestSuite(suite, diagnostics));
 
     return {
       name: testsuites["@_name"],
@@ -79,18 +86,26 @@ export class JUnitParser {
   /**
    * Parse a single test suite
    */
-  private parseTestSuite(testsuite: any): TestSuite {
+  private parseTestSuite(
+    testsuite: any,
+    diagnostics?: DiagnosticsCollector,
+  ): TestSuite {
+    const name = testsuite["@_name"] || "Unknown Suite";
+    if (!testsuite["@_name"]) {
+      diagnostics?.warning('<testsuite> without a name; using "Unknown Suite"');
+    }
+
     let testcases: TestCase[] = [];
 
     if (testsuite.testcase) {
       const cases = Array.isArray(testsuite.testcase)
         ? testsuite.testcase
         : [testsuite.testcase];
-      testcases = cases.map((tc) => this.parseTestCase(tc));
+      testcases = cases.map((tc) => this.parseTestCase(tc, name, diagnostics));
     }
 
     return {
-      name: testsuite["@_name"] || "Unknown Suite",
+      name,
       tests: testsuite["@_tests"] || 0,
       failures: testsuite["@_failures"] || 0,
       errors: testsuite["@_errors"] || 0,
@@ -103,7 +118,19 @@ export class JUnitParser {
   /**
    * Parse a single test case
    */
-  private parseTestCase(testcase: any): TestCase {
+  private parseTestCase(
+    testcase: any,
+    suiteName: string,
+    diagnostics?: DiagnosticsCollector,
+  ): TestCase {
+    if (!testcase["@_classname"] || !testcase["@_name"]) {
+      diagnostics?.warning(
+        `<testcase> in suite "${suiteName}" is missing ${
+          testcase["@_name"] ? "classname" : "name"
+        }; using a placeholder`,
+      );
+    }
+
     const result: TestCase = {
       classname: testcase["@_classname"] || "Unknown Class",
       name: testcase["@_name"] || "Unknown Test",
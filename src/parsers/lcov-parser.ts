@@ -1,10 +1,20 @@
+import * as readline from "node:readline";
+import type { Readable } from "node:stream";
 import type {
+  BranchCoverage,
   CoverageMetrics,
   CoverageResults,
   FileCoverage,
+  FunctionCoverage,
   LineCoverage,
 } from "../types/coverage.js";
-import { BaseCoverageParser, type CoverageFormat } from "./base-parser.js";
+import type { DiagnosticsCollector } from "../utils/diagnostics.js";
+import {
+  BaseCoverageParser,
+  type CoverageFormat,
+  DETECTION_CONFIDENCE,
+  type DetectionResult,
+} from "./base-parser.js";
 
 /**
  * Parser for LCOV coverage format
@@ -13,14 +23,14 @@ import { BaseCoverageParser, type CoverageFormat } from "./base-parser.js";
  * Format structure (line-based):
  * TN:<test name>
  * SF:<source file path>
- * FN:<line>,<function name>
+ * FN:<line>,[<end line>,]<function name>
  * FNDA:<hit count>,<function name>
  * FNF:<functions found>
  * FNH:<functions hit>
  * DA:<line>,<hit count>
  * LF:<lines found>
  * LH:<lines hit>
- * BRDA:<line>,<block>,<branch>,<taken>
+ * BRDA:<line>,[e]<block>,<branch or expression>,<taken>
  * BRF:<branches found>
  * BRH:<branches hit>
  * end_of_record
@@ -29,46 +39,111 @@ export class LcovParser extends BaseCoverageParser {
   readonly format: CoverageFormat = "lcov";
 
   /**
-   * Check if content is LCOV format
+   * Score how likely content is LCOV format
    */
-  canParse(content: string, filePath?: string): boolean {
-    // Check file extension
-    if (filePath) {
-      const ext = this.getFileExtension(filePath);
-      const fileName = filePath.toLowerCase();
-      if (
-        ext === "info" ||
-        fileName.endsWith("lcov.info") ||
-        fileName.endsWith(".lcov")
-      ) {
-        return true;
-      }
-    }
-
+  detect(content: string, filePath?: string): DetectionResult {
     // Check content structure - LCOV has specific markers
     const hasLcovMarkers =
       content.includes("SF:") &&
       (content.includes("DA:") || content.includes("LF:")) &&
       content.includes("end_of_record");
+    const contentResult = hasLcovMarkers
+      ? this.detected(
+          DETECTION_CONFIDENCE.CONTENT,
+          "SF:/DA: records with end_of_record",
+        )
+      : this.detected(DETECTION_CONFIDENCE.NONE, "no SF:/end_of_record");
+
+    // Check file name
+    if (filePath) {
+      const fileName = this.getFileNameForMatching(filePath);
+      if (fileName.endsWith("lcov.info") || fileName.endsWith(".lcov")) {
+        return this.withFileName(true, contentResult);
+      }
+      if (
+        this.getFileExtension(filePath) === "info" &&
+        contentResult.confidence === 0
+      ) {
+        return this.detected(DETECTION_CONFIDENCE.EXTENSION, ".info extension");
+      }
+    }
 
-    return hasLcovMarkers;
+    return contentResult;
   }
 
   /**
    * Parse LCOV content
    */
-  async parseContent(content: string): Promise<CoverageResults> {
+  async parseContent(
+    content: string,
+    diagnostics?: DiagnosticsCollector,
+  ): Promise<CoverageResults> {
+    return this.parseLines(content.split("\n"), diagnostics);
+  }
+
+  /**
+   * Parse an LCOV report line by line, holding one record at a time
+   */
+  async parseStream(
+    stream: Readable,
+    diagnostics?: DiagnosticsCollector,
+  ): Promise<CoverageResults> {
+    return this.parseLines(
+      readline.createInterface({ input: stream, crlfDelay: Infinity }),
+      diagnostics,
+    );
+  }
+
+  /**
+   * Group report lines into records and parse each one as it completes
+   */
+  private async parseLines(
+    lines: Iterable<string> | AsyncIterable<string>,
+    diagnostics?: DiagnosticsCollector,
+  ): Promise<CoverageResults> {
     const files: FileCoverage[] = [];
-    const records = content.split("end_of_record");
+    const seenSources: Set<string> = new Set();
+    // Lines of the current record, and the report line it starts on
+    let record: string[] = [];
+    let recordStart = 1;
+    let lineNumber = 0;
 
-    for (const record of records) {
-      const trimmedRecord = record.trim();
-      if (!trimmedRecord) continue;
+    const addRecord = (complete: boolean): void => {
+      const fileResult = this.parseRecord(record, recordStart, diagnostics);
+      if (!fileResult) return;
+
+      if (!complete) {
+        diagnostics?.warning("Record is missing end_of_record", {
+          line: recordStart,
+          source: fileResult.path,
+        });
+      }
+      if (seenSources.has(fileResult.path)) {
+        diagnostics?.warning("Duplicate SF block; hits are merged", {
+          line: recordStart,
+          source: fileResult.path,
+        });
+      }
+      seenSources.add(fileResult.path);
+      files.push(fileResult);
+    };
 
-      const fileResult = this.parseRecord(trimmedRecord);
-      if (fileResult) {
-        files.push(fileResult);
+    for await (const line of lines) {
+      lineNumber++;
+      const trimmed = line.trim();
+      if (trimmed === "end_of_record") {
+        if (record.length > 0) addRecord(true);
+        record = [];
+        continue;
       }
+      if (record.length === 0) {
+        if (!trimmed) continue;
+        recordStart = lineNumber;
+      }
+      record.push(line);
+    }
+    if (record.length > 0) {
+      addRecord(false);
     }
 
     // Calculate aggregate metrics
@@ -110,13 +185,24 @@ export class LcovParser extends BaseCoverageParser {
 
   /**
    * Parse a single LCOV record (one file)
+   * @param lines Lines of the record, without end_of_record
+   * @param startLine Report line number of the record's first line
    */
-  private parseRecord(record: string): FileCoverage | null {
-    const lines = record.split("\n");
+  private parseRecord(
+    lines: string[],
+    startLine: number,
+    diagnostics?: DiagnosticsCollector,
+  ): FileCoverage | null {
     let sourceFile = "";
+    // First report line of each source line's BRDA records
+    const branchLines: Map<number, number> = new Map();
     const lineData: Map<number, number> = new Map();
-    const branchData: Map<number, { total: number; covered: number }> =
-      new Map();
+    const branchData: Map<
+      number,
+      { total: number; covered: number; arms: BranchCoverage[] }
+    > = new Map();
+    // Functions by name, in FN order
+    const functionData: Map<string, FunctionCoverage> = new Map();
     let functionsFound = 0;
     let functionsHit = 0;
     let linesFound = 0;
@@ -124,9 +210,10 @@ export class LcovParser extends BaseCoverageParser {
     let branchesFound = 0;
     let branchesHit = 0;
 
-    for (const line of lines) {
+    for (const [offset, line] of lines.entries()) {
       const trimmed = line.trim();
       if (!trimmed) continue;
+      const reportLine = startLine + offset;
 
       // Source file
       if (trimmed.startsWith("SF:")) {
@@ -137,11 +224,22 @@ export class LcovParser extends BaseCoverageParser {
       // Line data: DA:<line>,<hit count>[,<checksum>]
       if (trimmed.startsWith("DA:")) {
         const parts = trimmed.substring(3).split(",");
-        if (parts.length >= 2) {
-          const lineNum = Number.parseInt(parts[0], 10);
-          const hitCount = Number.parseInt(parts[1], 10);
-          lineData.set(lineNum, hitCount);
+        const lineNum = Number.parseInt(parts[0], 10);
+        const hitCount = Number.parseInt(parts[1], 10);
+        if (parts.length < 2 || !(lineNum > 0) || Number.isNaN(hitCount)) {
+          diagnostics?.warning(`Malformed record "${trimmed}" skipped`, {
+            line: reportLine,
+            source: sourceFile || undefined,
+          });
+          continue;
+        }
+        if (hitCount < 0) {
+          diagnostics?.warning(`Negative hit count in "${trimmed}"`, {
+            line: reportLine,
+            source: sourceFile || undefined,
+          });
         }
+        lineData.set(lineNum, hitCount);
         continue;
       }
 
@@ -155,6 +253,42 @@ export class LcovParser extends BaseCoverageParser {
         continue;
       }
 
+      // Function: FN:<line>,[<end line>,]<name>
+      if (trimmed.startsWith("FN:")) {
+        const match = /^(\d+),(?:(\d+),)?(.+)$/.exec(trimmed.substring(3));
+        if (!match) {
+          diagnostics?.warning(`Malformed record "${trimmed}" skipped`, {
+            line: reportLine,
+            source: sourceFile || undefined,
+          });
+          continue;
+        }
+        const name = match[3];
+        functionData.set(name, {
+          name,
+          startLine: Number.parseInt(match[1], 10),
+          endLine: match[2] ? Number.parseInt(match[2], 10) : undefined,
+          hits: functionData.get(name)?.hits ?? 0,
+        });
+        continue;
+      }
+
+      // Function hits: FNDA:<hit count>,<name>
+      if (trimmed.startsWith("FNDA:")) {
+        const separator = trimmed.indexOf(",");
+        const hits = Number.parseInt(trimmed.substring(5, separator), 10);
+        const fn = functionData.get(trimmed.substring(separator + 1));
+        if (separator < 0 || Number.isNaN(hits) || !fn) {
+          diagnostics?.warning(`Malformed record "${trimmed}" skipped`, {
+            line: reportLine,
+            source: sourceFile || undefined,
+          });
+          continue;
+        }
+        fn.hits += hits;
+        continue;
+      }
+
       // Functions found/hit
       if (trimmed.startsWith("FNF:")) {
         functionsFound = Number.parseInt(trimmed.substring(4), 10);
@@ -175,35 +309,80 @@ export class LcovParser extends BaseCoverageParser {
         continue;
       }
 
-      // Branch data: BRDA:<line>,<block>,<branch>,<taken>
+      // Branch data: BRDA:<line>,[e]<block>,<branch>,<taken>; lcov 2.x
+      // may name the branch with an expression that contains commas
       if (trimmed.startsWith("BRDA:")) {
         const parts = trimmed.substring(5).split(",");
-        if (parts.length >= 4) {
-          const lineNum = Number.parseInt(parts[0], 10);
-          const taken = parts[3] === "-" ? 0 : Number.parseInt(parts[3], 10);
-
-          if (!branchData.has(lineNum)) {
-            branchData.set(lineNum, { total: 0, covered: 0 });
-          }
-          const existing = branchData.get(lineNum)!;
-          existing.total++;
-          if (taken > 0) {
-            existing.covered++;
-          }
+        const lineNum = Number.parseInt(parts[0], 10);
+        const block = Number.parseInt(parts[1]?.replace(/^e/, ""), 10);
+        const lastPart = parts[parts.length - 1];
+        const taken = lastPart === "-" ? 0 : Number.parseInt(lastPart, 10);
+        if (
+          parts.length < 4 ||
+          !(lineNum > 0) ||
+          Number.isNaN(block) ||
+          Number.isNaN(taken)
+        ) {
+          diagnostics?.warning(`Malformed record "${trimmed}" skipped`, {
+            line: reportLine,
+            source: sourceFile || undefined,
+          });
+          continue;
+        }
+
+        if (!branchData.has(lineNum)) {
+          branchData.set(lineNum, { total: 0, covered: 0, arms: [] });
+          branchLines.set(lineNum, reportLine);
+        }
+        const existing = branchData.get(lineNum)!;
+        existing.total++;
+        if (taken > 0) {
+          existing.covered++;
         }
+        const branchId = parts.slice(2, -1).join(",");
+        const branch = /^\d+$/.test(branchId)
+          ? Number.parseInt(branchId, 10)
+          : existing.arms.filter((arm) => arm.block === block).length;
+        existing.arms.push({
+          block,
+          branch,
+          taken,
+          label: /^\d+$/.test(branchId) ? undefined : branchId,
+        });
       }
     }
 
     if (!sourceFile) {
+      diagnostics?.warning("Record without SF line skipped", {
+        line: startLine,
+      });
       return null;
     }
 
+    if (lineData.size > 0) {
+      for (const [lineNum, reportLine] of branchLines) {
+        if (!lineData.has(lineNum)) {
+          diagnostics?.warning(
+            `BRDA for line ${lineNum} outside the DA lines`,
+            { line: reportLine, source: sourceFile },
+          );
+        }
+      }
+    }
+
     // Calculate from line data if LF/LH not provided
     if (linesFound === 0 && lineData.size > 0) {
       linesFound = lineData.size;
       linesHit = Array.from(lineData.values()).filter((h) => h > 0).length;
     }
 
+    // Calculate function coverage from FN/FNDA if FNF/FNH not provided
+    const functions = Array.from(functionData.values());
+    if (functionsFound === 0 && functions.length > 0) {
+      functionsFound = functions.length;
+      functionsHit = functions.filter((fn) => fn.hits > 0).length;
+    }
+
     // Calculate branch coverage from BRDA if BRF/BRH not provided
     if (branchesFound === 0 && branchData.size > 0) {
       for (const branch of branchData.values()) {
@@ -219,10 +398,16 @@ export class LcovParser extends BaseCoverageParser {
 
     for (const [lineNum, hitCount] of lineData.entries()) {
       const hasBranch = branchData.has(lineNum);
+      const lineBranches = branchData.get(lineNum);
       lineCoverage.push({
         lineNumber: lineNum,
         count: hitCount,
         type: hasBranch ? "cond" : "stmt",
+        trueCount: lineBranches?.covered,
+        falseCount: lineBranches
+          ? lineBranches.total - lineBranches.covered
+          : undefined,
+        branches: lineBranches?.arms,
       });
 
       // Track missing lines
@@ -260,6 +445,7 @@ export class LcovParser extends BaseCoverageParser {
       lines: lineCoverage,
       missingLines,
       partialLines,
+      functions,
     };
   }
 }
@@ -0,0 +1,414 @@
+import type {
+  CoverageMetrics,
+  CoverageResults,
+  FileCoverage,
+  FunctionCoverage,
+  LineCoverage,
+} from "../types/coverage.js";
+import type { DiagnosticsCollector } from "../utils/diagnostics.js";
+import {
+  BaseCoverageParser,
+  type CoverageFormat,
+  DETECTION_CONFIDENCE,
+  type DetectionResult,
+} from "./base-parser.js";
+
+/**
+ * llvm-cov export JSON format types
+ *
+ * Segment: [line, col, count, hasCount, isRegionEntry, isGapRegion?]
+ * Branch: [lineStart, colStart, lineEnd, colEnd, trueCount, falseCount, fileId, expandedFileId, kind]
+ * Function region: [lineStart, colStart, lineEnd, colEnd, count, fileId, expandedFileId, kind]
+ */
+type LlvmSegment = [number, number, number, boolean, boolean, boolean?];
+type LlvmBranch = [number, number, number, number, number, number, ...number[]];
+
+interface LlvmFile {
+  filename: string;
+  segments?: LlvmSegment[];
+  branches?: LlvmBranch[];
+}
+
+interface LlvmFunction {
+  name: string;
+  count: number;
+  filenames?: string[];
+  regions?: number[][];
+}
+
+interface LlvmExport {
+  type?: string;
+  version?: string;
+  data: Array<{
+    files?: LlvmFile[];
+    functions?: LlvmFunction[];
+  }>;
+}
+
+/**
+ * Per-file accumulator used to merge the same source across binaries
+ */
+interface LlvmFileAccumulator {
+  lines: Map<number, number>;
+  branches: Map<
+    string,
+    { line: number; trueCount: number; falseCount: number }
+  >;
+  /** Function name -> function, with counts summed across binaries */
+  functions: Map<string, FunctionCoverage>;
+}
+
+/**
+ * Whether a segment or branch record starts with the given number of numbers
+ */
+function isNumberTuple(record: unknown, length: number): boolean {
+  return (
+    Array.isArray(record) &&
+    record.length >= length &&
+    record.slice(0, length).every((value) => typeof value === "number")
+  );
+}
+
+/**
+ * Parser for llvm-cov export JSON format
+ * Generated by: llvm-cov export -format=text (Rust via cargo-llvm-cov --json, Clang/C++)
+ *
+ * Format structure:
+ * {
+ *   "type": "llvm.coverage.json.export",
+ *   "version": "2.0.1",
+ *   "data": [
+ *     {
+ *       "files": [
+ *         {
+ *           "filename": "/src/main.rs",
+ *           "segments": [[1, 11, 1, true, true, false], [3, 2, 0, false, false, false]],
+ *           "branches": [[2, 8, 2, 14, 1, 0, 0, 0, 4]]
+ *         }
+ *       ],
+ *       "functions": [{ "name": "main", "count": 1, "filenames": ["/src/main.rs"], "regions": [...] }]
+ *     }
+ *   ]
+ * }
+ *
+ * Each "data" entry corresponds to one binary; the same source file reported by
+ * several binaries is merged by summing line and branch counts.
+ */
+export class LlvmParser extends BaseCoverageParser {
+  readonly format: CoverageFormat = "llvm";
+
+  /**
+   * Score how likely content is llvm-cov export JSON format
+   */
+  detect(content: string, filePath?: string): DetectionResult {
+    // Check file extension
+    if (filePath && this.getFileExtension(filePath) !== "json") {
+      return this.detected(DETECTION_CONFIDENCE.NONE, "not a .json file");
+    }
+
+    // llvm-cov always tags its export with a type marker
+    return content.includes('"llvm.coverage.json.export"')
+      ? this.detected(
+          DETECTION_CONFIDENCE.CONTENT,
+          '"llvm.coverage.json.export" type marker',
+        )
+      : this.detected(DETECTION_CONFIDENCE.NONE, "no llvm-cov type marker");
+  }
+
+  /**
+   * Parse llvm-cov export JSON content
+   */
+  async parseContent(
+    content: string,
+    diagnostics?: DiagnosticsCollector,
+  ): Promise<CoverageResults> {
+    let data: LlvmExport;
+
+    try {
+      data = JSON.parse(content);
+    } catch (error) {
+      throw new Error(
+        `Invalid llvm-cov JSON: ${error instanceof Error ? error.message : "parse error"}`,
+      );
+    }
+
+    if (!Array.isArray(data.data)) {
+      throw new Error("Invalid llvm-cov JSON: missing 'data' array");
+    }
+
+    const accumulators: Map<string, LlvmFileAccumulator> = new Map();
+    const getAccumulator = (filename: string): LlvmFileAccumulator => {
+      let acc = accumulators.get(filename);
+      if (!acc) {
+        acc = {
+          lines: new Map(),
+          branches: new Map(),
+          functions: new Map(),
+        };
+        accumulators.set(filename, acc);
+      }
+      return acc;
+    };
+
+    for (const binary of data.data) {
+      for (const file of binary.files || []) {
+        if (!file.filename) {
+          diagnostics?.warning("File record without a filename skipped");
+          continue;
+        }
+        const acc = getAccumulator(file.filename);
+
+        const segments = (file.segments || []).filter((segment) =>
+          isNumberTuple(segment, 3),
+        );
+        if (segments.length < (file.segments || []).length) {
+          diagnostics?.warning(
+            `${(file.segments || []).length - segments.length} malformed segment(s) skipped`,
+            { source: file.filename },
+          );
+        }
+        for (const [line, count] of this.segmentsToLineCounts(segments)) {
+          acc.lines.set(line, (acc.lines.get(line) || 0) + count);
+        }
+
+        for (const branch of file.branches || []) {
+          if (!isNumberTuple(branch, 6)) {
+            diagnostics?.warning(
+              `Malformed branch ${JSON.stringify(branch)} skipped`,
+              { source: file.filename },
+            );
+            continue;
+          }
+          const [lineStart, colStart, lineEnd, colEnd, trueCount, falseCount] =
+            branch;
+          const key = `${lineStart}:${colStart}:${lineEnd}:${colEnd}`;
+          const existing = acc.branches.get(key);
+          if (existing) {
+            existing.trueCount += trueCount;
+            existing.falseCount += falseCount;
+          } else {
+            acc.branches.set(key, { line: lineStart, trueCount, falseCount });
+          }
+        }
+      }
+
+      // Functions belong to the first file in their filenames list
+      for (const fn of binary.functions || []) {
+        const filename = fn.filenames?.[0];
+        if (!filename || !fn.name) {
+          diagnostics?.warning(
+            `Function record "${fn.name ?? "?"}" without a name or file skipped`,
+          );
+          continue;
+        }
+        const acc = getAccumulator(filename);
+        const existing = acc.functions.get(fn.name);
+        if (existing) {
+          existing.hits += fn.count;
+        } else {
+          acc.functions.set(fn.name, {
+            name: fn.name,
+            ...this.functionLines(fn),
+            hits: fn.count,
+          });
+        }
+      }
+    }
+
+    const files: FileCoverage[] = [];
+    let totalStatements = 0;
+    let coveredStatements = 0;
+    let totalConditionals = 0;
+    let coveredConditionals = 0;
+    let totalMethods = 0;
+    let coveredMethods = 0;
+
+    for (const [filename, acc] of accumulators.entries()) {
+      // Skip files that only appeared through function records
+      if (acc.lines.size === 0 && acc.branches.size === 0) continue;
+
+      const fileResult = this.buildFileCoverage(filename, acc);
+      files.push(fileResult);
+
+      totalStatements += fileResult.statements;
+      coveredStatements += fileResult.coveredStatements;
+      totalConditionals += fileResult.conditionals;
+      coveredConditionals += fileResult.coveredConditionals;
+      totalMethods += fileResult.methods;
+      coveredMethods += fileResult.coveredMethods;
+    }
+
+    const metrics: CoverageMetrics = {
+      statements: totalStatements,
+      coveredStatements,
+      conditionals: totalConditionals,
+      coveredConditionals,
+      methods: totalMethods,
+      coveredMethods,
+      elements: totalStatements + totalConditionals,
+      coveredElements: coveredStatements + coveredConditionals,
+      lineRate: this.calculateRate(coveredStatements, totalStatements),
+      branchRate: this.calculateRate(coveredConditionals, totalConditionals),
+    };
+
+    return {
+      timestamp: Date.now(),
+      metrics,
+      files,
+    };
+  }
+
+  /**
+   * Convert sorted coverage segments to per-line execution counts, following
+   * llvm's LineCoverageStats rules:
+   * - A line is mapped if the segment wrapping into it has a count, or a
+   *   region with a count starts on it
+   * - A line starting with a skipped region (no count) is not mapped
+   * - The count is the wrapped segment's count, raised to the highest count
+   *   of any region starting on the line
+   */
+  private segmentsToLineCounts(segments: LlvmSegment[]): Map<number, number> {
+    const lineCounts: Map<number, number> = new Map();
+    if (segments.length === 0) {
+      return lineCounts;
+    }
+
+    const isStartOfRegion = (segment: LlvmSegment): boolean =>
+      !segment[5] && segment[3] && segment[4];
+
+    let wrapped: LlvmSegment | null = null;
+    let index = 0;
+    const firstLine = segments[0][0];
+    const lastLine = segments[segments.length - 1][0];
+
+    for (let line = firstLine; line <= lastLine; line++) {
+      const lineSegments: LlvmSegment[] = [];
+      while (index < segments.length && segments[index][0] === line) {
+        lineSegments.push(segments[index]);
+        index++;
+      }
+
+      const regionStarts = lineSegments.filter(isStartOfRegion);
+      const startOfSkippedRegion =
+        lineSegments.length > 0 && !lineSegments[0][3] && lineSegments[0][4];
+      const mapped =
+        !startOfSkippedRegion && (wrapped?.[3] || regionStarts.length > 0);
+
+      if (mapped) {
+        let count = wrapped ? wrapped[2] : 0;
+        for (const segment of regionStarts) {
+          count = Math.max(count, segment[2]);
+        }
+        lineCounts.set(line, count);
+      }
+
+      if (lineSegments.length > 0) {
+        wrapped = lineSegments[lineSegments.length - 1];
+      }
+    }
+
+    return lineCounts;
+  }
+
+  /**
+   * Line range of a function: the extent of its regions in its own file
+   * (file id 0); regions of expanded macros live in other files
+   */
+  private functionLines(fn: LlvmFunction): {
+    startLine: number;
+    endLine?: number;
+  } {
+    const own = (fn.regions || []).filter(
+      (region) => region.length >= 6 && region[5] === 0,
+    );
+    // Unlocated functions still count, but never match a changed line
+    if (own.length === 0) return { startLine: 0, endLine: 0 };
+    return {
+      startLine: Math.min(...own.map((region) => region[0])),
+      endLine: Math.max(...own.map((region) => region[2])),
+    };
+  }
+
+  /**
+   * Convert merged per-file data to FileCoverage
+   */
+  private buildFileCoverage(
+    filePath: string,
+    acc: LlvmFileAccumulator,
+  ): FileCoverage {
+    const fileName = filePath.split("/").pop() || filePath;
+
+    // Each llvm branch has a true arm and a false arm
+    const branchData: Map<number, { total: number; covered: number }> =
+      new Map();
+    let totalBranches = 0;
+    let coveredBranches = 0;
+
+    for (const branch of acc.branches.values()) {
+      let existing = branchData.get(branch.line);
+      if (!existing) {
+        existing = { total: 0, covered: 0 };
+        branchData.set(branch.line, existing);
+      }
+      const covered =
+        (branch.trueCount > 0 ? 1 : 0) + (branch.falseCount > 0 ? 1 : 0);
+      existing.total += 2;
+      existing.covered += covered;
+      totalBranches += 2;
+      coveredBranches += covered;
+    }
+
+    const lines: LineCoverage[] = [];
+    const missingLines: number[] = [];
+    const partialLines: number[] = [];
+    let coveredStatements = 0;
+
+    for (const [lineNumber, count] of acc.lines.entries()) {
+      const branch = branchData.get(lineNumber);
+
+      lines.push({
+        lineNumber,
+        count,
+        type: branch ? "cond" : "stmt",
+        trueCount: branch ? branch.covered : undefined,
+        falseCount: branch ? branch.total - branch.covered : undefined,
+      });
+
+      if (count > 0) {
+        coveredStatements++;
+        if (branch && branch.covered < branch.total) {
+          partialLines.push(lineNumber);
+        }
+      } else {
+        missingLines.push(lineNumber);
+      }
+    }
+
+    // Sort by line number
+    lines.sort((a, b) => a.lineNumber - b.lineNumber);
+    missingLines.sort((a, b) => a - b);
+    partialLines.sort((a, b) => a - b);
+
+    const functions = Array.from(acc.functions.values()).sort(
+      (a, b) => a.startLine - b.startLine,
+    );
+    const coveredMethods = functions.filter((fn) => fn.hits > 0).length;
+
+    return {
+      name: fileName,
+      path: filePath,
+      statements: lines.length,
+      coveredStatements,
+      conditionals: totalBranches,
+      coveredConditionals: coveredBranches,
+      methods: functions.length,
+      coveredMethods,
+      lineRate: this.calculateRate(coveredStatements, lines.length),
+      branchRate: this.calculateRate(coveredBranches, totalBranches),
+      lines,
+      missingLines,
+      partialLines,
+      functions,
+    };
+  }
+}
@@ -0,0 +1,372 @@
+import { parseStringPromise } from "xml2js";
+import type {
+  CoverageMetrics,
+  CoverageResults,
+  FileCoverage,
+  FunctionCoverage,
+  LineCoverage,
+} from "../types/coverage.js";
+import type { DiagnosticsCollector } from "../utils/diagnostics.js";
+import {
+  BaseCoverageParser,
+  type CoverageFormat,
+  DETECTION_CONFIDENCE,
+  type DetectionResult,
+} from "./base-parser.js";
+
+/**
+ * Per-file accumulator; several classes (partial, nested, compiler-generated)
+ * can point at the same source file
+ */
+interface OpenCoverFileAccumulator {
+  path: string;
+  lines: Map<number, number>;
+  branches: Map<number, { total: number; covered: number }>;
+  methods: number;
+  coveredMethods: number;
+  functions: FunctionCoverage[];
+}
+
+/**
+ * Parser for OpenCover XML coverage format
+ * Used by: coverlet (--format opencover), OpenCover (.NET)
+ *
+ * Format structure:
+ * <CoverageSession>
+ *   <Summary numSequencePoints="..." visitedSequencePoints="..." ... />
+ *   <Modules>
+ *     <Module>
+ *       <ModuleName>MyLib</ModuleName>
+ *       <Files>
+ *         <File uid="1" fullPath="/src/MyLib/Calculator.cs" />
+ *       </Files>
+ *       <Classes>
+ *         <Class>
+ *           <FullName>MyLib.Calculator</FullName>
+ *           <Methods>
+ *             <Method visited="true" ...>
+ *               <Name>System.Int32 MyLib.Calculator::Add(System.Int32,System.Int32)</Name>
+ *               <FileRef uid="1" />
+ *               <SequencePoints>
+ *                 <SequencePoint vc="3" sl="10" sc="9" el="10" ec="22" fileid="1" />
+ *               </SequencePoints>
+ *               <BranchPoints>
+ *                 <BranchPoint vc="1" sl="11" path="0" fileid="1" />
+ *                 <BranchPoint vc="0" sl="11" path="1" fileid="1" />
+ *               </BranchPoints>
+ *             </Method>
+ *           </Methods>
+ *         </Class>
+ *       </Classes>
+ *     </Module>
+ *   </Modules>
+ * </CoverageSession>
+ */
+export class OpenCoverParser extends BaseCoverageParser {
+  readonly format: CoverageFormat = "opencover";
+
+  /**
+   * Score how likely content is OpenCover XML format
+   * OpenCover has a <CoverageSession> root with <Modules>
+   */
+  detect(content: string, filePath?: string): DetectionResult {
+    // Check file extension
+    if (filePath && this.getFileExtension(filePath) !== "xml") {
+      return this.detected(DETECTION_CONFIDENCE.NONE, "not an .xml file");
+    }
+
+    return content.includes("<CoverageSession") && content.includes("<Modules")
+      ? this.detected(
+          DETECTION_CONFIDENCE.CONTENT,
+          "<CoverageSession> root with <Modules>",
+        )
+      : this.detected(DETECTION_CONFIDENCE.NONE, "no <CoverageSession>");
+  }
+
+  /**
+   * Parse OpenCover XML content
+   */
+  async parseContent(
+    content: string,
+    diagnostics?: DiagnosticsCollector,
+  ): Promise<CoverageResults> {
+    const result = await parseStringPromise(content, {
+      explicitArray: false,
+      mergeAttrs: true,
+    });
+
+    if (!result.CoverageSession) {
+      throw new Error("Invalid OpenCover XML: missing CoverageSession element");
+    }
+
+    const session = result.CoverageSession;
+    const accumulators: Map<string, OpenCoverFileAccumulator> = new Map();
+    const modules = this.ensureArray(session.Modules?.Module) as Array<
+      Record<string, unknown>
+    >;
+
+    for (const module of modules) {
+      // Skipped modules (e.g. no PDB found) carry no file data
+      if (module.skippedDueTo) continue;
+      this.parseModule(module, accumulators, diagnostics);
+    }
+
+    const files: FileCoverage[] = [];
+    let totalStatements = 0;
+    let coveredStatements = 0;
+    let totalConditionals = 0;
+    let coveredConditionals = 0;
+    let totalMethods = 0;
+    let coveredMethods = 0;
+
+    for (const acc of accumulators.values()) {
+      const fileResult = this.buildFileCoverage(acc);
+      files.push(fileResult);
+
+      totalStatements += fileResult.statements;
+      coveredStatements += fileResult.coveredStatements;
+      totalConditionals += fileResult.conditionals;
+      coveredConditionals += fileResult.coveredConditionals;
+      totalMethods += fileResult.methods;
+      coveredMethods += fileResult.coveredMethods;
+    }
+
+    const metrics: CoverageMetrics = {
+      statements: totalStatements,
+      coveredStatements,
+      conditionals: totalConditionals,
+      coveredConditionals,
+      methods: totalMethods,
+      coveredMethods,
+      elements: totalStatements + totalConditionals,
+      coveredElements: coveredStatements + coveredConditionals,
+      lineRate: this.calculateRate(coveredStatements, totalStatements),
+      branchRate: this.calculateRate(coveredConditionals, totalConditionals),
+    };
+
+    return {
+      timestamp: Date.now(),
+      metrics,
+      files,
+    };
+  }
+
+  /**
+   * Parse a module element, resolving <File uid> references for its methods
+   */
+  private parseModule(
+    module: Record<string, unknown>,
+    accumulators: Map<string, OpenCoverFileAccumulator>,
+    diagnostics?: DiagnosticsCollector,
+  ): void {
+    // File uids are scoped to their module
+    const filesByUid: Map<string, string> = new Map();
+    const moduleFiles = this.ensureArray(
+      (module.Files as Record<string, unknown>)?.File,
+    ) as Array<Record<string, string>>;
+    for (const file of moduleFiles) {
+      if (file.uid && file.fullPath) {
+        filesByUid.set(file.uid, file.fullPath.replace(/\\/g, "/"));
+      }
+    }
+
+    const getAccumulator = (uid: string | undefined) => {
+      const filePath = uid ? filesByUid.get(uid) : undefined;
+      if (!filePath) {
+        // Methods without sequence points (e.g. abstract) have no file
+        if (uid) diagnostics?.warning(`Unknown file uid "${uid}" skipped`);
+        return null;
+      }
+      let acc = accumulators.get(filePath);
+      if (!acc) {
+        acc = {
+          path: filePath,
+          lines: new Map(),
+          branches: new Map(),
+          methods: 0,
+          coveredMethods: 0,
+          functions: [],
+        };
+        accumulators.set(filePath, acc);
+      }
+      return acc;
+    };
+
+    const classes = this.ensureArray(
+      (module.Classes as Record<string, unknown>)?.Class,
+    ) as Array<Record<string, unknown>>;
+
+    for (const cls of classes) {
+      const methods = this.ensureArray(
+        (cls.Methods as Record<string, unknown>)?.Method,
+      ) as Array<Record<string, unknown>>;
+
+      for (const method of methods) {
+        if (method.skippedDueTo) continue;
+
+        const fileRef = (method.FileRef as Record<string, string>)?.uid;
+        const methodAcc = getAccumulator(fileRef);
+        const sequencePoints = this.ensureArray(
+          (method.SequencePoints as Record<string, unknown>)?.SequencePoint,
+        ) as Array<Record<string, string>>;
+
+        if (methodAcc) {
+          methodAcc.methods++;
+          if (method.visited === "true") {
+            methodAcc.coveredMethods++;
+          }
+          methodAcc.functions.push(
+            this.buildFunction(method, sequencePoints, fileRef),
+          );
+        }
+
+        for (const point of sequencePoints) {
+          const acc = getAccumulator(point.fileid || fileRef);
+          if (!acc) continue;
+          const line = Number.parseInt(point.sl || "0", 10);
+          const visits = Number.parseInt(point.vc || "0", 10);
+          if (!(line > 0)) {
+            diagnostics?.warning(
+              `<SequencePoint> with invalid sl "${point.sl ?? ""}" skipped`,
+              { source: acc.path },
+            );
+            continue;
+          }
+          // Several sequence points can start on one line; keep the highest count
+          acc.lines.set(line, Math.max(acc.lines.get(line) ?? 0, visits));
+        }
+
+        const branchPoints = this.ensureArray(
+          (method.BranchPoints as Record<string, unknown>)?.BranchPoint,
+        ) as Array<Record<string, string>>;
+
+        for (const point of branchPoints) {
+          const acc = getAccumulator(point.fileid || fileRef);
+          if (!acc) continue;
+          const line = Number.parseInt(point.sl || "0", 10);
+          const visits = Number.parseInt(point.vc || "0", 10);
+          if (!(line > 0)) {
+            diagnostics?.warning(
+              `<BranchPoint> with invalid sl "${point.sl ?? ""}" skipped`,
+              { source: acc.path },
+            );
+            continue;
+          }
+          let existing = acc.branches.get(line);
+          if (!existing) {
+            existing = { total: 0, covered: 0 };
+            acc.branches.set(line, existing);
+          }
+          existing.total++;
+          if (visits > 0) {
+            existing.covered++;
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Describe a method by its name, the lines its sequence points span in
+   * the method's own file and its entry count
+   */
+  private buildFunction(
+    method: Record<string, unknown>,
+    sequencePoints: Array<Record<string, string>>,
+    fileRef: string | undefined,
+  ): FunctionCoverage {
+    const ownPoints = sequencePoints.filter(
+      (point) => !point.fileid || point.fileid === fileRef,
+    );
+    const starts = ownPoints
+      .map((point) => Number.parseInt(point.sl || "0", 10))
+      .filter((line) => line > 0);
+    const ends = ownPoints
+      .map((point) => Number.parseInt(point.el || point.sl || "0", 10))
+      .filter((line) => line > 0);
+
+    // <MethodPoint> counts entries; older reports only have the first
+    // sequence point or the visited flag
+    const entry =
+      (method.MethodPoint as Record<string, string> | undefined)?.vc ??
+      ownPoints[0]?.vc;
+    const hits =
+      entry !== undefined
+        ? Number.parseInt(entry, 10) || 0
+        : method.visited === "true"
+          ? 1
+          : 0;
+
+    return {
+      name: typeof method.Name === "string" ? method.Name : "",
+      startLine: starts.length > 0 ? Math.min(...starts) : 0,
+      endLine: ends.length > 0 ? Math.max(...ends) : undefined,
+      hits,
+    };
+  }
+
+  /**
+   * Convert accumulated sequence and branch points to FileCoverage
+   */
+  private buildFileCoverage(acc: OpenCoverFileAccumulator): FileCoverage {
+    const fileName = acc.path.split("/").pop() || acc.path;
+
+    const lines: LineCoverage[] = [];
+    const missingLines: number[] = [];
+    const partialLines: number[] = [];
+    let coveredStatements = 0;
+    let totalBranches = 0;
+    let coveredBranches = 0;
+
+    for (const branch of acc.branches.values()) {
+      totalBranches += branch.total;
+      coveredBranches += branch.covered;
+    }
+
+    for (const [lineNumber, count] of acc.lines.entries()) {
+      const branch = acc.branches.get(lineNumber);
+
+      lines.push({
+        lineNumber,
+        count,
+        type: branch ? "cond" : "stmt",
+        trueCount: branch ? branch.covered : undefined,
+        falseCount: branch ? branch.total - branch.covered : undefined,
+      });
+
+      if (count > 0) {
+        coveredStatements++;
+        if (branch && branch.covered < branch.total) {
+          partialLines.push(lineNumber);
+        }
+      } else {
+        missingLines.push(lineNumber);
+      }
+    }
+
+    // Sort by line number
+    lines.sort((a, b) => a.lineNumber - b.lineNumber);
+    missingLines.sort((a, b) => a - b);
+    partialLines.sort((a, b) => a - b);
+    const functions = [...acc.functions].sort(
+      (a, b) => a.startLine - b.startLine,
+    );
+
+    return {
+      name: fileName,
+      path: acc.path,
+      statements: lines.length,
+      coveredStatements,
+      conditionals: totalBranches,
+      coveredConditionals: coveredBranches,
+      methods: acc.methods,
+      coveredMethods: acc.coveredMethods,
+      lineRate: this.calculateRate(coveredStatements, lines.length),
+      branchRate: this.calculateRate(coveredBranches, totalBranches),
+      lines,
+      missingLines,
+      partialLines,
+      functions,
+    };
+  }
+}
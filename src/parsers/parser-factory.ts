@@ -1,28 +1,313 @@
-import * as fs from "node:fs/promises";
 import type {
   AggregatedCoverageResults,
+  BranchCoverage,
   CoverageResults,
   FileCoverage,
+  FunctionCoverage,
+  LineCoverage,
 } from "../types/coverage.js";
-import type { CoverageFormat, ICoverageParser } from "./base-parser.js";
+import {
+  type CoverageInput,
+  readCoverageFile,
+  readCoverageFileSync,
+} from "../utils/compression.js";
+import type { DiagnosticsCollector } from "../utils/diagnostics.js";
+import { CoverageRegions } from "../utils/regions.js";
+import {
+  type CoverageFormat,
+  DETECTION_CONFIDENCE,
+  type FormatCandidate,
+  type FormatDetection,
+  type ICoverageParser,
+} from "./base-parser.js";
 import { CloverParser } from "./clover-parser.js";
 import { CoberturaParser } from "./cobertura-parser.js";
 import { CodecovParser } from "./codecov-parser.js";
+import { CoveragePyParser } from "./coveragepy-parser.js";
+import { GcovParser } from "./gcov-parser.js";
 import { GoParser } from "./go-parser.js";
 import { IstanbulParser } from "./istanbul-parser.js";
 import { JaCoCoParser } from "./jacoco-parser.js";
 import { LcovParser } from "./lcov-parser.js";
+import { LlvmParser } from "./llvm-parser.js";
+import { OpenCoverParser } from "./opencover-parser.js";
+import { loadParserPlugin } from "./plugin-parser.js";
+import { ScoverageParser } from "./scoverage-parser.js";
+import { SimpleCovParser } from "./simplecov-parser.js";
+import { V8Parser } from "./v8-parser.js";
+import { XccovParser } from "./xccov-parser.js";
 
 const PARSERS: ICoverageParser[] = [
   new CloverParser(),
+  new ScoverageParser(),
   new CoberturaParser(),
+  new OpenCoverParser(),
   new JaCoCoParser(),
   new LcovParser(),
   new IstanbulParser(),
+  new V8Parser(),
   new GoParser(),
-  new CodecovParser(), // Added last to avoid false positives with other JSON formats
+  new SimpleCovParser(),
+  new CoveragePyParser(),
+  new LlvmParser(),
+  new GcovParser(),
+  new XccovParser(),
+  new CodecovParser(),
 ];
 
+/**
+ * Parsers loaded from the repository (`parsers:` in the config)
+ */
+let pluginParsers: ICoverageParser[] = [];
+
+/**
+ * All parsers, plugins first so they are tried ahead of the built-in ones
+ */
+function allParsers(): ICoverageParser[] {
+  return [...pluginParsers, ...PARSERS];
+}
+
+/**
+ * Normalize a file path for matching the same source across reports
+ */
+function normalizeFilePath(filePath: string): string {
+  return filePath
+    .replace(/\\/g, "/")
+    .replace(/\/{2,}/g, "/")
+    .replace(/^(\.\/)+/, "")
+    .replace(/\/(\.\/)+/g, "/");
+}
+
+/**
+ * Calculate percentage rate, rounded to 2 decimals
+ */
+function calculateRate(covered: number, total: number): number {
+  if (total === 0) return 0;
+  return Number.parseFloat(((covered / total) * 100).toFixed(2));
+}
+
+/**
+ * Merge coverage of the same source file from several reports line by line.
+ * Hit counts are summed; a branch arm covered in any report stays covered.
+ */
+function mergeFileCoverage(files: FileCoverage[]): FileCoverage {
+  const merged: Map<
+    number,
+    {
+      line: LineCoverage;
+      coveredBranches: number;
+      totalBranches: number;
+      // Arms by block and branch id; null once a report only counts them
+      arms: Map<string, BranchCoverage> | null;
+      partialInAnyReport: boolean;
+      fullyCoveredInAnyReport: boolean;
+    }
+  > = new Map();
+
+  for (const file of files) {
+    const partialLines = new Set(file.partialLines || []);
+
+    for (const line of file.lines) {
+      const hasBranchData =
+        line.trueCount !== undefined || line.falseCount !== undefined;
+      const covered = line.trueCount ?? 0;
+      const total = covered + (line.falseCount ?? 0);
+      const isPartial = partialLines.has(line.lineNumber);
+
+      const existing = merged.get(line.lineNumber);
+      if (!existing) {
+        const entry = {
+          line: {
+            ...line,
+            contexts: line.contexts ? [...line.contexts] : undefined,
+          },
+          coveredBranches: hasBranchData ? covered : 0,
+          totalBranches: hasBranchData ? total : 0,
+          arms:
+            hasBranchData && !line.branches
+              ? null
+              : new Map<string, BranchCoverage>(),
+          partialInAnyReport: isPartial,
+          fullyCoveredInAnyReport: line.count > 0 && !isPartial,
+        };
+        mergeArms(entry, line.branches);
+        merged.set(line.lineNumber, entry);
+        continue;
+      }
+
+      existing.line.count += line.count;
+      if (line.type === "cond") {
+        existing.line.type = "cond";
+      }
+      // Without arm ids on both sides the same arms are assumed
+      if (hasBranchData) {
+        existing.coveredBranches = Math.max(existing.coveredBranches, covered);
+        existing.totalBranches = Math.max(existing.totalBranches, total);
+        if (!line.branches) existing.arms = null;
+        mergeArms(existing, line.branches);
+      }
+      existing.partialInAnyReport = existing.partialInAnyReport || isPartial;
+      existing.fullyCoveredInAnyReport =
+        existing.fullyCoveredInAnyReport || (line.count > 0 && !isPartial);
+      if (line.contexts) {
+        existing.line.contexts = Array.from(
+          new Set([...(existing.line.contexts || []), ...line.contexts]),
+        );
+      }
+    }
+  }
+
+  // Regions of the same range add up; a hit line touching one that never
+  // ran in any report is partial
+  const regions = CoverageRegions.merge(files.map((f) => f.regions ?? []));
+  const uncoveredRegionLines = CoverageRegions.uncoveredLines(regions);
+  const allHaveRegions = files.every((f) => f.regions && f.regions.length > 0);
+
+  const lines: LineCoverage[] = [];
+  const missingLines: number[] = [];
+  const partialLines: number[] = [];
+  let coveredStatements = 0;
+  let totalBranches = 0;
+  let coveredBranches = 0;
+
+  for (const entry of merged.values()) {
+    const line = entry.line;
+    if (entry.arms && entry.arms.size > 0) {
+      line.branches = Array.from(entry.arms.values()).sort(
+        (a, b) => a.block - b.block || a.branch - b.branch,
+      );
+      entry.totalBranches = line.branches.length;
+      entry.coveredBranches = line.branches.filter(
+        (arm) => arm.taken > 0,
+      ).length;
+    } else if (line.branches) {
+      line.branches = undefined;
+    }
+    if (entry.totalBranches > 0) {
+      line.trueCount = entry.coveredBranches;
+      line.falseCount = entry.totalBranches - entry.coveredBranches;
+      totalBranches += entry.totalBranches;
+      coveredBranches += entry.coveredBranches;
+    }
+    lines.push(line);
+
+    if (line.count === 0) {
+      missingLines.push(line.lineNumber);
+      continue;
+    }
+    coveredStatements++;
+
+    // Partial: some arms or regions never ran, or (without regions in every
+    // report) partial in every report that ran it
+    const regionPartial = uncoveredRegionLines.has(line.lineNumber);
+    const isPartial =
+      entry.totalBranches > 0
+        ? entry.coveredBranches < entry.totalBranches || regionPartial
+        : allHaveRegions
+          ? regionPartial
+          : (entry.partialInAnyReport && !entry.fullyCoveredInAnyReport) ||
+            regionPartial;
+    if (isPartial) {
+      partialLines.push(line.lineNumber);
+    }
+  }
+
+  // Sort by line number
+  lines.sort((a, b) => a.lineNumber - b.lineNumber);
+  missingLines.sort((a, b) => a - b);
+  partialLines.sort((a, b) => a - b);
+
+  // Located functions are merged like lines; bare method counts carry no
+  // locations, so the most complete report wins
+  const functions = mergeFunctions(files);
+  const methods =
+    functions.length > 0
+      ? functions.length
+      : Math.max(...files.map((f) => f.methods));
+  const coveredMethods =
+    functions.length > 0
+      ? functions.filter((fn) => fn.hits > 0).length
+      : Math.max(...files.map((f) => f.coveredMethods));
+
+  return {
+    name: files[0].name,
+    path: normalizeFilePath(files[0].path),
+    statements: lines.length,
+    coveredStatements,
+    conditionals: totalBranches,
+    coveredConditionals: coveredBranches,
+    methods,
+    coveredMethods,
+    lineRate: calculateRate(coveredStatements, lines.length),
+    branchRate: calculateRate(coveredBranches, totalBranches),
+    lines,
+    missingLines,
+    partialLines,
+    functions,
+    regions: regions.length > 0 ? regions : undefined,
+  };
+}
+
+/**
+ * Combine every report of one file. Reports with line data are merged line
+ * by line and win over summary-only ones; without any, the summary with
+ * the most statements is kept.
+ */
+function mergeFileReports(files: FileCoverage[]): FileCoverage {
+  const withLines = files.filter((file) => !file.summaryOnly);
+  if (withLines.length > 1) {
+    return mergeFileCoverage(withLines);
+  }
+  // A file seen once keeps the parser's own metrics
+  const kept =
+    withLines[0] ??
+    files.reduce((best, file) =>
+      file.statements > best.statements ? file : best,
+    );
+  return { ...kept, path: normalizeFilePath(kept.path) };
+}
+
+/**
+ * Add a report's branch arms to a merged line: taken counts of the same arm
+ * add up
+ */
+function mergeArms(
+  entry: { arms: Map<string, BranchCoverage> | null },
+  branches: BranchCoverage[] | undefined,
+): void {
+  if (!entry.arms || !branches) return;
+  for (const arm of branches) {
+    const key = `${arm.block}:${arm.branch}`;
+    const existing = entry.arms.get(key);
+    if (existing) {
+      existing.taken += arm.taken;
+    } else {
+      entry.arms.set(key, { ...arm });
+    }
+  }
+}
+
+/**
+ * Merge the functions of several reports for one file: hits add up for the
+ * same name and start line
+ */
+function mergeFunctions(files: FileCoverage[]): FunctionCoverage[] {
+  const merged: Map<string, FunctionCoverage> = new Map();
+  for (const file of files) {
+    for (const fn of file.functions ?? []) {
+      const key = `${fn.startLine}:${fn.name}`;
+      const existing = merged.get(key);
+      if (!existing) {
+        merged.set(key, { ...fn });
+        continue;
+      }
+      existing.hits += fn.hits;
+      existing.endLine = existing.endLine ?? fn.endLine;
+    }
+  }
+  return Array.from(merged.values()).sort((a, b) => a.startLine - b.startLine);
+}
+
 /**
  * Factory for creating coverage parsers with auto-detection support
  */
@@ -33,7 +318,7 @@ export const CoverageParserFactory = {
    * @returns The parser for the specified format
    */
   getParser(format: CoverageFormat): ICoverageParser {
-    const parser = PARSERS.find((p) => p.format === format);
+    const parser = allParsers().find((p) => p.format === format);
     if (!parser) {
       throw new Error(`Unsupported coverage format: ${format}`);
     }
@@ -44,26 +329,62 @@ export const CoverageParserFactory = {
    * Auto-detect the coverage format and return the appropriate parser
    * @param content The content to analyze
    * @param filePath Optional file path for extension-based hints
-   * @returns The detected parser or null if no match
+   * @returns The detected parser or null if no match (or an ambiguous one)
    */
   detectParser(content: string, filePath?: string): ICoverageParser | null {
-    // Try each parser in order of specificity (content-based detection)
-    for (const parser of PARSERS) {
-      if (parser.canParse(content, filePath)) {
-        return parser;
+    return CoverageParserFactory.detectFormat(content, filePath).parser;
+  },
+
+  /**
+   * Score every parser against the content and pick the most confident one
+   * @param content The content to analyze
+   * @param filePath Optional file path for name-based hints
+   * @returns The best parser with every format that was considered
+   */
+  detectFormat(content: string, filePath?: string): FormatDetection {
+    const candidates: FormatCandidate[] = [];
+    for (const parser of allParsers()) {
+      const result = parser.detect(content, filePath);
+      if (result.confidence > 0) {
+        candidates.push({ format: parser.format, ...result });
       }
     }
 
     // Fallback to path-based detection if content detection fails
-    if (filePath) {
+    if (candidates.length === 0 && filePath) {
       const formatFromPath =
         CoverageParserFactory.detectFormatFromPath(filePath);
       if (formatFromPath) {
-        return CoverageParserFactory.getParser(formatFromPath);
+        candidates.push({
+          format: formatFromPath,
+          confidence: DETECTION_CONFIDENCE.EXTENSION,
+          reason: "file path",
+        });
       }
     }
 
-    return null;
+    // Stable sort keeps registration order among equal scores
+    candidates.sort((a, b) => b.confidence - a.confidence);
+
+    const ambiguous =
+      candidates.length > 1 &&
+      candidates[0].confidence === candidates[1].confidence;
+    const parser =
+      candidates.length > 0 && !ambiguous
+        ? CoverageParserFactory.getParser(candidates[0].format)
+        : null;
+
+    return { parser, candidates, ambiguous };
+  },
+
+  /**
+   * Describe detection candidates for logs and error messages
+   * @returns e.g. "lcov 90% (SF:/DA: records ...), go 20% (.out extension)"
+   */
+  describeCandidates(candidates: FormatCandidate[]): string {
+    return candidates
+      .map((c) => `${c.format} ${c.confidence}% (${c.reason})`)
+      .join(", ");
   },
 
   /**
@@ -72,11 +393,18 @@ export const CoverageParserFactory = {
    * @returns The detected format or null
    */
   detectFormatFromPath(filePath: string): CoverageFormat | null {
-    const lowerPath = filePath.toLowerCase();
+    // lcov.info.gz is named like lcov.info
+    const lowerPath = filePath.toLowerCase().replace(/\.gz$/, "");
 
     if (lowerPath.endsWith("clover.xml")) {
       return "clover";
     }
+    if (lowerPath.includes("scoverage")) {
+      return "scoverage";
+    }
+    if (lowerPath.includes("opencover")) {
+      return "opencover";
+    }
     if (
       lowerPath.endsWith("cobertura.xml") ||
       lowerPath.includes("cobertura")
@@ -95,6 +423,9 @@ export const CoverageParserFactory = {
     ) {
       return "istanbul";
     }
+    if (/(^|\/)coverage-\d+-\d+-\d+\.json$/.test(lowerPath)) {
+      return "v8";
+    }
     if (
       lowerPath.endsWith("coverage.out") ||
       lowerPath.endsWith("cover.out") ||
@@ -105,6 +436,21 @@ export const CoverageParserFactory = {
     if (lowerPath.endsWith("codecov.json")) {
       return "codecov";
     }
+    if (lowerPath.endsWith(".gcov.json") || lowerPath.includes("gcovr")) {
+      return "gcov";
+    }
+    if (lowerPath.includes("xccov")) {
+      return "xccov";
+    }
+    if (lowerPath.endsWith(".resultset.json")) {
+      return "simplecov";
+    }
+    if (lowerPath.endsWith("coverage.json")) {
+      return "coveragepy";
+    }
+    if (lowerPath.endsWith("llvm-cov.json")) {
+      return "llvm";
+    }
 
     return null;
   },
@@ -113,14 +459,21 @@ export const CoverageParserFactory = {
    * Parse a coverage file with auto-detection or explicit format
    * @param filePath Path to the coverage file
    * @param format Optional explicit format (uses auto-detection if not provided or 'auto')
+   * @param diagnostics Optional collector for skipped or suspect records
    * @returns Parsed coverage results
    */
   async parseFile(
     filePath: string,
-    format?: CoverageFormat | "auto"
+    format?: CoverageFormat | "auto",
+    diagnostics?: DiagnosticsCollector,
   ): Promise<CoverageResults> {
-    const content = await fs.readFile(filePath, "utf-8");
-    return CoverageParserFactory.parseContent(content, filePath, format);
+    const content = await readCoverageFile(filePath);
+    return CoverageParserFactory.parseContent(
+      content,
+      filePath,
+      format,
+      diagnostics,
+    );
   },
 
   /**
@@ -128,25 +481,58 @@ export const CoverageParserFactory = {
    * @param content The coverage content to parse
    * @param filePath Optional file path for detection hints
    * @param format Optional explicit format (uses auto-detection if not provided or 'auto')
+   * @param diagnostics Optional collector for skipped or suspect records
    * @returns Parsed coverage results
    */
   async parseContent(
     content: string,
     filePath?: string,
-    format?: CoverageFormat | "auto"
+    format?: CoverageFormat | "auto",
+    diagnostics?: DiagnosticsCollector,
   ): Promise<CoverageResults> {
-    let parser: ICoverageParser | null = null;
-
     // Use explicit format if provided and not 'auto'
     if (format && format !== "auto") {
-      parser = CoverageParserFactory.getParser(format);
-    } else {
-      // Auto-detect
-      parser = CoverageParserFactory.detectParser(content, filePath);
+      const parser = CoverageParserFactory.getParser(format);
+      try {
+        return await parser.parseContent(content, diagnostics);
+      } catch (error) {
+        // Point at the format the content actually looks like
+        const [best] = CoverageParserFactory.detectFormat(
+          content,
+          filePath,
+        ).candidates;
+        if (
+          error instanceof Error &&
+          best &&
+          best.format !== format &&
+          best.confidence >= DETECTION_CONFIDENCE.WEAK_CONTENT
+        ) {
+          throw new Error(
+            `${error.message}. The content looks like ${best.format} (${best.reason}); ` +
+              `try coverage-format: ${best.format} or auto`,
+          );
+        }
+        throw error;
+      }
+    }
+
+    // Auto-detect
+    const detection = CoverageParserFactory.detectFormat(content, filePath);
+    const hint = filePath ? ` for file: ${filePath}` : "";
+
+    if (detection.ambiguous) {
+      const tied = detection.candidates.filter(
+        (c) => c.confidence === detection.candidates[0].confidence,
+      );
+      throw new Error(
+        `Ambiguous coverage format${hint}. ` +
+          `Matches equally: ${CoverageParserFactory.describeCandidates(tied)}. ` +
+          "Please specify format explicitly.",
+      );
     }
 
+    const parser = detection.parser;
     if (!parser) {
-      const hint = filePath ? ` for file: ${filePath}` : "";
       throw new Error(
         `Unable to detect coverage format${hint}. ` +
           "Please specify format explicitly or ensure the file is in a supported format. " +
@@ -156,20 +542,106 @@ export const CoverageParserFactory = {
       );
     }
 
-    return parser.parseContent(content);
+    return parser.parseContent(content, diagnostics);
+  },
+
+  /**
+   * Parse a report read by readCoverageInputs. Large reports are streamed
+   * when their format has a streaming parser, and read whole otherwise.
+   * @param input The report
+   * @param format Optional explicit format (uses auto-detection if not provided or 'auto')
+   * @param diagnostics Optional collector for skipped or suspect records
+   * @returns Parsed coverage results
+   */
+  async parseInput(
+    input: CoverageInput,
+    format?: CoverageFormat | "auto",
+    diagnostics?: DiagnosticsCollector,
+  ): Promise<CoverageResults> {
+    if (input.content === null) {
+      const parser =
+        format && format !== "auto"
+          ? CoverageParserFactory.getParser(format)
+          : CoverageParserFactory.detectFormat(input.head, input.label).parser;
+      if (parser?.parseStream) {
+        return parser.parseStream(input.stream(), diagnostics);
+      }
+    }
+
+    return CoverageParserFactory.parseContent(
+      input.content ?? readCoverageFileSync(input.filePath),
+      input.label,
+      format,
+      diagnostics,
+    );
   },
 
   /**
    * Get list of supported format names
    */
   getSupportedFormats(): CoverageFormat[] {
-    return PARSERS.map((p) => p.format);
+    return allParsers().map((p) => p.format);
   },
 
   /**
-   * Aggregate multiple coverage results into a single result
+   * Load parser plugins from the workspace, replacing any loaded before
+   * @param modulePaths ES module paths relative to the workspace
+   * @param workspace Checkout root
+   * @returns The formats registered and the plugins that failed to load
+   */
+  async loadPlugins(
+    modulePaths: string[],
+    workspace: string,
+  ): Promise<{ formats: CoverageFormat[]; errors: string[] }> {
+    const loaded: ICoverageParser[] = [];
+    const errors: string[] = [];
+
+    for (const modulePath of modulePaths) {
+      try {
+        const parser = await loadParserPlugin(modulePath, workspace);
+        if (
+          PARSERS.some((p) => p.format === parser.format) ||
+          loaded.some((p) => p.format === parser.format)
+        ) {
+          throw new Error(
+            `Parser plugin ${modulePath} uses format "${parser.format}", which is already registered`,
+          );
+        }
+        loaded.push(parser);
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    pluginParsers = loaded;
+    return { formats: loaded.map((p) => p.format), errors };
+  },
+
+  /**
+   * Aggregate multiple coverage results into a single result.
+   * Files reported by several results (e.g. unit and integration runs) are
+   * merged line by line, and project totals are computed from the merged files.
    */
   aggregateResults(results: CoverageResults[]): AggregatedCoverageResults {
+    // Group files by normalized path, keeping first-seen order
+    const filesByPath: Map<string, FileCoverage[]> = new Map();
+    for (const result of results) {
+      for (const file of result.files) {
+        const key = normalizeFilePath(file.path);
+        let group = filesByPath.get(key);
+        if (!group) {
+          group = [];
+          filesByPath.set(key, group);
+        }
+        group.push(file);
+      }
+    }
+
+    const allFiles: FileCoverage[] = [];
+    for (const files of filesByPath.values()) {
+      allFiles.push(mergeFileReports(files));
+    }
+
     let totalStatements = 0;
     let coveredStatements = 0;
     let totalConditionals = 0;
@@ -184,52 +656,35 @@ export const CoverageParserFactory = {
     let totalBranches = 0;
     let totalLines = 0;
 
-    const allFiles: FileCoverage[] = [];
+    for (const file of allFiles) {
+      totalStatements += file.statements;
+      coveredStatements += file.coveredStatements;
+      totalConditionals += file.conditionals;
+      coveredConditionals += file.coveredConditionals;
+      totalMethods += file.methods;
+      coveredMethods += file.coveredMethods;
 
-    for (const result of results) {
-      totalStatements += result.metrics.statements;
-      coveredStatements += result.metrics.coveredStatements;
-      totalConditionals += result.metrics.conditionals;
-      coveredConditionals += result.metrics.coveredConditionals;
-      totalMethods += result.metrics.methods;
-      coveredMethods += result.metrics.coveredMethods;
-
-      // Aggregate file-level detailed metrics
-      for (const file of result.files) {
-        allFiles.push(file);
-
-        // Count hits and misses from line data
-        for (const line of file.lines) {
-          totalLines++;
-          if (line.count > 0) {
-            totalHits++;
-          } else {
-            totalMisses++;
-          }
-        }
-
-        // Count partials from file's partialLines
-        if (file.partialLines) {
-          totalPartials += file.partialLines.length;
+      // Count hits and misses from line data
+      for (const line of file.lines) {
+        totalLines++;
+        if (line.count > 0) {
+          totalHits++;
+        } else {
+          totalMisses++;
         }
+      }
 
-        // Count branches
-        totalBranches += file.conditionals;
+      // Count partials from file's partialLines
+      if (file.partialLines) {
+        totalPartials += file.partialLines.length;
       }
+
+      // Count branches
+      totalBranches += file.conditionals;
     }
 
-    const lineRate =
-      totalStatements > 0
-        ? Number.parseFloat(
-            ((coveredStatements / totalStatements) * 100).toFixed(2)
-          )
-        : 0;
-    const branchRate =
-      totalConditionals > 0
-        ? Number.parseFloat(
-            ((coveredConditionals / totalConditionals) * 100).toFixed(2)
-          )
-        : 0;
+    const lineRate = calculateRate(coveredStatements, totalStatements);
+    const branchRate = calculateRate(coveredConditionals, totalConditionals);
 
     return {
       totalStatements,
@@ -255,11 +710,26 @@ export const CoverageParserFactory = {
 /**
  * Re-export for convenience
  */
-export type { CoverageFormat, ICoverageParser } from "./base-parser.js";
+export type {
+  BuiltInCoverageFormat,
+  CoverageFormat,
+  DetectionResult,
+  FormatCandidate,
+  FormatDetection,
+  ICoverageParser,
+} from "./base-parser.js";
 export { CloverParser } from "./clover-parser.js";
 export { CoberturaParser } from "./cobertura-parser.js";
 export { CodecovParser } from "./codecov-parser.js";
+export { CoveragePyParser } from "./coveragepy-parser.js";
+export { GcovParser } from "./gcov-parser.js";
 export { GoParser } from "./go-parser.js";
 export { IstanbulParser } from "./istanbul-parser.js";
 export { JaCoCoParser } from "./jacoco-parser.js";
 export { LcovParser } from "./lcov-parser.js";
+export { LlvmParser } from "./llvm-parser.js";
+export { OpenCoverParser } from "./opencover-parser.js";
+export { ScoverageParser } from "./scoverage-parser.js";
+export { SimpleCovParser } from "./simplecov-parser.js";
+export { V8Parser } from "./v8-parser.js";
+export { XccovParser } from "./xccov-parser.js";
@@ -0,0 +1,185 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { pathToFileURL } from "node:url";
+import type { CoverageResults } from "../types/coverage.js";
+import { readCoverageFile } from "../utils/compression.js";
+import type { DiagnosticsCollector } from "../utils/diagnostics.js";
+import {
+  type CoverageFormat,
+  DETECTION_CONFIDENCE,
+  type DetectionResult,
+  type ICoverageParser,
+} from "./base-parser.js";
+
+/**
+ * Shape a plugin module must provide. Only `format` and `parseContent` are
+ * required; `detect` or `canParse` make the format auto-detectable.
+ */
+interface ParserPluginExport {
+  format: string;
+  parseContent(
+    content: string,
+    diagnostics?: DiagnosticsCollector,
+  ): Promise<CoverageResults> | CoverageResults;
+  detect?(content: string, filePath?: string): DetectionResult;
+  canParse?(content: string, filePath?: string): boolean;
+  parseFile?(
+    filePath: string,
+    diagnostics?: DiagnosticsCollector,
+  ): Promise<CoverageResults>;
+}
+
+/**
+ * Plugin format names: a lowercase identifier, e.g. "cobol" or "lua-profiler"
+ */
+const FORMAT_NAME_PATTERN = /^[a-z][a-z0-9_-]*$/;
+
+/**
+ * Pick the parser object from a plugin module's exports.
+ * Accepts a default or `parser` export that is a parser object or a class.
+ */
+function findParserExport(moduleExports: Record<string, unknown>): unknown {
+  const candidate = moduleExports.default ?? moduleExports.parser;
+  if (typeof candidate === "function") {
+    return new (candidate as new () => unknown)();
+  }
+  return candidate;
+}
+
+/**
+ * Check that a plugin export implements the parser contract
+ * @returns A description of the problem, or null when valid
+ */
+function validateParserExport(value: unknown): string | null {
+  if (!value || typeof value !== "object") {
+    return "expected a default or `parser` export implementing ICoverageParser";
+  }
+  const parser = value as Record<string, unknown>;
+  if (typeof parser.format !== "string" || !parser.format) {
+    return "missing string `format`";
+  }
+  if (!FORMAT_NAME_PATTERN.test(parser.format) || parser.format === "auto") {
+    return `invalid format name "${parser.format}" (use lowercase letters, digits, "-" and "_")`;
+  }
+  if (typeof parser.parseContent !== "function") {
+    return "missing `parseContent(content)` method";
+  }
+  for (const method of ["detect", "canParse", "parseFile"]) {
+    if (parser[method] !== undefined && typeof parser[method] !== "function") {
+      return `\`${method}\` must be a method`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Adapts a parser loaded from a repository module to ICoverageParser.
+ * Detection errors count as "no match"; parse errors propagate like those
+ * of built-in parsers.
+ */
+class PluginParser implements ICoverageParser {
+  readonly format: CoverageFormat;
+
+  constructor(
+    private readonly plugin: ParserPluginExport,
+    readonly modulePath: string,
+  ) {
+    this.format = plugin.format;
+  }
+
+  async parseFile(
+    filePath: string,
+    diagnostics?: DiagnosticsCollector,
+  ): Promise<CoverageResults> {
+    if (this.plugin.parseFile) {
+      return this.plugin.parseFile(filePath, diagnostics);
+    }
+    return this.parseContent(await readCoverageFile(filePath), diagnostics);
+  }
+
+  async parseContent(
+    content: string,
+    diagnostics?: DiagnosticsCollector,
+  ): Promise<CoverageResults> {
+    const results = await this.plugin.parseContent(content, diagnostics);
+    if (!results || !Array.isArray(results.files) || !results.metrics) {
+      throw new Error(
+        `Invalid result from parser plugin ${this.modulePath}: expected { timestamp, metrics, files }`,
+      );
+    }
+    return results;
+  }
+
+  detect(content: string, filePath?: string): DetectionResult {
+    try {
+      if (this.plugin.detect) {
+        const result = this.plugin.detect(content, filePath);
+        const confidence = Number(result?.confidence) || 0;
+        return {
+          confidence: Math.max(0, Math.min(100, confidence)),
+          reason: String(result?.reason ?? "plugin detect"),
+        };
+      }
+      // A yes from canParse is treated like a content match
+      const matches = this.plugin.canParse?.(content, filePath) === true;
+      return {
+        confidence: matches
+          ? DETECTION_CONFIDENCE.CONTENT
+          : DETECTION_CONFIDENCE.NONE,
+        reason: "plugin canParse",
+      };
+    } catch (error) {
+      return {
+        confidence: DETECTION_CONFIDENCE.NONE,
+        reason: `plugin detection failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      };
+    }
+  }
+
+  canParse(content: string, filePath?: string): boolean {
+    return this.detect(content, filePath).confidence > 0;
+  }
+}
+
+/**
+ * Load a coverage parser plugin (an ES module) from the workspace
+ * @param modulePath Module path relative to the workspace
+ * @param workspace Checkout root; plugins outside it are rejected
+ * @returns The validated parser
+ */
+export async function loadParserPlugin(
+  modulePath: string,
+  workspace: string,
+): Promise<ICoverageParser> {
+  const root = path.resolve(workspace);
+  const resolved = path.resolve(root, modulePath);
+  if (resolved !== root && !resolved.startsWith(`${root}${path.sep}`)) {
+    throw new Error(
+      `Parser plugin ${modulePath} must be inside the workspace (${root})`,
+    );
+  }
+  if (!fs.existsSync(resolved)) {
+    throw new Error(`Parser plugin ${modulePath} not found`);
+  }
+
+  let moduleExports: Record<string, unknown>;
+  try {
+    moduleExports = await import(pathToFileURL(resolved).href);
+  } catch (error) {
+    throw new Error(
+      `Failed to load parser plugin ${modulePath}: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    );
+  }
+
+  const parser = findParserExport(moduleExports);
+  const problem = validateParserExport(parser);
+  if (problem) {
+    throw new Error(`Invalid parser plugin ${modulePath}: ${problem}`);
+  }
+
+  return new PluginParser(parser as ParserPluginExport, modulePath);
+}
@@ -0,0 +1,323 @@
+import { parseStringPromise } from "xml2js";
+import type {
+  CoverageMetrics,
+  CoverageResults,
+  FileCoverage,
+  FunctionCoverage,
+  LineCoverage,
+} from "../types/coverage.js";
+import type { DiagnosticsCollector } from "../utils/diagnostics.js";
+import {
+  BaseCoverageParser,
+  type CoverageFormat,
+  DETECTION_CONFIDENCE,
+  type DetectionResult,
+} from "./base-parser.js";
+
+/**
+ * Per-line accumulator; a line usually holds several statements
+ */
+interface ScoverageLineAccumulator {
+  count: number;
+  statements: number;
+  coveredStatements: number;
+  branches: number;
+  coveredBranches: number;
+}
+
+/**
+ * Per-file accumulator keyed by the statement's source path
+ */
+interface ScoverageFileAccumulator {
+  path: string;
+  lines: Map<number, ScoverageLineAccumulator>;
+  methods: Map<string, FunctionCoverage>;
+}
+
+/**
+ * Parser for Scoverage XML coverage format
+ * Generated by: sbt-scoverage, scoverage-maven-plugin (Scala)
+ *
+ * Format structure:
+ * <scoverage statement-count="..." statements-invoked="..." statement-rate="..." branch-rate="..." timestamp="...">
+ *   <packages>
+ *     <package name="com.example" ...>
+ *       <classes>
+ *         <class name="com.example.Calculator" filename="com/example/Calculator.scala" ...>
+ *           <methods>
+ *             <method name="com.example/Calculator/add" ...>
+ *               <statements>
+ *                 <statement source="/src/main/scala/com/example/Calculator.scala"
+ *                   package="com.example" class="Calculator" method="add"
+ *                   start="120" end="125" line="5" branch="false"
+ *                   invocation-count="3" ignored="false" />
+ *               </statements>
+ *             </method>
+ *           </methods>
+ *         </class>
+ *       </classes>
+ *     </package>
+ *   </packages>
+ * </scoverage>
+ */
+export class ScoverageParser extends BaseCoverageParser {
+  readonly format: CoverageFormat = "scoverage";
+
+  /**
+   * Score how likely content is Scoverage XML format
+   * Scoverage has a <scoverage> root with <statement> elements
+   */
+  detect(content: string, filePath?: string): DetectionResult {
+    // Check file extension
+    if (filePath && this.getFileExtension(filePath) !== "xml") {
+      return this.detected(DETECTION_CONFIDENCE.NONE, "not an .xml file");
+    }
+
+    return content.includes("<scoverage") && content.includes("<statement")
+      ? this.detected(
+          DETECTION_CONFIDENCE.CONTENT,
+          "<scoverage> root with <statement> elements",
+        )
+      : this.detected(DETECTION_CONFIDENCE.NONE, "no <scoverage>");
+  }
+
+  /**
+   * Parse Scoverage XML content
+   */
+  async parseContent(
+    content: string,
+    diagnostics?: DiagnosticsCollector,
+  ): Promise<CoverageResults> {
+    const result = await parseStringPromise(content, {
+      explicitArray: false,
+      mergeAttrs: true,
+    });
+
+    if (!result.scoverage) {
+      throw new Error("Invalid Scoverage XML: missing scoverage element");
+    }
+
+    const root = result.scoverage;
+    const accumulators: Map<string, ScoverageFileAccumulator> = new Map();
+
+    const packages = this.ensureArray(root.packages?.package) as Array<
+      Record<string, unknown>
+    >;
+    for (const pkg of packages) {
+      const classes = this.ensureArray(
+        (pkg.classes as Record<string, unknown>)?.class,
+      ) as Array<Record<string, unknown>>;
+
+      for (const cls of classes) {
+        const methods = this.ensureArray(
+          (cls.methods as Record<string, unknown>)?.method,
+        ) as Array<Record<string, unknown>>;
+
+        for (const method of methods) {
+          const statements = this.ensureArray(
+            (method.statements as Record<string, unknown>)?.statement,
+          ) as Array<Record<string, string>>;
+
+          for (const statement of statements) {
+            this.addStatement(statement, accumulators, diagnostics);
+          }
+        }
+      }
+    }
+
+    const files: FileCoverage[] = [];
+    let totalStatements = 0;
+    let coveredStatements = 0;
+    let totalConditionals = 0;
+    let coveredConditionals = 0;
+    let totalMethods = 0;
+    let coveredMethods = 0;
+
+    for (const acc of accumulators.values()) {
+      const fileResult = this.buildFileCoverage(acc);
+      files.push(fileResult);
+
+      totalStatements += fileResult.statements;
+      coveredStatements += fileResult.coveredStatements;
+      totalConditionals += fileResult.conditionals;
+      coveredConditionals += fileResult.coveredConditionals;
+      totalMethods += fileResult.methods;
+      coveredMethods += fileResult.coveredMethods;
+    }
+
+    const metrics: CoverageMetrics = {
+      statements: totalStatements,
+      coveredStatements,
+      conditionals: totalConditionals,
+      coveredConditionals,
+      methods: totalMethods,
+      coveredMethods,
+      elements: totalStatements + totalConditionals,
+      coveredElements: coveredStatements + coveredConditionals,
+      lineRate: this.calculateRate(coveredStatements, totalStatements),
+      branchRate: this.calculateRate(coveredConditionals, totalConditionals),
+    };
+
+    const timestamp = Number.parseInt(root.timestamp || "", 10);
+
+    return {
+      timestamp: Number.isNaN(timestamp) ? Date.now() : timestamp,
+      metrics,
+      files,
+    };
+  }
+
+  /**
+   * Add a single <statement> to the accumulator of its source file
+   */
+  private addStatement(
+    statement: Record<string, string>,
+    accumulators: Map<string, ScoverageFileAccumulator>,
+    diagnostics?: DiagnosticsCollector,
+  ): void {
+    // Statements excluded via $COVERAGE-OFF$ or coverageExcludedPackages
+    if (statement.ignored === "true") return;
+
+    const source = statement.source?.replace(/\\/g, "/");
+    const lineNumber = Number.parseInt(statement.line || "0", 10);
+    if (!source) {
+      diagnostics?.warning("<statement> without a source skipped");
+      return;
+    }
+    if (!(lineNumber > 0)) {
+      diagnostics?.warning(
+        `<statement> with invalid line "${statement.line ?? ""}" skipped`,
+        { source },
+      );
+      return;
+    }
+
+    let acc = accumulators.get(source);
+    if (!acc) {
+      acc = {
+        path: source,
+        lines: new Map(),
+        methods: new Map(),
+      };
+      accumulators.set(source, acc);
+    }
+
+    let line = acc.lines.get(lineNumber);
+    if (!line) {
+      line = {
+        count: 0,
+        statements: 0,
+        coveredStatements: 0,
+        branches: 0,
+        coveredBranches: 0,
+      };
+      acc.lines.set(lineNumber, line);
+    }
+    const invocationCount = statement["invocation-count"] || "0";
+    const invocations = Number.parseInt(invocationCount, 10) || 0;
+    if (!/^\d+$/.test(invocationCount)) {
+      diagnostics?.warning(
+        `Invalid invocation-count "${invocationCount}" on line ${lineNumber}`,
+        { source },
+      );
+    }
+
+    line.count = Math.max(line.count, invocations);
+    line.statements++;
+    if (invocations > 0) {
+      line.coveredStatements++;
+    }
+    if (statement.branch === "true") {
+      line.branches++;
+      if (invocations > 0) {
+        line.coveredBranches++;
+      }
+    }
+
+    // A method spans its statements' lines and is as hit as its busiest
+    // statement
+    if (statement.method) {
+      const name = statement.class
+        ? `${statement.class}.${statement.method}`
+        : statement.method;
+      const method = acc.methods.get(name);
+      if (method) {
+        method.startLine = Math.min(method.startLine, lineNumber);
+        method.endLine = Math.max(method.endLine ?? lineNumber, lineNumber);
+        method.hits = Math.max(method.hits, invocations);
+      } else {
+        acc.methods.set(name, {
+          name,
+          startLine: lineNumber,
+          endLine: lineNumber,
+          hits: invocations,
+        });
+      }
+    }
+  }
+
+  /**
+   * Convert accumulated statements to FileCoverage
+   */
+  private buildFileCoverage(acc: ScoverageFileAccumulator): FileCoverage {
+    const fileName = acc.path.split("/").pop() || acc.path;
+
+    const lines: LineCoverage[] = [];
+    const missingLines: number[] = [];
+    const partialLines: number[] = [];
+    let coveredStatements = 0;
+    let totalBranches = 0;
+    let coveredBranches = 0;
+
+    for (const [lineNumber, line] of acc.lines.entries()) {
+      totalBranches += line.branches;
+      coveredBranches += line.coveredBranches;
+
+      lines.push({
+        lineNumber,
+        count: line.count,
+        type: line.branches > 0 ? "cond" : "stmt",
+        trueCount: line.branches > 0 ? line.coveredBranches : undefined,
+        falseCount:
+          line.branches > 0 ? line.branches - line.coveredBranches : undefined,
+      });
+
+      if (line.count > 0) {
+        coveredStatements++;
+        // Partial: some statements on the line never ran
+        if (line.coveredStatements < line.statements) {
+          partialLines.push(lineNumber);
+        }
+      } else {
+        missingLines.push(lineNumber);
+      }
+    }
+
+    // Sort by line number
+    lines.sort((a, b) => a.lineNumber - b.lineNumber);
+    missingLines.sort((a, b) => a - b);
+    partialLines.sort((a, b) => a - b);
+
+    const functions = [...acc.methods.values()].sort(
+      (a, b) => a.startLine - b.startLine,
+    );
+    const coveredMethods = functions.filter((fn) => fn.hits > 0).length;
+
+    return {
+      name: fileName,
+      path: acc.path,
+      statements: lines.length,
+      coveredStatements,
+      conditionals: totalBranches,
+      coveredConditionals: coveredBranches,
+      methods: functions.length,
+      coveredMethods,
+      lineRate: this.calculateRate(coveredStatements, lines.length),
+      branchRate: this.calculateRate(coveredBranches, totalBranches),
+      lines,
+      missingLines,
+      partialLines,
+      functions,
+    };
+  }
+}
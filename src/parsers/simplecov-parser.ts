@@ -0,0 +1,468 @@
+import type {
+  CoverageMetrics,
+  CoverageResults,
+  FileCoverage,
+  FunctionCoverage,
+  LineCoverage,
+} from "../types/coverage.js";
+import type { DiagnosticsCollector } from "../utils/diagnostics.js";
+import {
+  BaseCoverageParser,
+  type CoverageFormat,
+  DETECTION_CONFIDENCE,
+  type DetectionResult,
+} from "./base-parser.js";
+
+/**
+ * SimpleCov resultset JSON format types
+ * Line arrays are 0-indexed: index 0 holds the hit count for line 1.
+ * null marks a line that is not relevant (comments, blank lines, nocov).
+ */
+type SimpleCovLines = Array<number | string | null>;
+
+/**
+ * Branch data keyed by the inspected condition tuple, e.g. "[:if, 0, 3, 4, 3, 20]",
+ * mapping each arm tuple, e.g. "[:then, 1, 4, 6, 4, 10]", to its hit count
+ */
+interface SimpleCovBranches {
+  [condition: string]: { [branch: string]: number };
+}
+
+/**
+ * Method hit counts keyed by the method tuple
+ * "[ClassName, :method_name, startLine, startColumn, endLine, endColumn]"
+ */
+interface SimpleCovMethods {
+  [method: string]: number;
+}
+
+type SimpleCovFileCoverage =
+  | SimpleCovLines
+  | {
+      lines?: SimpleCovLines;
+      branches?: SimpleCovBranches;
+      methods?: SimpleCovMethods;
+    };
+
+interface SimpleCovCommandResult {
+  coverage: { [filePath: string]: SimpleCovFileCoverage };
+  timestamp?: number;
+}
+
+type SimpleCovResultSet = {
+  [commandName: string]: SimpleCovCommandResult;
+};
+
+/**
+ * Parser for SimpleCov resultset format (coverage/.resultset.json)
+ * Used by: SimpleCov (Ruby, Rails)
+ *
+ * Format structure (legacy, SimpleCov < 0.18):
+ * {
+ *   "RSpec": {
+ *     "coverage": { "/app/models/user.rb": [null, 1, 0, 3] },
+ *     "timestamp": 1700000000
+ *   }
+ * }
+ *
+ * Format structure (SimpleCov >= 0.18, with branch coverage):
+ * {
+ *   "RSpec": {
+ *     "coverage": {
+ *       "/app/models/user.rb": {
+ *         "lines": [null, 1, 0, 3],
+ *         "branches": {
+ *           "[:if, 0, 3, 4, 5, 7]": { "[:then, 1, 4, 6, 4, 10]": 1, "[:else, 2, 6, 6, 6, 10]": 0 }
+ *         },
+ *         "methods": { "[User, :admin?, 3, 2, 7, 5]": 1 }
+ *       }
+ *     },
+ *     "timestamp": 1700000000
+ *   },
+ *   "Minitest": { ... }
+ * }
+ *
+ * "methods" is present when method coverage is enabled.
+ * Multiple command names (e.g. RSpec and Minitest) in one resultset are merged
+ * by summing hit counts per line, per branch and per method.
+ */
+export class SimpleCovParser extends BaseCoverageParser {
+  readonly format: CoverageFormat = "simplecov";
+
+  /**
+   * Score how likely content is SimpleCov resultset format
+   */
+  detect(content: string, filePath?: string): DetectionResult {
+    let nameMatches = false;
+    if (filePath) {
+      nameMatches =
+        this.getFileNameForMatching(filePath).endsWith(".resultset.json");
+      if (!nameMatches && this.getFileExtension(filePath) !== "json") {
+        return this.detected(DETECTION_CONFIDENCE.NONE, "not a .json file");
+      }
+    }
+
+    return this.withFileName(nameMatches, this.detectContent(content));
+  }
+
+  /**
+   * Inspect content alone: every top-level value is a command result with a
+   * "coverage" object (Codecov JSON has "coverage" at the top level)
+   */
+  private detectContent(content: string): DetectionResult {
+    const noMatch = this.detected(
+      DETECTION_CONFIDENCE.NONE,
+      'no command results with "coverage" and "timestamp"',
+    );
+
+    try {
+      const data = JSON.parse(content);
+      if (!data || typeof data !== "object" || Array.isArray(data)) {
+        return noMatch;
+      }
+
+      const commands = Object.values(data);
+      if (commands.length === 0) {
+        return noMatch;
+      }
+
+      const isResultset = commands.every((command) => {
+        if (!command || typeof command !== "object") return false;
+        const coverage = (command as Record<string, unknown>).coverage;
+        return (
+          typeof coverage === "object" &&
+          coverage !== null &&
+          !Array.isArray(coverage) &&
+          "timestamp" in (command as Record<string, unknown>)
+        );
+      });
+      return isResultset
+        ? this.detected(
+            DETECTION_CONFIDENCE.CONTENT,
+            'command results with "coverage" and "timestamp"',
+          )
+        : noMatch;
+    } catch {
+      return this.detected(DETECTION_CONFIDENCE.NONE, "not valid JSON");
+    }
+  }
+
+  /**
+   * Parse SimpleCov resultset content
+   */
+  async parseContent(
+    content: string,
+    diagnostics?: DiagnosticsCollector,
+  ): Promise<CoverageResults> {
+    let data: SimpleCovResultSet;
+
+    try {
+      data = JSON.parse(content);
+    } catch (error) {
+      throw new Error(
+        `Invalid SimpleCov JSON: ${error instanceof Error ? error.message : "parse error"}`,
+      );
+    }
+
+    if (!data || typeof data !== "object") {
+      throw new Error("Invalid SimpleCov JSON: expected a resultset object");
+    }
+
+    // Merge all command names into per-file line and branch hit counts
+    const mergedLines: Map<string, Map<number, number>> = new Map();
+    const mergedBranches: Map<
+      string,
+      Map<string, Map<string, number>>
+    > = new Map();
+    const mergedMethods: Map<string, Map<string, number>> = new Map();
+    let timestamp = 0;
+
+    for (const [commandName, command] of Object.entries(data)) {
+      if (!command?.coverage || typeof command.coverage !== "object") {
+        diagnostics?.warning(
+          `Command "${commandName}" has no coverage object; skipped`,
+        );
+        continue;
+      }
+      if (typeof command.timestamp === "number") {
+        timestamp = Math.max(timestamp, command.timestamp * 1000);
+      }
+
+      for (const [filePath, fileCoverage] of Object.entries(command.coverage)) {
+        const { lines, branches, methods } =
+          this.normalizeFileCoverage(fileCoverage);
+        if (!Array.isArray(lines)) {
+          diagnostics?.warning(`"${filePath}" has no line array; skipped`);
+          continue;
+        }
+
+        let lineMap = mergedLines.get(filePath);
+        if (!lineMap) {
+          lineMap = new Map();
+          mergedLines.set(filePath, lineMap);
+        }
+
+        lines.forEach((hits, index) => {
+          const lineNumber = index + 1;
+          // "ignored" marks nocov lines in newer SimpleCov versions
+          if (typeof hits !== "number") {
+            if (hits !== null && hits !== "ignored") {
+              diagnostics?.warning(
+                `Invalid hit count "${String(hits)}" on line ${lineNumber} skipped`,
+                { source: filePath },
+              );
+            }
+            return;
+          }
+          lineMap.set(lineNumber, (lineMap.get(lineNumber) || 0) + hits);
+        });
+
+        if (methods) {
+          let methodMap = mergedMethods.get(filePath);
+          if (!methodMap) {
+            methodMap = new Map();
+            mergedMethods.set(filePath, methodMap);
+          }
+          for (const [method, hits] of Object.entries(methods)) {
+            methodMap.set(
+              method,
+              (methodMap.get(method) || 0) + (Number(hits) || 0),
+            );
+          }
+        }
+
+        if (!branches) continue;
+
+        let conditionMap = mergedBranches.get(filePath);
+        if (!conditionMap) {
+          conditionMap = new Map();
+          mergedBranches.set(filePath, conditionMap);
+        }
+
+        for (const [condition, arms] of Object.entries(branches)) {
+          let armMap = conditionMap.get(condition);
+          if (!armMap) {
+            armMap = new Map();
+            conditionMap.set(condition, armMap);
+          }
+          for (const [arm, hits] of Object.entries(arms || {})) {
+            armMap.set(arm, (armMap.get(arm) || 0) + (Number(hits) || 0));
+          }
+        }
+      }
+    }
+
+    const files: FileCoverage[] = [];
+    let totalStatements = 0;
+    let coveredStatements = 0;
+    let totalConditionals = 0;
+    let coveredConditionals = 0;
+    let totalMethods = 0;
+    let coveredMethods = 0;
+
+    for (const [filePath, lineMap] of mergedLines.entries()) {
+      const fileResult = this.buildFileCoverage(
+        filePath,
+        lineMap,
+        mergedBranches.get(filePath),
+        mergedMethods.get(filePath),
+        diagnostics,
+      );
+      files.push(fileResult);
+
+      totalStatements += fileResult.statements;
+      coveredStatements += fileResult.coveredStatements;
+      totalConditionals += fileResult.conditionals;
+      coveredConditionals += fileResult.coveredConditionals;
+      totalMethods += fileResult.methods;
+      coveredMethods += fileResult.coveredMethods;
+    }
+
+    const metrics: CoverageMetrics = {
+      statements: totalStatements,
+      coveredStatements,
+      conditionals: totalConditionals,
+      coveredConditionals,
+      methods: totalMethods,
+      coveredMethods,
+      elements: totalStatements + totalConditionals,
+      coveredElements: coveredStatements + coveredConditionals,
+      lineRate: this.calculateRate(coveredStatements, totalStatements),
+      branchRate: this.calculateRate(coveredConditionals, totalConditionals),
+    };
+
+    return {
+      timestamp: timestamp || Date.now(),
+      metrics,
+      files,
+    };
+  }
+
+  /**
+   * Normalize legacy array form and { lines, branches } form
+   */
+  private normalizeFileCoverage(fileCoverage: SimpleCovFileCoverage): {
+    lines: SimpleCovLines;
+    branches?: SimpleCovBranches;
+    methods?: SimpleCovMethods;
+  } {
+    if (Array.isArray(fileCoverage)) {
+      return { lines: fileCoverage };
+    }
+    return {
+      lines: fileCoverage?.lines || [],
+      branches: fileCoverage?.branches,
+      methods: fileCoverage?.methods,
+    };
+  }
+
+  /**
+   * Extract the start line from a SimpleCov branch tuple like "[:if, 0, 3, 4, 5, 7]"
+   */
+  private parseBranchLine(tuple: string): number | null {
+    const parts = tuple.replace(/^\[|\]$/g, "").split(",");
+    if (parts.length < 3) {
+      return null;
+    }
+    const line = Number.parseInt(parts[2].trim(), 10);
+    return Number.isNaN(line) ? null : line;
+  }
+
+  /**
+   * Read a method tuple like "[User, :admin?, 3, 2, 7, 5]"; the class name
+   * may itself contain commas (e.g. anonymous classes)
+   */
+  private parseMethod(tuple: string, hits: number): FunctionCoverage | null {
+    const parts = tuple
+      .replace(/^\[|\]$/g, "")
+      .split(",")
+      .map((part) => part.trim());
+    if (parts.length < 6) {
+      return null;
+    }
+    const [startLine, , endLine] = parts
+      .slice(-4)
+      .map((part) => Number.parseInt(part, 10));
+    const method = parts[parts.length - 5].replace(/^:/, "");
+    const className = parts.slice(0, -5).join(", ");
+    if (!method || !(startLine > 0)) {
+      return null;
+    }
+    return {
+      name: className ? `${className}#${method}` : method,
+      startLine,
+      endLine: endLine >= startLine ? endLine : undefined,
+      hits,
+    };
+  }
+
+  /**
+   * Convert merged line, branch and method hit counts to FileCoverage
+   */
+  private buildFileCoverage(
+    filePath: string,
+    lineMap: Map<number, number>,
+    conditionMap?: Map<string, Map<string, number>>,
+    methodMap?: Map<string, number>,
+    diagnostics?: DiagnosticsCollector,
+  ): FileCoverage {
+    const fileName = filePath.split("/").pop() || filePath;
+
+    // Branches are reported on the line of the condition they belong to
+    const branchData: Map<number, { total: number; covered: number }> =
+      new Map();
+    let totalBranches = 0;
+    let coveredBranches = 0;
+
+    for (const [condition, armMap] of conditionMap?.entries() ?? []) {
+      const lineNumber = this.parseBranchLine(condition);
+      if (lineNumber === null) {
+        diagnostics?.warning(
+          `Branch condition "${condition}" without a line skipped`,
+          { source: filePath },
+        );
+        continue;
+      }
+
+      let existing = branchData.get(lineNumber);
+      if (!existing) {
+        existing = { total: 0, covered: 0 };
+        branchData.set(lineNumber, existing);
+      }
+
+      for (const hits of armMap.values()) {
+        existing.total++;
+        totalBranches++;
+        if (hits > 0) {
+          existing.covered++;
+          coveredBranches++;
+        }
+      }
+    }
+
+    const lines: LineCoverage[] = [];
+    const missingLines: number[] = [];
+    const partialLines: number[] = [];
+    let coveredStatements = 0;
+
+    for (const [lineNumber, count] of lineMap.entries()) {
+      const branch = branchData.get(lineNumber);
+
+      lines.push({
+        lineNumber,
+        count,
+        type: branch ? "cond" : "stmt",
+        trueCount: branch ? branch.covered : undefined,
+        falseCount: branch ? branch.total - branch.covered : undefined,
+      });
+
+      if (count > 0) {
+        coveredStatements++;
+        // Partial: line executed but not every branch arm was taken
+        if (branch && branch.covered < branch.total) {
+          partialLines.push(lineNumber);
+        }
+      } else {
+        missingLines.push(lineNumber);
+      }
+    }
+
+    // Sort by line number
+    lines.sort((a, b) => a.lineNumber - b.lineNumber);
+    missingLines.sort((a, b) => a - b);
+    partialLines.sort((a, b) => a - b);
+
+    const statements = lines.length;
+
+    const functions: FunctionCoverage[] = [];
+    for (const [tuple, hits] of methodMap?.entries() ?? []) {
+      const fn = this.parseMethod(tuple, hits);
+      if (fn) {
+        functions.push(fn);
+      } else {
+        diagnostics?.warning(`Method "${tuple}" without a line skipped`, {
+          source: filePath,
+        });
+      }
+    }
+    functions.sort((a, b) => a.startLine - b.startLine);
+    const coveredMethods = functions.filter((fn) => fn.hits > 0).length;
+
+    return {
+      name: fileName,
+      path: filePath,
+      statements,
+      coveredStatements,
+      conditionals: totalBranches,
+      coveredConditionals: coveredBranches,
+      methods: functions.length,
+      coveredMethods,
+      lineRate: this.calculateRate(coveredStatements, statements),
+      branchRate: this.calculateRate(coveredBranches, totalBranches),
+      lines,
+      missingLines,
+      partialLines,
+      functions,
+    };
+  }
+}
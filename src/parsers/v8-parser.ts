@@ -0,0 +1,513 @@
+import * as fs from "node:fs";
+import { fileURLToPath } from "node:url";
+import type {
+  CoverageMetrics,
+  CoverageResults,
+  FileCoverage,
+  FunctionCoverage,
+  LineCoverage,
+} from "../types/coverage.js";
+import type { DiagnosticsCollector } from "../utils/diagnostics.js";
+import {
+  loadSourceMap,
+  type RawSourceMap,
+  SourceMap,
+} from "../utils/source-map.js";
+import {
+  BaseCoverageParser,
+  type CoverageFormat,
+  DETECTION_CONFIDENCE,
+  type DetectionResult,
+} from "./base-parser.js";
+
+/**
+ * Raw V8 coverage types (NODE_V8_COVERAGE / Profiler.takePreciseCoverage)
+ */
+interface V8Range {
+  startOffset: number;
+  endOffset: number;
+  count: number;
+}
+
+interface V8Function {
+  functionName: string;
+  ranges: V8Range[];
+  isBlockCoverage?: boolean;
+}
+
+interface V8ScriptCoverage {
+  scriptId: string;
+  url: string;
+  functions: V8Function[];
+}
+
+interface V8SourceMapCacheEntry {
+  lineLengths?: number[];
+  data?: RawSourceMap | null;
+  url?: string | null;
+}
+
+interface V8CoverageReport {
+  result: V8ScriptCoverage[];
+  timestamp?: number;
+  "source-map-cache"?: { [url: string]: V8SourceMapCacheEntry };
+}
+
+/**
+ * Per-file accumulator; several scripts (or bundle chunks) can map to one source
+ */
+interface V8FileAccumulator {
+  path: string;
+  lines: Map<number, { count: number; hasUncovered: boolean }>;
+  /** "line:name" -> function, with the highest count of any script */
+  functions: Map<string, FunctionCoverage>;
+}
+
+/**
+ * Parser for raw V8 coverage written by Node.js when NODE_V8_COVERAGE is set
+ * Generated by: NODE_V8_COVERAGE=<dir> node ... (one coverage-<pid>-<time>-<n>.json per process)
+ *
+ * Format structure:
+ * {
+ *   "result": [
+ *     {
+ *       "scriptId": "95",
+ *       "url": "file:///project/dist/calculator.js",
+ *       "functions": [
+ *         {
+ *           "functionName": "add",
+ *           "ranges": [{ "startOffset": 120, "endOffset": 180, "count": 3 }],
+ *           "isBlockCoverage": true
+ *         }
+ *       ]
+ *     }
+ *   ],
+ *   "source-map-cache": {
+ *     "file:///project/dist/calculator.js": {
+ *       "lineLengths": [13, 42, ...],
+ *       "data": { "version": 3, "sources": ["../src/calculator.ts"], "mappings": "..." },
+ *       "url": "file:///project/dist/calculator.js.map"
+ *     }
+ *   }
+ * }
+ *
+ * Ranges are byte offsets into the script; nested ranges override their parents.
+ * Scripts are read from disk to turn offsets into lines, and source maps
+ * (from "source-map-cache", inline, or sidecar .map files) remap them to the
+ * original sources. Node internals and node_modules are skipped.
+ */
+export class V8Parser extends BaseCoverageParser {
+  readonly format: CoverageFormat = "v8";
+
+  /**
+   * Score how likely content is raw V8 coverage JSON
+   */
+  detect(content: string, filePath?: string): DetectionResult {
+    // Check file extension
+    if (filePath && this.getFileExtension(filePath) !== "json") {
+      return this.detected(DETECTION_CONFIDENCE.NONE, "not a .json file");
+    }
+
+    const hasV8Structure =
+      content.includes('"result"') &&
+      content.includes('"scriptId"') &&
+      content.includes('"functions"') &&
+      content.includes('"startOffset"');
+
+    return hasV8Structure
+      ? this.detected(
+          DETECTION_CONFIDENCE.CONTENT,
+          '"result" scripts with "functions" ranges',
+        )
+      : this.detected(DETECTION_CONFIDENCE.NONE, 'no "scriptId"/"functions"');
+  }
+
+  /**
+   * Parse raw V8 coverage JSON content
+   */
+  async parseContent(
+    content: string,
+    diagnostics?: DiagnosticsCollector,
+  ): Promise<CoverageResults> {
+    let data: V8CoverageReport;
+
+    try {
+      data = JSON.parse(content);
+    } catch (error) {
+      throw new Error(
+        `Invalid V8 coverage JSON: ${error instanceof Error ? error.message : "parse error"}`,
+      );
+    }
+
+    if (!data || !Array.isArray(data.result)) {
+      throw new Error("Invalid V8 coverage JSON: missing 'result' array");
+    }
+
+    const accumulators: Map<string, V8FileAccumulator> = new Map();
+    const sourceMapCache = data["source-map-cache"] || {};
+
+    for (const script of data.result) {
+      // Skip node:internal, evaluated code and anything not on disk
+      if (!script.url?.startsWith("file://")) continue;
+      const scriptPath = fileURLToPath(script.url).replace(/\\/g, "/");
+      if (scriptPath.includes("/node_modules/")) continue;
+
+      await this.addScript(
+        script,
+        scriptPath,
+        sourceMapCache[script.url],
+        accumulators,
+        diagnostics,
+      );
+    }
+
+    const files: FileCoverage[] = [];
+    let totalStatements = 0;
+    let coveredStatements = 0;
+    let totalMethods = 0;
+    let coveredMethods = 0;
+
+    for (const acc of accumulators.values()) {
+      const fileResult = this.buildFileCoverage(acc);
+      files.push(fileResult);
+
+      totalStatements += fileResult.statements;
+      coveredStatements += fileResult.coveredStatements;
+      totalMethods += fileResult.methods;
+      coveredMethods += fileResult.coveredMethods;
+    }
+
+    const metrics: CoverageMetrics = {
+      statements: totalStatements,
+      coveredStatements,
+      conditionals: 0, // Block ranges are not branch arms
+      coveredConditionals: 0,
+      methods: totalMethods,
+      coveredMethods,
+      elements: totalStatements,
+      coveredElements: coveredStatements,
+      lineRate: this.calculateRate(coveredStatements, totalStatements),
+      branchRate: 0,
+    };
+
+    return {
+      timestamp: Date.now(),
+      metrics,
+      files,
+    };
+  }
+
+  /**
+   * Convert one script's ranges to line counts in the generated file, or in
+   * the original sources when a source map is available
+   */
+  private async addScript(
+    script: V8ScriptCoverage,
+    scriptPath: string,
+    cacheEntry: V8SourceMapCacheEntry | undefined,
+    accumulators: Map<string, V8FileAccumulator>,
+    diagnostics?: DiagnosticsCollector,
+  ): Promise<void> {
+    let source: string | null = null;
+    try {
+      source = await fs.promises.readFile(scriptPath, "utf-8");
+    } catch {
+      // Deleted or temporary scripts can still be remapped via lineLengths
+    }
+
+    let lineStarts: number[];
+    if (source !== null) {
+      lineStarts = [0];
+      for (let i = 0; i < source.length; i++) {
+        if (source[i] === "\n") lineStarts.push(i + 1);
+      }
+    } else if (cacheEntry?.lineLengths) {
+      lineStarts = [0];
+      for (const length of cacheEntry.lineLengths) {
+        lineStarts.push(lineStarts[lineStarts.length - 1] + length + 1);
+      }
+      lineStarts.pop();
+    } else {
+      diagnostics?.warning(
+        "Script cannot be read and has no cached line lengths; skipped",
+        { source: scriptPath },
+      );
+      return;
+    }
+
+    let sourceMap: SourceMap | null = null;
+    if (cacheEntry?.data) {
+      try {
+        const mapPath = cacheEntry.url?.startsWith("file://")
+          ? fileURLToPath(cacheEntry.url)
+          : scriptPath;
+        sourceMap = new SourceMap(cacheEntry.data, mapPath);
+      } catch (error) {
+        diagnostics?.warning(
+          `Invalid cached source map ignored: ${error instanceof Error ? error.message : error}`,
+          { source: scriptPath },
+        );
+        sourceMap = null;
+      }
+    } else if (source !== null) {
+      sourceMap = loadSourceMap(scriptPath, source);
+    }
+
+    const spans = this.flattenRanges(
+      script.functions.flatMap((fn) => fn.ranges || []),
+    );
+    const lineEnd = (index: number) =>
+      index + 1 < lineStarts.length
+        ? lineStarts[index + 1] - 1
+        : (source?.length ?? Number.POSITIVE_INFINITY);
+
+    const getAccumulator = (filePath: string) => {
+      let acc = accumulators.get(filePath);
+      if (!acc) {
+        acc = {
+          path: filePath,
+          lines: new Map(),
+          functions: new Map(),
+        };
+        accumulators.set(filePath, acc);
+      }
+      return acc;
+    };
+
+    const record = (
+      filePath: string,
+      lineNumber: number,
+      stats: { max: number; hasZero: boolean },
+    ) => {
+      const acc = getAccumulator(filePath);
+      const existing = acc.lines.get(lineNumber);
+      acc.lines.set(lineNumber, {
+        count: Math.max(existing?.count ?? 0, stats.max),
+        hasUncovered: (existing?.hasUncovered ?? false) || stats.hasZero,
+      });
+    };
+
+    if (sourceMap) {
+      const map = sourceMap;
+      // Each mapping segment runs to the next segment or the end of the line
+      map.lines.forEach((segments, index) => {
+        if (index >= lineStarts.length) return;
+        segments.forEach((segment, segmentIndex) => {
+          if (segment.sourceIndex === undefined) return;
+          const original = map.sources[segment.sourceIndex];
+          if (!original || original.includes("/node_modules/")) return;
+
+          const start = lineStarts[index] + segment.generatedColumn;
+          const next = segments[segmentIndex + 1];
+          const end = next
+            ? lineStarts[index] + next.generatedColumn
+            : lineEnd(index);
+          const stats = this.rangeStats(spans, start, end);
+          if (stats) {
+            record(original, (segment.originalLine ?? 0) + 1, stats);
+          }
+        });
+      });
+    } else if (source !== null) {
+      for (let index = 0; index < lineStarts.length; index++) {
+        const text = source.slice(lineStarts[index], lineEnd(index));
+        const trimmed = text.trim();
+        // Blank and comment-only lines are not executable
+        if (!trimmed || /^(\/\/|\/\*|\*\/|\*(\s|$))/.test(trimmed)) continue;
+
+        const start = lineStarts[index] + text.indexOf(trimmed[0]);
+        const stats = this.rangeStats(spans, start, start + trimmed.length);
+        if (stats) {
+          record(scriptPath, index + 1, stats);
+        }
+      }
+    }
+
+    for (const fn of script.functions) {
+      const range = fn.ranges?.[0];
+      if (!range) continue;
+      // The module wrapper / top-level script is not a function of its own
+      if (range.startOffset === 0 && !fn.functionName) continue;
+
+      const index = this.findLineIndex(lineStarts, range.startOffset);
+      const column = range.startOffset - lineStarts[index];
+      // endOffset is exclusive
+      const endIndex = this.findLineIndex(
+        lineStarts,
+        Math.max(range.startOffset, range.endOffset - 1),
+      );
+      let filePath = scriptPath;
+      let lineNumber = index + 1;
+      let endLine: number | undefined = endIndex + 1;
+      if (sourceMap) {
+        const original = sourceMap.originalPositionFor(lineNumber, column);
+        if (!original || original.source.includes("/node_modules/")) continue;
+        filePath = original.source;
+        lineNumber = original.line;
+        const originalEnd = sourceMap.originalPositionFor(
+          endIndex + 1,
+          range.endOffset - 1 - lineStarts[endIndex],
+        );
+        endLine =
+          originalEnd?.source === filePath && originalEnd.line >= lineNumber
+            ? originalEnd.line
+            : undefined;
+      }
+
+      const functions = getAccumulator(filePath).functions;
+      const name = fn.functionName || "(anonymous)";
+      const key = `${lineNumber}:${name}`;
+      const existing = functions.get(key);
+      if (existing) {
+        existing.hits = Math.max(existing.hits, range.count);
+      } else {
+        functions.set(key, {
+          name,
+          startLine: lineNumber,
+          endLine,
+          hits: range.count,
+        });
+      }
+    }
+  }
+
+  /**
+   * Flatten nested V8 ranges into sorted, non-overlapping spans where the
+   * innermost range's count applies
+   */
+  private flattenRanges(ranges: V8Range[]): V8Range[] {
+    const sorted = [...ranges].sort(
+      (a, b) => a.startOffset - b.startOffset || b.endOffset - a.endOffset,
+    );
+    const spans: V8Range[] = [];
+    const stack: V8Range[] = [];
+    let cursor = 0;
+
+    const flushTo = (position: number) => {
+      while (stack.length > 0 && cursor < position) {
+        const top = stack[stack.length - 1];
+        const end = Math.min(top.endOffset, position);
+        if (end > cursor) {
+          spans.push({ startOffset: cursor, endOffset: end, count: top.count });
+          cursor = end;
+        }
+        if (top.endOffset <= position) {
+          stack.pop();
+        } else {
+          break;
+        }
+      }
+      cursor = Math.max(cursor, position);
+    };
+
+    for (const range of sorted) {
+      flushTo(range.startOffset);
+      stack.push(range);
+    }
+    flushTo(Number.POSITIVE_INFINITY);
+
+    return spans;
+  }
+
+  /**
+   * Highest count over [start, end) and whether any part of it never ran
+   */
+  private rangeStats(
+    spans: V8Range[],
+    start: number,
+    end: number,
+  ): { max: number; hasZero: boolean } | null {
+    // First span ending after start
+    let low = 0;
+    let high = spans.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (spans[mid].endOffset <= start) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    let max = 0;
+    let hasZero = false;
+    let found = false;
+    for (let i = low; i < spans.length && spans[i].startOffset < end; i++) {
+      found = true;
+      max = Math.max(max, spans[i].count);
+      if (spans[i].count === 0) hasZero = true;
+    }
+
+    return found ? { max, hasZero } : null;
+  }
+
+  /**
+   * Find the 0-based line index containing an offset
+   */
+  private findLineIndex(lineStarts: number[], offset: number): number {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return low;
+  }
+
+  /**
+   * Convert accumulated line counts to FileCoverage
+   */
+  private buildFileCoverage(acc: V8FileAccumulator): FileCoverage {
+    const fileName = acc.path.split("/").pop() || acc.path;
+
+    const lines: LineCoverage[] = [];
+    const missingLines: number[] = [];
+    const partialLines: number[] = [];
+    let coveredStatements = 0;
+
+    for (const [lineNumber, line] of acc.lines.entries()) {
+      lines.push({ lineNumber, count: line.count, type: "stmt" });
+
+      if (line.count > 0) {
+        coveredStatements++;
+        // Partial: part of the line sits in a block that never ran
+        if (line.hasUncovered) {
+          partialLines.push(lineNumber);
+        }
+      } else {
+        missingLines.push(lineNumber);
+      }
+    }
+
+    // Sort by line number
+    lines.sort((a, b) => a.lineNumber - b.lineNumber);
+    missingLines.sort((a, b) => a - b);
+    partialLines.sort((a, b) => a - b);
+
+    const functions = Array.from(acc.functions.values()).sort(
+      (a, b) => a.startLine - b.startLine,
+    );
+    const coveredMethods = functions.filter((fn) => fn.hits > 0).length;
+
+    return {
+      name: fileName,
+      path: acc.path,
+      statements: lines.length,
+      coveredStatements,
+      conditionals: 0,
+      coveredConditionals: 0,
+      methods: functions.length,
+      coveredMethods,
+      lineRate: this.calculateRate(coveredStatements, lines.length),
+      branchRate: 0,
+      lines,
+      missingLines,
+      partialLines,
+      functions,
+    };
+  }
+}
@@ -0,0 +1,370 @@
+import type {
+  CoverageMetrics,
+  CoverageResults,
+  FileCoverage,
+  FunctionCoverage,
+  LineCoverage,
+} from "../types/coverage.js";
+import type { DiagnosticsCollector } from "../utils/diagnostics.js";
+import {
+  BaseCoverageParser,
+  type CoverageFormat,
+  DETECTION_CONFIDENCE,
+  type DetectionResult,
+} from "./base-parser.js";
+
+/**
+ * xccov report view types (xccov view --report --json)
+ */
+interface XccovFunction {
+  name: string;
+  lineNumber: number;
+  executionCount: number;
+  coveredLines?: number;
+  executableLines?: number;
+}
+
+interface XccovReportFile {
+  name?: string;
+  path: string;
+  coveredLines: number;
+  executableLines: number;
+  functions?: XccovFunction[];
+}
+
+interface XccovReport {
+  targets: Array<{
+    name?: string;
+    files?: XccovReportFile[];
+  }>;
+}
+
+/**
+ * xccov archive view types (xccov view --archive --json)
+ */
+interface XccovArchiveLine {
+  line: number;
+  isExecutable: boolean;
+  executionCount?: number;
+  subranges?: Array<{ column: number; length: number; executionCount: number }>;
+}
+
+type XccovArchive = { [filePath: string]: XccovArchiveLine[] };
+
+/**
+ * Parser for Xcode xccov JSON coverage output
+ * Generated by: xcrun xccov view --report --json, xcrun xccov view --archive --json
+ *
+ * Report view structure (function-level):
+ * {
+ *   "coveredLines": 10, "executableLines": 20, "lineCoverage": 0.5,
+ *   "targets": [
+ *     {
+ *       "name": "MyApp.app",
+ *       "files": [
+ *         {
+ *           "name": "Calculator.swift", "path": "/src/MyApp/Calculator.swift",
+ *           "coveredLines": 5, "executableLines": 8,
+ *           "functions": [{ "name": "Calculator.add(_:_:)", "lineNumber": 3, "executionCount": 2, ... }]
+ *         }
+ *       ]
+ *     }
+ *   ]
+ * }
+ *
+ * Archive view structure (line-level):
+ * {
+ *   "/src/MyApp/Calculator.swift": [
+ *     { "line": 1, "isExecutable": false },
+ *     { "line": 3, "isExecutable": true, "executionCount": 2,
+ *       "subranges": [{ "column": 12, "length": 9, "executionCount": 0 }] }
+ *   ]
+ * }
+ */
+export class XccovParser extends BaseCoverageParser {
+  readonly format: CoverageFormat = "xccov";
+
+  /**
+   * Score how likely content is xccov report or archive JSON
+   */
+  detect(content: string, filePath?: string): DetectionResult {
+    // Check file extension
+    if (filePath && this.getFileExtension(filePath) !== "json") {
+      return this.detected(DETECTION_CONFIDENCE.NONE, "not a .json file");
+    }
+
+    // Archive view: per-line records with isExecutable
+    if (content.includes('"isExecutable"') && content.includes('"line"')) {
+      return this.detected(
+        DETECTION_CONFIDENCE.CONTENT,
+        'archive view with "isExecutable" lines',
+      );
+    }
+
+    // Report view: targets -> files -> functions
+    if (
+      content.includes('"targets"') &&
+      content.includes('"executableLines"') &&
+      content.includes('"coveredLines"')
+    ) {
+      return this.detected(
+        DETECTION_CONFIDENCE.CONTENT,
+        'report view with "targets" and "executableLines"',
+      );
+    }
+
+    return this.detected(
+      DETECTION_CONFIDENCE.NONE,
+      'no "targets" or "isExecutable"',
+    );
+  }
+
+  /**
+   * Parse xccov JSON content (report or archive view)
+   */
+  async parseContent(
+    content: string,
+    diagnostics?: DiagnosticsCollector,
+  ): Promise<CoverageResults> {
+    let data: XccovReport | XccovArchive;
+
+    try {
+      data = JSON.parse(content);
+    } catch (error) {
+      throw new Error(
+        `Invalid xccov JSON: ${error instanceof Error ? error.message : "parse error"}`,
+      );
+    }
+
+    if (!data || typeof data !== "object" || Array.isArray(data)) {
+      throw new Error("Invalid xccov JSON: expected an object");
+    }
+
+    const files = Array.isArray((data as XccovReport).targets)
+      ? this.parseReport(data as XccovReport, diagnostics)
+      : this.parseArchive(data as XccovArchive, diagnostics);
+
+    let totalStatements = 0;
+    let coveredStatements = 0;
+    let totalConditionals = 0;
+    let coveredConditionals = 0;
+    let totalMethods = 0;
+    let coveredMethods = 0;
+
+    for (const file of files) {
+      totalStatements += file.statements;
+      coveredStatements += file.coveredStatements;
+      totalConditionals += file.conditionals;
+      coveredConditionals += file.coveredConditionals;
+      totalMethods += file.methods;
+      coveredMethods += file.coveredMethods;
+    }
+
+    const metrics: CoverageMetrics = {
+      statements: totalStatements,
+      coveredStatements,
+      conditionals: totalConditionals,
+      coveredConditionals,
+      methods: totalMethods,
+      coveredMethods,
+      elements: totalStatements + totalConditionals,
+      coveredElements: coveredStatements + coveredConditionals,
+      lineRate: this.calculateRate(coveredStatements, totalStatements),
+      branchRate: this.calculateRate(coveredConditionals, totalConditionals),
+    };
+
+    return {
+      timestamp: Date.now(),
+      metrics,
+      files,
+    };
+  }
+
+  /**
+   * Walk targets -> files -> functions of the report view.
+   * The report view has no per-line data, so its files are summary-only:
+   * line totals and functions without lines.
+   */
+  private parseReport(
+    report: XccovReport,
+    diagnostics?: DiagnosticsCollector,
+  ): FileCoverage[] {
+    // A file compiled into several targets is reported once per target
+    const byPath: Map<
+      string,
+      {
+        name?: string;
+        coveredLines: number;
+        executableLines: number;
+        functions: Map<string, XccovFunction>;
+      }
+    > = new Map();
+
+    for (const target of report.targets) {
+      for (const file of target.files || []) {
+        if (!file.path) {
+          diagnostics?.warning(
+            `File "${file.name ?? "?"}" without a path skipped`,
+          );
+          continue;
+        }
+        const existing = byPath.get(file.path);
+        const entry = existing || {
+          name: file.name,
+          coveredLines: 0,
+          executableLines: 0,
+          functions: new Map<string, XccovFunction>(),
+        };
+        entry.coveredLines = Math.max(
+          entry.coveredLines,
+          file.coveredLines || 0,
+        );
+        entry.executableLines = Math.max(
+          entry.executableLines,
+          file.executableLines || 0,
+        );
+
+        for (const fn of file.functions || []) {
+          const key = `${fn.lineNumber}:${fn.name}`;
+          const seen = entry.functions.get(key);
+          if (seen) {
+            seen.executionCount += fn.executionCount || 0;
+          } else {
+            entry.functions.set(key, {
+              ...fn,
+              executionCount: fn.executionCount || 0,
+            });
+          }
+        }
+        byPath.set(file.path, entry);
+      }
+    }
+
+    const files: FileCoverage[] = [];
+
+    for (const [filePath, entry] of byPath.entries()) {
+      let coveredMethods = 0;
+      const functions: FunctionCoverage[] = [];
+      for (const fn of entry.functions.values()) {
+        if (fn.executionCount > 0) {
+          coveredMethods++;
+        }
+        // Only the first line is reported
+        functions.push({
+          name: fn.name,
+          startLine: fn.lineNumber,
+          hits: fn.executionCount,
+        });
+      }
+      functions.sort((a, b) => a.startLine - b.startLine);
+
+      files.push({
+        name: entry.name || filePath.split("/").pop() || filePath,
+        path: filePath,
+        statements: entry.executableLines,
+        coveredStatements: entry.coveredLines,
+        conditionals: 0,
+        coveredConditionals: 0,
+        methods: entry.functions.size,
+        coveredMethods,
+        lineRate: this.calculateRate(entry.coveredLines, entry.executableLines),
+        branchRate: 0,
+        lines: [],
+        missingLines: [],
+        partialLines: [],
+        functions,
+        summaryOnly: true,
+      });
+    }
+
+    return files;
+  }
+
+  /**
+   * Read per-line isExecutable/executionCount records of the archive view.
+   * Subranges (e.g. an unexecuted ternary arm) are counted as conditionals,
+   * and an executed line with an unexecuted subrange is partial.
+   */
+  private parseArchive(
+    archive: XccovArchive,
+    diagnostics?: DiagnosticsCollector,
+  ): FileCoverage[] {
+    const files: FileCoverage[] = [];
+
+    for (const [filePath, fileLines] of Object.entries(archive)) {
+      if (!Array.isArray(fileLines)) {
+        diagnostics?.warning(`"${filePath}" has no line records; skipped`);
+        continue;
+      }
+
+      const lines: LineCoverage[] = [];
+      const missingLines: number[] = [];
+      const partialLines: number[] = [];
+      let coveredStatements = 0;
+      let totalSubranges = 0;
+      let coveredSubranges = 0;
+
+      for (const record of fileLines) {
+        if (!record.isExecutable) continue;
+        if (!(Number.isInteger(record.line) && record.line > 0)) {
+          diagnostics?.warning(
+            `Line record with invalid line "${String(record.line)}" skipped`,
+            { source: filePath },
+          );
+          continue;
+        }
+
+        const count = record.executionCount || 0;
+        const subranges = record.subranges || [];
+        const subrangesCovered = subranges.filter(
+          (s) => s.executionCount > 0,
+        ).length;
+        totalSubranges += subranges.length;
+        coveredSubranges += subrangesCovered;
+
+        lines.push({
+          lineNumber: record.line,
+          count,
+          type: subranges.length > 0 ? "cond" : "stmt",
+          trueCount: subranges.length > 0 ? subrangesCovered : undefined,
+          falseCount:
+            subranges.length > 0
+              ? subranges.length - subrangesCovered
+              : undefined,
+        });
+
+        if (count > 0) {
+          coveredStatements++;
+          if (subrangesCovered < subranges.length) {
+            partialLines.push(record.line);
+          }
+        } else {
+          missingLines.push(record.line);
+        }
+      }
+
+      // Sort by line number
+      lines.sort((a, b) => a.lineNumber - b.lineNumber);
+      missingLines.sort((a, b) => a - b);
+      partialLines.sort((a, b) => a - b);
+
+      files.push({
+        name: filePath.split("/").pop() || filePath,
+        path: filePath,
+        statements: lines.length,
+        coveredStatements,
+        conditionals: totalSubranges,
+        coveredConditionals: coveredSubranges,
+        methods: 0, // The archive view has no function records
+        coveredMethods: 0,
+        lineRate: this.calculateRate(coveredStatements, lines.length),
+        branchRate: this.calculateRate(coveredSubranges, totalSubranges),
+        lines,
+        missingLines,
+        partialLines,
+      });
+    }
+
+    return files;
+  }
+}
@@ -28,6 +28,19 @@ export interface CommentConfigObject {
 
 export type CommentConfigInput = boolean | CommentConfigObject;
 
+/**
+ * A path rewrite from the `fixes:` section, written as "before::after".
+ * `before` is a literal prefix, or a regular expression when it starts with "^".
+ * - `"/app/::"` - strip a Docker build prefix
+ * - `"::src/"` - prepend a prefix
+ * - `"^[^/]+/svc/::"` - regex rewrite
+ */
+export interface PathFix {
+  before: string;
+  after: string;
+  regex: boolean;
+}
+
 /**
  * Root configuration interface for .github/coverage.yml
  * Supports both direct config and Codecov-style nested "default" key
@@ -42,6 +55,8 @@ export interface CodecovConfig {
     ignore?: string[]; // Glob patterns to ignore
   };
   comment?: CommentConfigInput;
+  fixes?: string[]; // Path rewrites ("before::after")
+  parsers?: string[]; // Parser plugin modules, relative to the repository root
 }
 
 /**
@@ -61,6 +76,8 @@ export interface NormalizedConfig {
     };
   };
   ignore: string[];
+  fixes: PathFix[];
+  parsers: string[];
   comment: {
     enabled: boolean;
     files: CommentFilesMode;
@@ -14,14 +14,41 @@ export interface FileCoverage {
   missingLines?: number[]; // Line numbers with 0 hits
   partialLines?: number[]; // Line numbers with partial branch coverage
   patchCoverage?: number; // Coverage % for changed lines only (if applicable)
+  functions?: FunctionCoverage[]; // Functions, for formats that record them
+  regions?: CoverageRegion[]; // Column ranges, for formats that record them
+  summaryOnly?: boolean; // Totals without line data (e.g. xccov report view)
+}
+
+export interface CoverageRegion {
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+  count: number;
+}
+
+export interface FunctionCoverage {
+  name: string;
+  startLine: number;
+  endLine?: number; // Last line, when the format records it
+  hits: number;
 }
 
 export interface LineCoverage {
   lineNumber: number;
   count: number;
   type: "stmt" | "cond" | "method";
-  trueCount?: number;
-  falseCount?: number;
+  trueCount?: number; // Branch arms taken
+  falseCount?: number; // Branch arms never taken
+  branches?: BranchCoverage[]; // Individual arms, for formats that record them
+  contexts?: string[]; // Test contexts that executed this line (e.g. coverage.py --show-contexts)
+}
+
+export interface BranchCoverage {
+  block: number; // Branch point on the line (LCOV block, Istanbul branch id)
+  branch: number; // Arm within the block
+  taken: number;
+  label?: string; // e.g. "then"/"else", or the LCOV 2.x branch expression
 }
 
 export interface CoverageMetrics {
@@ -41,6 +68,7 @@ export interface CoverageResults {
   timestamp: number;
   metrics: CoverageMetrics;
   files: FileCoverage[];
+  sourceRoots?: string[]; // Directories file paths are relative to (e.g. Cobertura <sources>)
 }
 
 export interface AggregatedCoverageResults {
@@ -0,0 +1,16 @@
+/**
+ * How serious a parse diagnostic is. Warnings mean data was skipped or is
+ * suspect; errors mean a whole section of a report could not be read.
+ */
+export type DiagnosticSeverity = "info" | "warning" | "error";
+
+/**
+ * A problem found while parsing a coverage or test report
+ */
+export interface ParseDiagnostic {
+  severity: DiagnosticSeverity;
+  message: string;
+  file?: string; // Report file the problem was found in
+  line?: number; // Line in the report, for line-based formats
+  source?: string; // Source file the affected record describes
+}
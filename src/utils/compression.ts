@@ -0,0 +1,307 @@
+import * as fs from "node:fs";
+import { pipeline, Readable } from "node:stream";
+import { constants, createGunzip, gunzipSync } from "node:zlib";
+import AdmZip from "adm-zip";
+
+/**
+ * Tar archives are a sequence of 512-byte blocks
+ */
+const TAR_BLOCK_SIZE = 512;
+
+/**
+ * Plain files larger than this are streamed rather than read into memory.
+ * Gzip-compressed files are always streamed, as their size on disk says
+ * little about the size of the text.
+ */
+export const STREAMING_THRESHOLD_BYTES = 16 * 1024 * 1024;
+
+/**
+ * How much of a streamed report is read up front for format detection
+ */
+const HEAD_BYTES = 1024 * 1024;
+
+/**
+ * Compressed bytes first inflated when reading the head of a gzip file
+ */
+const GUNZIP_HEAD_STEP = 1024;
+
+/**
+ * A coverage report read from disk, possibly one entry of an archive
+ */
+export interface CoverageInput {
+  /** File on disk the report was read from */
+  filePath: string;
+  /** filePath, or "archive.zip!/path/lcov.info" for archive entries */
+  label: string;
+  /** The report text, or null for large reports that must be streamed */
+  content: string | null;
+  /** Start of the report, for detecting the format of streamed reports */
+  head: string;
+  /** Stream the whole report text */
+  stream(): Readable;
+}
+
+/**
+ * Check whether a buffer starts with the gzip magic bytes (1f 8b)
+ */
+export function isGzip(buffer: Buffer): boolean {
+  return buffer.length >= 2 && buffer[0] === 0x1f && buffer[1] === 0x8b;
+}
+
+/**
+ * Check whether a buffer starts with a zip local file header (PK\x03\x04)
+ */
+export function isZip(buffer: Buffer): boolean {
+  return (
+    buffer.length >= 4 &&
+    buffer[0] === 0x50 &&
+    buffer[1] === 0x4b &&
+    buffer[2] === 0x03 &&
+    buffer[3] === 0x04
+  );
+}
+
+/**
+ * Check whether a buffer is a POSIX (ustar) or GNU tar archive
+ */
+export function isTar(buffer: Buffer): boolean {
+  return (
+    buffer.length >= TAR_BLOCK_SIZE &&
+    buffer.toString("latin1", 257, 262) === "ustar"
+  );
+}
+
+/**
+ * Decode a coverage file buffer to text, transparently gunzipping it
+ */
+export function decodeCoverageBuffer(buffer: Buffer): string {
+  return (isGzip(buffer) ? gunzipSync(buffer) : buffer).toString("utf-8");
+}
+
+/**
+ * Read a coverage file as text, transparently gunzipping gzip-compressed files
+ */
+export function readCoverageFileSync(filePath: string): string {
+  return decodeCoverageBuffer(fs.readFileSync(filePath));
+}
+
+/**
+ * Async variant of readCoverageFileSync
+ */
+export async function readCoverageFile(filePath: string): Promise<string> {
+  const buffer = await fs.promises.readFile(filePath);
+  return decodeCoverageBuffer(buffer);
+}
+
+/**
+ * Wrap report text already in memory as an input
+ */
+function textInput(
+  filePath: string,
+  label: string,
+  content: string,
+): CoverageInput {
+  return {
+    filePath,
+    label,
+    content,
+    head: content.slice(0, HEAD_BYTES),
+    stream: () => Readable.from([content]),
+  };
+}
+
+/**
+ * Read the first bytes of a file
+ */
+function readFileHead(filePath: string, length: number): Buffer {
+  const fd = fs.openSync(filePath, "r");
+  try {
+    const buffer = Buffer.alloc(length);
+    const bytesRead = fs.readSync(fd, buffer, 0, length, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Decompress the start of a truncated gzip stream. The compressed slice
+ * grows until it yields HEAD_BYTES of text, so a highly compressible
+ * report is not inflated far beyond that.
+ */
+function gunzipHead(buffer: Buffer): Buffer {
+  for (let length = GUNZIP_HEAD_STEP; ; length *= 2) {
+    const slice = buffer.subarray(0, length);
+    let text: Buffer;
+    try {
+      text = gunzipSync(slice, { finishFlush: constants.Z_SYNC_FLUSH });
+    } catch {
+      return Buffer.alloc(0);
+    }
+    if (text.length >= HEAD_BYTES || slice.length === buffer.length) {
+      return text;
+    }
+  }
+}
+
+/**
+ * Input for a large plain or gzip-compressed report, read through a stream
+ */
+function streamedInput(
+  filePath: string,
+  label: string,
+  head: Buffer,
+): CoverageInput {
+  const gzipped = isGzip(head);
+  const text = gzipped ? gunzipHead(head) : head;
+  return {
+    filePath,
+    label,
+    content: null,
+    head: text.subarray(0, HEAD_BYTES).toString("utf-8"),
+    stream: () => {
+      const file = fs.createReadStream(filePath);
+      // pipeline destroys the gunzip stream when reading fails
+      return gzipped ? pipeline(file, createGunzip(), () => {}) : file;
+    },
+  };
+}
+
+/**
+ * Rebuild an input from its serializable fields, e.g. in a worker thread
+ * @param content The report text, or null to stream it from filePath
+ */
+export function toCoverageInput(
+  filePath: string,
+  label: string,
+  content: string | null,
+): CoverageInput {
+  return content === null
+    ? streamedInput(filePath, label, readFileHead(filePath, HEAD_BYTES))
+    : textInput(filePath, label, content);
+}
+
+/**
+ * Read a NUL-terminated string field of a tar header
+ */
+function readTarField(header: Buffer, offset: number, length: number): string {
+  const field = header.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.toString("utf-8", 0, end === -1 ? length : end);
+}
+
+/**
+ * List the regular files of a tar archive, following GNU long names and
+ * pax path records
+ */
+function readTarEntries(buffer: Buffer): { name: string; data: Buffer }[] {
+  const entries: { name: string; data: Buffer }[] = [];
+  let longName: string | null = null;
+  let offset = 0;
+
+  while (offset + TAR_BLOCK_SIZE <= buffer.length) {
+    const header = buffer.subarray(offset, offset + TAR_BLOCK_SIZE);
+    // Two zero blocks end the archive
+    if (header.every((byte) => byte === 0)) break;
+
+    const size = Number.parseInt(readTarField(header, 124, 12).trim(), 8) || 0;
+    const type = readTarField(header, 156, 1);
+    const dataStart = offset + TAR_BLOCK_SIZE;
+    const data = buffer.subarray(dataStart, dataStart + size);
+    offset = dataStart + Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
+
+    if (type === "L") {
+      longName = readTarField(data, 0, size);
+      continue;
+    }
+    if (type === "x") {
+      const pathRecord = /(?:^|\n)\d+ path=([^\n]*)\n/.exec(
+        data.toString("utf-8"),
+      );
+      if (pathRecord) longName = pathRecord[1];
+      continue;
+    }
+    // Regular files only ("0", or "" in pre-POSIX archives)
+    if (type !== "0" && type !== "") {
+      longName = null;
+      continue;
+    }
+
+    const prefix = readTarField(header, 345, 155);
+    const name = readTarField(header, 0, 100);
+    entries.push({
+      name: longName ?? (prefix ? `${prefix}/${name}` : name),
+      data,
+    });
+    longName = null;
+  }
+
+  return entries;
+}
+
+/**
+ * Skip metadata that archivers add next to the real files (macOS resource
+ * forks in __MACOSX/ and ._ files)
+ */
+function isArchiveMetadata(entryName: string): boolean {
+  const baseName = entryName.split("/").pop() ?? "";
+  return entryName.split("/").includes("__MACOSX") || baseName.startsWith("._");
+}
+
+/**
+ * Read a coverage file as one or more reports. Zip and tar(.gz) archives
+ * yield one report per file entry. Gzip-compressed reports, and plain ones
+ * larger than the threshold, are left to be streamed.
+ * @param filePath Coverage file or archive on disk
+ * @param streamingThreshold Size in bytes above which plain files are streamed
+ */
+export function readCoverageInputs(
+  filePath: string,
+  streamingThreshold = STREAMING_THRESHOLD_BYTES,
+): CoverageInput[] {
+  const head = readFileHead(filePath, HEAD_BYTES);
+  const gzipped = isGzip(head);
+  // Archives are always read whole
+  if (
+    (gzipped || fs.statSync(filePath).size > streamingThreshold) &&
+    !isZip(head) &&
+    !isTar(gzipped ? gunzipHead(head) : head)
+  ) {
+    return [streamedInput(filePath, filePath, head)];
+  }
+
+  let buffer = fs.readFileSync(filePath);
+
+  if (isZip(buffer)) {
+    return new AdmZip(buffer)
+      .getEntries()
+      .filter(
+        (entry) => !entry.isDirectory && !isArchiveMetadata(entry.entryName),
+      )
+      .map((entry) =>
+        textInput(
+          filePath,
+          `${filePath}!/${entry.entryName}`,
+          decodeCoverageBuffer(entry.getData()),
+        ),
+      );
+  }
+
+  if (isGzip(buffer)) {
+    buffer = gunzipSync(buffer);
+  }
+
+  if (isTar(buffer)) {
+    return readTarEntries(buffer)
+      .filter((entry) => !isArchiveMetadata(entry.name))
+      .map((entry) =>
+        textInput(
+          filePath,
+          `${filePath}!/${entry.name.replace(/^(\.\/)+/, "")}`,
+          decodeCoverageBuffer(entry.data),
+        ),
+      );
+  }
+
+  return [textInput(filePath, filePath, buffer.toString("utf-8"))];
+}
@@ -0,0 +1,85 @@
+import type {
+  DiagnosticSeverity,
+  ParseDiagnostic,
+} from "../types/diagnostics.js";
+
+/**
+ * Where in a report a diagnostic applies
+ */
+export interface DiagnosticLocation {
+  line?: number;
+  source?: string;
+}
+
+/**
+ * Collects parse diagnostics reported by parsers across all report files
+ */
+export class DiagnosticsCollector {
+  private readonly diagnostics: ParseDiagnostic[];
+  private readonly file?: string;
+
+  constructor(file?: string, diagnostics: ParseDiagnostic[] = []) {
+    this.file = file;
+    this.diagnostics = diagnostics;
+  }
+
+  /**
+   * Get a collector that tags diagnostics with a report file and feeds them
+   * into this collector
+   */
+  forFile(file: string): DiagnosticsCollector {
+    return new DiagnosticsCollector(file, this.diagnostics);
+  }
+
+  report(
+    severity: DiagnosticSeverity,
+    message: string,
+    location: DiagnosticLocation = {},
+  ): void {
+    this.diagnostics.push({
+      severity,
+      message,
+      ...(this.file ? { file: this.file } : {}),
+      ...location,
+    });
+  }
+
+  info(message: string, location?: DiagnosticLocation): void {
+    this.report("info", message, location);
+  }
+
+  warning(message: string, location?: DiagnosticLocation): void {
+    this.report("warning", message, location);
+  }
+
+  error(message: string, location?: DiagnosticLocation): void {
+    this.report("error", message, location);
+  }
+
+  /**
+   * All diagnostics, or those of this collector's file when it has one
+   */
+  getDiagnostics(): ParseDiagnostic[] {
+    return this.file
+      ? this.diagnostics.filter((d) => d.file === this.file)
+      : [...this.diagnostics];
+  }
+
+  /**
+   * Warnings and errors, which fail the run in strict mode
+   */
+  getProblems(): ParseDiagnostic[] {
+    return this.getDiagnostics().filter((d) => d.severity !== "info");
+  }
+
+  /**
+   * Format a diagnostic as "file:line: message (source)"
+   */
+  static format(diagnostic: ParseDiagnostic): string {
+    const location = diagnostic.file
+      ? `${diagnostic.file}${diagnostic.line ? `:${diagnostic.line}` : ""}: `
+      : "";
+    const source = diagnostic.source ? ` (${diagnostic.source})` : "";
+    return `${location}${diagnostic.message}${source}`;
+  }
+}
@@ -0,0 +1,184 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import * as core from "@actions/core";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * SHA GitHub sends as `before` when a push creates the branch
+ */
+const NULL_SHA = /^0+$/;
+
+/**
+ * Largest diff read from git (64 MiB)
+ */
+const MAX_DIFF_BYTES = 64 * 1024 * 1024;
+
+/**
+ * Commits fetched per attempt when a shallow clone lacks the merge base;
+ * the depth doubles on each retry
+ */
+const INITIAL_DEEPEN_DEPTH = 50;
+
+/**
+ * Deepening attempts before giving up on finding the merge base
+ */
+const MAX_DEEPEN_ATTEMPTS = 4;
+
+/**
+ * Commits to diff for patch coverage outside pull requests
+ */
+export interface DiffRange {
+  /** Commit (or ref) the patch is measured against */
+  base: string;
+  /** Commit whose changes make up the patch */
+  head: string;
+  /** Diff against the merge base of base and head rather than base itself */
+  mergeBase: boolean;
+  /** What the range came from, for logging */
+  source: string;
+}
+
+/**
+ * Run git in the checkout
+ * @returns Trimmed stdout
+ */
+async function git(args: string[], cwd: string): Promise<string> {
+  const { stdout } = await execFileAsync("git", args, {
+    cwd,
+    maxBuffer: MAX_DIFF_BYTES,
+  });
+  return stdout.trim();
+}
+
+/**
+ * Run git, reporting failure as false instead of throwing
+ */
+async function gitSucceeds(args: string[], cwd: string): Promise<boolean> {
+  try {
+    await git(args, cwd);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolve a SHA or ref to a commit, fetching it from origin when the
+ * checkout does not have it (e.g. the `before` of a push in a shallow clone)
+ */
+async function resolveCommit(ref: string, cwd: string): Promise<string> {
+  for (const candidate of [ref, `origin/${ref}`]) {
+    if (
+      await gitSucceeds(
+        ["rev-parse", "--verify", "--quiet", `${candidate}^{commit}`],
+        cwd,
+      )
+    ) {
+      return git(["rev-parse", `${candidate}^{commit}`], cwd);
+    }
+  }
+
+  core.info(`Fetching ${ref} from origin for the patch diff`);
+  await git(["fetch", "--no-tags", "--depth=1", "origin", ref], cwd);
+  return git(["rev-parse", "FETCH_HEAD^{commit}"], cwd);
+}
+
+/**
+ * Find the merge base of two commits, deepening a shallow clone until the
+ * histories meet
+ */
+async function findMergeBase(
+  base: string,
+  head: string,
+  cwd: string,
+): Promise<string> {
+  let depth = INITIAL_DEEPEN_DEPTH;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await git(["merge-base", base, head], cwd);
+    } catch (error) {
+      const shallow =
+        (await git(["rev-parse", "--is-shallow-repository"], cwd)) === "true";
+      if (!shallow || attempt >= MAX_DEEPEN_ATTEMPTS) throw error;
+    }
+
+    core.info(`Deepening shallow clone by ${depth} commits to find merge base`);
+    await git(
+      ["fetch", "--no-tags", `--deepen=${depth}`, "origin", base, head],
+      cwd,
+    );
+    depth *= 2;
+  }
+}
+
+/**
+ * Produces patch diffs from the local checkout for events without a pull
+ * request: pushes, merge queue runs and explicit base refs
+ */
+export const LocalGitDiff = {
+  /**
+   * Work out which commits a run's patch spans
+   * @param eventName Workflow event (push, merge_group, ...)
+   * @param payload Webhook payload of the event
+   * @param sha Commit the workflow runs on
+   * @param baseRef Explicit base (patch-base-ref input); overrides the event
+   * @returns The range, or null when the event has no previous commit
+   */
+  resolveRange(
+    eventName: string,
+    payload: Record<string, unknown>,
+    sha: string,
+    baseRef?: string,
+  ): DiffRange | null {
+    if (baseRef) {
+      return {
+        base: baseRef,
+        head: sha,
+        mergeBase: true,
+        source: `patch-base-ref ${baseRef}`,
+      };
+    }
+
+    if (eventName === "push") {
+      const before = typeof payload.before === "string" ? payload.before : "";
+      const after = typeof payload.after === "string" ? payload.after : sha;
+      // A push that creates a branch has no previous commit
+      if (!before || NULL_SHA.test(before)) return null;
+      return { base: before, head: after, mergeBase: false, source: "push" };
+    }
+
+    if (eventName === "merge_group") {
+      const group = payload.merge_group as
+        | { base_sha?: string; head_sha?: string }
+        | undefined;
+      if (!group?.base_sha || !group.head_sha) return null;
+      return {
+        base: group.base_sha,
+        head: group.head_sha,
+        mergeBase: false,
+        source: "merge group",
+      };
+    }
+
+    return null;
+  },
+
+  /**
+   * Diff a range in the checkout, fetching missing commits and deepening
+   * shallow clones as needed
+   * @param range Range from resolveRange
+   * @param cwd Checkout root
+   * @returns Unified diff of the range
+   */
+  async getDiff(range: DiffRange, cwd: string): Promise<string> {
+    const head = await resolveCommit(range.head, cwd);
+    const base = await resolveCommit(range.base, cwd);
+    const from = range.mergeBase ? await findMergeBase(base, head, cwd) : base;
+
+    core.info(
+      `Diffing ${from.substring(0, 7)}..${head.substring(0, 7)} (${range.source})`,
+    );
+    return git(["diff", "--no-color", "--no-ext-diff", from, head], cwd);
+  },
+};
@@ -1,6 +1,7 @@
 import * as core from "@actions/core";
 import * as github from "@actions/github";
 import { ReportFormatter } from "../formatters/report-formatter.js";
+import { type DiffRange, LocalGitDiff } from "./git-diff.js";
 
 export class GitHubClient {
   private octokit: ReturnType<typeof github.getOctokit>;
@@ -158,4 +159,35 @@ export class GitHubClient {
     // but the API returns the raw diff string.
     return data as unknown as string;
   }
+
+  /**
+   * Get the commit range of the patch for events without a pull request
+   * (push, merge_group) or for an explicit base ref
+   */
+  getDiffRange(baseRef?: string): DiffRange | null {
+    return LocalGitDiff.resolveRange(
+      this.context.eventName,
+      this.context.payload,
+      this.context.sha,
+      baseRef,
+    );
+  }
+
+  /**
+   * Get the diff between two commits from the compare API
+   */
+  async getCompareDiff(base: string, head: string): Promise<string> {
+    const { owner, repo } = this.context.repo;
+    const { data } = await this.octokit.rest.repos.compareCommitsWithBasehead({
+      owner,
+      repo,
+      basehead: `${base}...${head}`,
+      mediaType: {
+        format: "diff",
+      },
+    });
+
+    // Like pulls.get, the diff media type returns the raw diff string
+    return data as unknown as string;
+  }
 }
@@ -0,0 +1,157 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { CoverageResults } from "../types/coverage.js";
+
+/**
+ * Directories the go tool never treats as part of a module
+ */
+const SKIPPED_DIRECTORIES = new Set(["node_modules", "vendor", "testdata"]);
+
+/**
+ * Read the module path declared by a go.mod file
+ */
+function readModulePath(goModPath: string): string | null {
+  try {
+    const content = fs.readFileSync(goModPath, "utf-8");
+    const match = content.match(/^\s*module\s+"?([^\s"]+)"?/m);
+    return match ? match[1] : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Collect directories containing a go.mod file
+ */
+function findGoModDirectories(directory: string, found: string[]): void {
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(directory, { withFileTypes: true });
+  } catch {
+    return;
+  }
+
+  for (const entry of entries) {
+    if (entry.isFile() && entry.name === "go.mod") {
+      found.push(directory);
+    } else if (
+      entry.isDirectory() &&
+      !SKIPPED_DIRECTORIES.has(entry.name) &&
+      !entry.name.startsWith(".") &&
+      !entry.name.startsWith("_")
+    ) {
+      findGoModDirectories(path.join(directory, entry.name), found);
+    }
+  }
+}
+
+/**
+ * Read the module directories listed by "use" directives of a go.work file
+ */
+function readGoWorkDirectories(goWorkPath: string): string[] {
+  let content: string;
+  try {
+    content = fs.readFileSync(goWorkPath, "utf-8");
+  } catch {
+    return [];
+  }
+
+  const withoutComments = content.replace(/\/\/.*$/gm, "");
+  const directories: string[] = [];
+  for (const block of withoutComments.matchAll(/^\s*use\s*\(([^)]*)\)/gm)) {
+    directories.push(...block[1].split(/\s+/).filter(Boolean));
+  }
+  for (const single of withoutComments.matchAll(/^\s*use\s+([^\s(]+)/gm)) {
+    directories.push(single[1]);
+  }
+
+  const baseDir = path.dirname(goWorkPath);
+  return directories.map((dir) =>
+    path.resolve(baseDir, dir.replace(/^"|"$/g, "")),
+  );
+}
+
+/**
+ * Resolves Go import paths in coverage profiles to repo-relative paths using
+ * the go.mod (and go.work) files of the checkout
+ */
+export const GoModuleResolver = {
+  /**
+   * Find every Go module under the workspace
+   * @param workspace Checkout root
+   * @returns Module path -> module directory relative to the workspace ("" for the root)
+   */
+  findModules(workspace: string): Map<string, string> {
+    const directories: string[] = [];
+    findGoModDirectories(workspace, directories);
+
+    // go.work can pull in modules from skipped or sibling directories
+    const goWorkPath = path.join(workspace, "go.work");
+    if (fs.existsSync(goWorkPath)) {
+      directories.push(...readGoWorkDirectories(goWorkPath));
+    }
+
+    const modules: Map<string, string> = new Map();
+    for (const directory of directories) {
+      const modulePath = readModulePath(path.join(directory, "go.mod"));
+      if (!modulePath || modules.has(modulePath)) continue;
+      modules.set(
+        modulePath,
+        path.relative(workspace, directory).replace(/\\/g, "/"),
+      );
+    }
+
+    return modules;
+  },
+
+  /**
+   * Resolve an import-path style file name to a repo-relative path
+   * @returns The repo-relative path, or null when no module matches
+   */
+  resolvePath(filePath: string, modules: Map<string, string>): string | null {
+    // Longest module path wins (nested modules in a monorepo)
+    let bestModule: string | null = null;
+    let bestDirectory = "";
+    for (const [modulePath, directory] of modules) {
+      if (
+        filePath.startsWith(`${modulePath}/`) &&
+        (!bestModule || modulePath.length > bestModule.length)
+      ) {
+        bestModule = modulePath;
+        bestDirectory = directory;
+      }
+    }
+    if (!bestModule) return null;
+
+    const rest = filePath.slice(bestModule.length + 1);
+    return bestDirectory ? `${bestDirectory}/${rest}` : rest;
+  },
+
+  /**
+   * Rewrite every file of a Go coverage result to its repo-relative path
+   * @param results Parsed Go coverage
+   * @param modules Modules found by findModules
+   * @returns The rewritten results and the paths no module matched
+   */
+  resolveResultPaths(
+    results: CoverageResults,
+    modules: Map<string, string>,
+  ): { results: CoverageResults; unresolved: string[] } {
+    const unresolved: string[] = [];
+
+    const files = results.files.map((file) => {
+      // Absolute paths (GOPATH-less builds) are left to the path fixes
+      if (file.path.startsWith("/") || file.path.startsWith("_/")) {
+        return file;
+      }
+      const resolved = GoModuleResolver.resolvePath(file.path, modules);
+      if (!resolved) {
+        unresolved.push(file.path);
+        return file;
+      }
+      return { ...file, path: resolved };
+    });
+
+    return { results: { ...results, files }, unresolved };
+  },
+};
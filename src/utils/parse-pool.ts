@@ -0,0 +1,175 @@
+import { Worker } from "node:worker_threads";
+import type { CoverageFormat } from "../parsers/base-parser.js";
+import { CoverageParserFactory } from "../parsers/parser-factory.js";
+import type { CoverageResults } from "../types/coverage.js";
+import type { ParseDiagnostic } from "../types/diagnostics.js";
+import { toCoverageInput } from "./compression.js";
+import { DiagnosticsCollector } from "./diagnostics.js";
+
+/**
+ * A report to parse, in a form that can be posted to a worker thread
+ */
+export interface ParseTask {
+  filePath: string;
+  label: string;
+  /** The report text, or null for large reports the worker streams */
+  content: string | null;
+  format: CoverageFormat | "auto";
+}
+
+/**
+ * Outcome of a parse task. Errors are returned rather than thrown so they
+ * can cross the thread boundary.
+ */
+export interface ParseTaskResult {
+  results?: CoverageResults;
+  error?: string;
+  diagnostics: ParseDiagnostic[];
+}
+
+/**
+ * Options every worker starts with
+ */
+export interface ParseWorkerData {
+  /** Parser plugin module paths, loaded by each worker */
+  plugins: string[];
+  workspace: string;
+}
+
+/**
+ * Worker script, emitted next to the bundled action (dist/parse-worker.js)
+ */
+const WORKER_URL = new URL("./parse-worker.js", import.meta.url);
+
+/**
+ * Parse a report in the current thread
+ */
+export async function runParseTask(task: ParseTask): Promise<ParseTaskResult> {
+  const diagnostics = new DiagnosticsCollector(task.label);
+  try {
+    const results = await CoverageParserFactory.parseInput(
+      toCoverageInput(task.filePath, task.label, task.content),
+      task.format,
+      diagnostics,
+    );
+    return { results, diagnostics: diagnostics.getDiagnostics() };
+  } catch (error) {
+    return {
+      error: error instanceof Error ? error.message : "Unknown error",
+      diagnostics: diagnostics.getDiagnostics(),
+    };
+  }
+}
+
+/**
+ * Parses coverage reports on a pool of worker threads, so XML parsing of
+ * many reports doesn't run one file at a time. With a concurrency of 1
+ * reports are parsed on the main thread.
+ */
+export class ParsePool {
+  private readonly workers: Worker[] = [];
+  private readonly idle: Worker[] = [];
+  private readonly running: Map<
+    Worker,
+    { resolve: (result: ParseTaskResult) => void; reject: (e: Error) => void }
+  > = new Map();
+  private readonly queue: Array<{
+    task: ParseTask;
+    resolve: (result: ParseTaskResult) => void;
+    reject: (e: Error) => void;
+  }> = [];
+
+  /**
+   * @param concurrency Worker threads to start at most; 1 parses on the
+   * main thread
+   * @param workerData Options every worker starts with
+   * @param workerUrl Worker script; the bundled parse worker by default
+   */
+  constructor(
+    private readonly concurrency: number,
+    private readonly workerData: ParseWorkerData,
+    private readonly workerUrl: URL = WORKER_URL,
+  ) {}
+
+  /**
+   * Parse a report on the next free worker
+   */
+  parse(task: ParseTask): Promise<ParseTaskResult> {
+    if (this.concurrency <= 1) {
+      return runParseTask(task);
+    }
+    return new Promise((resolve, reject) => {
+      this.queue.push({ task, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Stop all workers; tasks still queued are rejected
+   */
+  async close(): Promise<void> {
+    for (const { reject } of this.queue.splice(0)) {
+      reject(new Error("Parse pool closed"));
+    }
+    await Promise.all(this.workers.map((worker) => worker.terminate()));
+    this.workers.length = 0;
+    this.idle.length = 0;
+  }
+
+  /**
+   * Hand queued tasks to idle workers, starting workers up to the limit
+   */
+  private dispatch(): void {
+    let job = this.queue[0];
+    while (job) {
+      const worker =
+        this.idle.pop() ??
+        (this.workers.length < this.concurrency ? this.spawn() : undefined);
+      if (!worker) return;
+
+      this.queue.shift();
+      this.running.set(worker, job);
+      worker.postMessage(job.task);
+      job = this.queue[0];
+    }
+  }
+
+  /**
+   * Start a worker. A worker that crashes fails its task and is replaced
+   * on the next dispatch.
+   */
+  private spawn(): Worker {
+    const worker = new Worker(this.workerUrl, {
+      workerData: this.workerData,
+    });
+
+    worker.on("message", (result: ParseTaskResult) => {
+      const job = this.running.get(worker);
+      this.running.delete(worker);
+      this.idle.push(worker);
+      job?.resolve(result);
+      this.dispatch();
+    });
+    const fail = (error: Error) => {
+      const job = this.running.get(worker);
+      this.running.delete(worker);
+      this.remove(worker);
+      job?.reject(error);
+      this.dispatch();
+    };
+    worker.on("error", fail);
+    worker.on("exit", (code) => {
+      fail(new Error(`Parser worker exited with code ${code}`));
+    });
+
+    this.workers.push(worker);
+    return worker;
+  }
+
+  private remove(worker: Worker): void {
+    const index = this.workers.indexOf(worker);
+    if (index !== -1) this.workers.splice(index, 1);
+    const idleIndex = this.idle.indexOf(worker);
+    if (idleIndex !== -1) this.idle.splice(idleIndex, 1);
+  }
+}
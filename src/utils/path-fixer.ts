@@ -0,0 +1,73 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { PathFix } from "../types/config.js";
+import type { CoverageResults, FileCoverage } from "../types/coverage.js";
+
+/**
+ * Options for rewriting coverage file paths
+ */
+export interface PathFixOptions {
+  /** Rewrites from the `fixes:` config section, applied in order */
+  fixes: PathFix[];
+  /** Checkout root; stripped from absolute paths and used for existence checks */
+  workspace: string;
+  /** Called for every rewrite and dropped path */
+  log?: (message: string) => void;
+}
+
+/**
+ * Rewrites coverage file paths to repo-relative paths (Codecov-style "fixes")
+ */
+export const PathFixer = {
+  /**
+   * Apply the configured fixes, then strip the workspace prefix
+   * @returns The rewritten path (forward slashes, repo-relative when possible)
+   */
+  fixPath(filePath: string, fixes: PathFix[], workspace: string): string {
+    let fixed = filePath.replace(/\\/g, "/");
+
+    for (const fix of fixes) {
+      if (fix.regex) {
+        fixed = fixed.replace(new RegExp(fix.before), fix.after);
+      } else if (fixed.startsWith(fix.before)) {
+        fixed = fix.after + fixed.slice(fix.before.length);
+      }
+    }
+
+    const root = workspace.replace(/\\/g, "/").replace(/\/+$/, "");
+    if (root && fixed.startsWith(`${root}/`)) {
+      fixed = fixed.slice(root.length + 1);
+    }
+
+    return fixed.replace(/^(\.\/)+/, "");
+  },
+
+  /**
+   * Rewrite every file path of a parse result and drop files that do not
+   * exist in the checkout
+   * @returns A result containing only files found in the workspace
+   */
+  fixResultPaths(
+    results: CoverageResults,
+    options: PathFixOptions,
+  ): CoverageResults {
+    const { fixes, workspace, log } = options;
+    const files: FileCoverage[] = [];
+
+    for (const file of results.files) {
+      const fixed = PathFixer.fixPath(file.path, fixes, workspace);
+      if (fixed !== file.path) {
+        log?.(`Path fix: ${file.path} -> ${fixed}`);
+      }
+
+      if (!fs.existsSync(path.resolve(workspace, fixed))) {
+        log?.(`Dropping ${fixed}: not found in the checkout`);
+        continue;
+      }
+
+      files.push(fixed === file.path ? file : { ...file, path: fixed });
+    }
+
+    return { ...results, files };
+  },
+};
@@ -0,0 +1,54 @@
+import type { CoverageRegion } from "../types/coverage.js";
+
+/**
+ * Key identifying a region by its range
+ */
+function regionKey(region: CoverageRegion): string {
+  return `${region.startLine}.${region.startColumn},${region.endLine}.${region.endColumn}`;
+}
+
+/**
+ * Column-precise coverage regions (Istanbul statements and expressions,
+ * Go profile blocks)
+ */
+export const CoverageRegions = {
+  /**
+   * Lines touched by a region that never ran. A hit line among them is
+   * only partially covered.
+   * @param regions Regions of one file
+   */
+  uncoveredLines(regions: CoverageRegion[]): Set<number> {
+    const lines: Set<number> = new Set();
+    for (const region of regions) {
+      if (region.count > 0) continue;
+      for (let line = region.startLine; line <= region.endLine; line++) {
+        lines.add(line);
+      }
+    }
+    return lines;
+  },
+
+  /**
+   * Merge regions of the same file from several reports: counts of the same
+   * range add up
+   * @param regionLists Regions of each report
+   * @returns Merged regions sorted by position
+   */
+  merge(regionLists: CoverageRegion[][]): CoverageRegion[] {
+    const merged: Map<string, CoverageRegion> = new Map();
+    for (const regions of regionLists) {
+      for (const region of regions) {
+        const key = regionKey(region);
+        const existing = merged.get(key);
+        if (existing) {
+          existing.count += region.count;
+        } else {
+          merged.set(key, { ...region });
+        }
+      }
+    }
+    return Array.from(merged.values()).sort(
+      (a, b) => a.startLine - b.startLine || a.startColumn - b.startColumn,
+    );
+  },
+};
@@ -0,0 +1,343 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type {
+  BranchCoverage,
+  CoverageMetrics,
+  CoverageResults,
+  FileCoverage,
+  FunctionCoverage,
+  LineCoverage,
+} from "../types/coverage.js";
+import { loadSourceMap, type SourceMap } from "./source-map.js";
+
+/**
+ * Per-line hits projected onto an original source
+ */
+interface ProjectedLine {
+  count: number;
+  hasBranch: boolean;
+  coveredBranches: number;
+  totalBranches: number;
+  // Kept only while the branch data comes from a single generated line
+  branches?: BranchCoverage[];
+}
+
+/**
+ * Per-source accumulator; several generated files (bundles, chunks) can
+ * contain the same original source
+ */
+interface RemapAccumulator {
+  path: string;
+  lines: Map<number, ProjectedLine>;
+  methods: number;
+  coveredMethods: number;
+  functions: FunctionCoverage[];
+}
+
+/**
+ * Calculate percentage rate, rounded to 2 decimals
+ */
+function calculateRate(covered: number, total: number): number {
+  if (total === 0) return 0;
+  return Number.parseFloat(((covered / total) * 100).toFixed(2));
+}
+
+/**
+ * Find the original line a generated line starts in
+ * @returns The original source and 1-based line, or null when unmapped
+ */
+function mapLine(
+  sourceMap: SourceMap,
+  lineNumber: number,
+): { source: string; line: number } | null {
+  for (const segment of sourceMap.lines[lineNumber - 1] || []) {
+    if (segment.sourceIndex === undefined) continue;
+    const source = sourceMap.sources[segment.sourceIndex];
+    if (!source || source.includes("/node_modules/")) continue;
+    return { source, line: (segment.originalLine ?? 0) + 1 };
+  }
+  return null;
+}
+
+/**
+ * Resolve a reported path to an existing generated file
+ * @returns The absolute path and the base directory it was resolved against
+ */
+function resolveGeneratedPath(
+  reportedPath: string,
+  baseDirs: string[],
+): { absolutePath: string; baseDir: string | null } | null {
+  if (path.isAbsolute(reportedPath)) {
+    return fs.existsSync(reportedPath)
+      ? { absolutePath: reportedPath, baseDir: null }
+      : null;
+  }
+  for (const baseDir of baseDirs) {
+    const absolutePath = path.resolve(baseDir, reportedPath);
+    if (fs.existsSync(absolutePath)) {
+      return { absolutePath, baseDir };
+    }
+  }
+  return null;
+}
+
+/**
+ * Express an original source path the way the report expressed the generated
+ * one: relative to the same base directory, or absolute
+ */
+function toReportPath(source: string, baseDir: string | null): string {
+  if (baseDir) {
+    const relative = path.relative(baseDir, source).replace(/\\/g, "/");
+    if (!relative.startsWith("../")) {
+      return relative;
+    }
+  }
+  return source;
+}
+
+/**
+ * Convert an accumulator to FileCoverage
+ */
+function buildFileCoverage(acc: RemapAccumulator): FileCoverage {
+  const lines: LineCoverage[] = [];
+  const missingLines: number[] = [];
+  const partialLines: number[] = [];
+  let coveredStatements = 0;
+  let totalBranches = 0;
+  let coveredBranches = 0;
+
+  for (const [lineNumber, line] of acc.lines.entries()) {
+    totalBranches += line.totalBranches;
+    coveredBranches += line.coveredBranches;
+
+    lines.push({
+      lineNumber,
+      count: line.count,
+      type: line.hasBranch ? "cond" : "stmt",
+      trueCount: line.hasBranch ? line.coveredBranches : undefined,
+      falseCount: line.hasBranch
+        ? line.totalBranches - line.coveredBranches
+        : undefined,
+      branches: line.branches,
+    });
+
+    if (line.count > 0) {
+      coveredStatements++;
+      if (line.hasBranch && line.coveredBranches < line.totalBranches) {
+        partialLines.push(lineNumber);
+      }
+    } else {
+      missingLines.push(lineNumber);
+    }
+  }
+
+  // Sort by line number
+  lines.sort((a, b) => a.lineNumber - b.lineNumber);
+  missingLines.sort((a, b) => a - b);
+  partialLines.sort((a, b) => a - b);
+
+  // Located functions give exact counts
+  const functions = acc.functions.sort((a, b) => a.startLine - b.startLine);
+  if (functions.length > 0) {
+    acc.methods = functions.length;
+    acc.coveredMethods = functions.filter((fn) => fn.hits > 0).length;
+  }
+
+  return {
+    name: acc.path.split("/").pop() || acc.path,
+    path: acc.path,
+    statements: lines.length,
+    coveredStatements,
+    conditionals: totalBranches,
+    coveredConditionals: coveredBranches,
+    methods: acc.methods,
+    coveredMethods: acc.coveredMethods,
+    lineRate: calculateRate(coveredStatements, lines.length),
+    branchRate: calculateRate(coveredBranches, totalBranches),
+    lines,
+    missingLines,
+    partialLines,
+    functions,
+  };
+}
+
+/**
+ * Remaps coverage of generated (bundled/compiled) files onto their original
+ * sources using source maps found next to the generated files
+ */
+export const SourceMapRemapper = {
+  /**
+   * Project line and branch hits of every file that has a source map back
+   * onto its original sources. Files without a source map are kept as-is.
+   * @param results Parsed coverage results
+   * @param baseDirs Directories to resolve relative report paths against, in order
+   * @returns Results whose files point at original sources
+   */
+  remapResults(results: CoverageResults, baseDirs: string[]): CoverageResults {
+    const files: FileCoverage[] = [];
+    const accumulators: Map<string, RemapAccumulator> = new Map();
+
+    for (const file of results.files) {
+      const resolved = resolveGeneratedPath(file.path, baseDirs);
+      const sourceMap = resolved ? loadSourceMap(resolved.absolutePath) : null;
+      if (!resolved || !sourceMap) {
+        files.push(file);
+        continue;
+      }
+
+      // Project this generated file first: a generated line usually maps to
+      // one original line, but several generated lines can share one
+      const projected: Map<string, Map<number, ProjectedLine>> = new Map();
+
+      for (const line of file.lines) {
+        const segments = sourceMap.lines[line.lineNumber - 1] || [];
+        const seen: Set<string> = new Set();
+        let isFirstTarget = true;
+
+        for (const segment of segments) {
+          if (segment.sourceIndex === undefined) continue;
+          const source = sourceMap.sources[segment.sourceIndex];
+          if (!source || source.includes("/node_modules/")) continue;
+          const originalLine = (segment.originalLine ?? 0) + 1;
+          const key = `${segment.sourceIndex}:${originalLine}`;
+          if (seen.has(key)) continue;
+          seen.add(key);
+
+          let sourceLines = projected.get(source);
+          if (!sourceLines) {
+            sourceLines = new Map();
+            projected.set(source, sourceLines);
+          }
+          const entry = sourceLines.get(originalLine) || {
+            count: 0,
+            hasBranch: false,
+            coveredBranches: 0,
+            totalBranches: 0,
+          };
+          entry.count = Math.max(entry.count, line.count);
+
+          // Branch arms belong to the statement the generated line starts with
+          if (isFirstTarget && line.type === "cond") {
+            const covered = line.trueCount ?? 0;
+            entry.branches = entry.hasBranch ? undefined : line.branches;
+            entry.hasBranch = true;
+            entry.coveredBranches += covered;
+            entry.totalBranches += covered + (line.falseCount ?? 0);
+          }
+          isFirstTarget = false;
+          sourceLines.set(originalLine, entry);
+        }
+      }
+
+      const getAccumulator = (source: string): RemapAccumulator => {
+        const reportPath = toReportPath(source, resolved.baseDir);
+        let acc = accumulators.get(reportPath);
+        if (!acc) {
+          acc = {
+            path: reportPath,
+            lines: new Map(),
+            methods: 0,
+            coveredMethods: 0,
+            functions: [],
+          };
+          accumulators.set(reportPath, acc);
+        }
+        return acc;
+      };
+
+      // A function goes to the source its first line maps to
+      for (const fn of file.functions ?? []) {
+        const start = mapLine(sourceMap, fn.startLine);
+        if (!start) continue;
+        const end = fn.endLine ? mapLine(sourceMap, fn.endLine) : null;
+        getAccumulator(start.source).functions.push({
+          ...fn,
+          startLine: start.line,
+          endLine:
+            end && end.source === start.source && end.line >= start.line
+              ? end.line
+              : undefined,
+        });
+      }
+
+      for (const [source, sourceLines] of projected.entries()) {
+        const acc = getAccumulator(source);
+
+        // Merge generated files: hits add up, branch arms are the same arms
+        for (const [lineNumber, line] of sourceLines.entries()) {
+          const existing = acc.lines.get(lineNumber);
+          if (!existing) {
+            acc.lines.set(lineNumber, { ...line });
+            continue;
+          }
+          existing.count += line.count;
+          if (line.hasBranch) {
+            existing.branches = existing.hasBranch ? undefined : line.branches;
+          }
+          existing.hasBranch = existing.hasBranch || line.hasBranch;
+          existing.coveredBranches = Math.max(
+            existing.coveredBranches,
+            line.coveredBranches,
+          );
+          existing.totalBranches = Math.max(
+            existing.totalBranches,
+            line.totalBranches,
+          );
+        }
+
+        // Function counts have no location; only a single-source map keeps them
+        if (projected.size === 1) {
+          acc.methods = Math.max(acc.methods, file.methods);
+          acc.coveredMethods = Math.max(
+            acc.coveredMethods,
+            file.coveredMethods,
+          );
+        }
+      }
+    }
+
+    // Nothing had a source map; keep the parser's own metrics
+    if (accumulators.size === 0) {
+      return results;
+    }
+
+    for (const acc of accumulators.values()) {
+      files.push(buildFileCoverage(acc));
+    }
+
+    let totalStatements = 0;
+    let coveredStatements = 0;
+    let totalConditionals = 0;
+    let coveredConditionals = 0;
+    let totalMethods = 0;
+    let coveredMethods = 0;
+
+    for (const file of files) {
+      totalStatements += file.statements;
+      coveredStatements += file.coveredStatements;
+      totalConditionals += file.conditionals;
+      coveredConditionals += file.coveredConditionals;
+      totalMethods += file.methods;
+      coveredMethods += file.coveredMethods;
+    }
+
+    const metrics: CoverageMetrics = {
+      statements: totalStatements,
+      coveredStatements,
+      conditionals: totalConditionals,
+      coveredConditionals,
+      methods: totalMethods,
+      coveredMethods,
+      elements: totalStatements + totalConditionals,
+      coveredElements: coveredStatements + coveredConditionals,
+      lineRate: calculateRate(coveredStatements, totalStatements),
+      branchRate: calculateRate(coveredConditionals, totalConditionals),
+    };
+
+    return {
+      timestamp: results.timestamp,
+      metrics,
+      files,
+    };
+  },
+};
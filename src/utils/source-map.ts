@@ -0,0 +1,244 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+
+/**
+ * Source map v3 as written by tsc, esbuild, webpack, babel, etc.
+ */
+export interface RawSourceMap {
+  version: number;
+  file?: string;
+  sourceRoot?: string;
+  sources: string[];
+  sourcesContent?: Array<string | null>;
+  names?: string[];
+  mappings: string;
+}
+
+/**
+ * A decoded mapping segment; columns and lines are 0-based as in the spec
+ */
+export interface MappingSegment {
+  generatedColumn: number;
+  sourceIndex?: number;
+  originalLine?: number;
+  originalColumn?: number;
+}
+
+/**
+ * A position in an original source; line is 1-based, column is 0-based
+ */
+export interface OriginalPosition {
+  source: string;
+  line: number;
+  column: number;
+}
+
+const BASE64_CHARS =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+const BASE64_VALUES: Map<string, number> = new Map(
+  Array.from(BASE64_CHARS).map((char, index) => [char, index]),
+);
+
+/**
+ * Decode one segment's base64 VLQ fields
+ */
+function decodeVlqFields(segment: string): number[] {
+  const fields: number[] = [];
+  let value = 0;
+  let shift = 0;
+
+  for (const char of segment) {
+    const digit = BASE64_VALUES.get(char);
+    if (digit === undefined) {
+      throw new Error(`Invalid source map mappings: unexpected '${char}'`);
+    }
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+      continue;
+    }
+    // Lowest bit carries the sign
+    fields.push(value & 1 ? -(value >>> 1) : value >>> 1);
+    value = 0;
+    shift = 0;
+  }
+
+  return fields;
+}
+
+/**
+ * Decode a "mappings" string into segments per generated line (0-based index)
+ */
+export function decodeMappings(mappings: string): MappingSegment[][] {
+  const lines: MappingSegment[][] = [];
+  // Source index, original line and column are relative across the whole map
+  let sourceIndex = 0;
+  let originalLine = 0;
+  let originalColumn = 0;
+
+  for (const lineMappings of mappings.split(";")) {
+    const segments: MappingSegment[] = [];
+    // Generated column is relative within a line only
+    let generatedColumn = 0;
+
+    for (const segment of lineMappings.split(",")) {
+      if (!segment) continue;
+      const fields = decodeVlqFields(segment);
+      generatedColumn += fields[0];
+
+      if (fields.length >= 4) {
+        sourceIndex += fields[1];
+        originalLine += fields[2];
+        originalColumn += fields[3];
+        segments.push({
+          generatedColumn,
+          sourceIndex,
+          originalLine,
+          originalColumn,
+        });
+      } else {
+        segments.push({ generatedColumn });
+      }
+    }
+
+    segments.sort((a, b) => a.generatedColumn - b.generatedColumn);
+    lines.push(segments);
+  }
+
+  return lines;
+}
+
+/**
+ * Resolve a source entry to a file system path with forward slashes
+ */
+function resolveSourcePath(
+  source: string,
+  sourceRoot: string | undefined,
+  mapPath: string,
+): string {
+  let resolved: string;
+  if (source.startsWith("file://")) {
+    resolved = fileURLToPath(source);
+  } else if (path.isAbsolute(source)) {
+    resolved = source;
+  } else {
+    resolved = path.resolve(path.dirname(mapPath), sourceRoot || "", source);
+  }
+  return resolved.replace(/\\/g, "/");
+}
+
+/**
+ * A decoded source map that resolves generated positions to original ones
+ */
+export class SourceMap {
+  /** Original sources, resolved against the map location */
+  readonly sources: string[];
+  /** Segments per generated line (0-based index), sorted by column */
+  readonly lines: MappingSegment[][];
+
+  /**
+   * @param raw The parsed source map
+   * @param mapPath Path of the .map file (or of the generated file for inline maps)
+   */
+  constructor(raw: RawSourceMap, mapPath: string) {
+    if (
+      !raw ||
+      typeof raw.mappings !== "string" ||
+      !Array.isArray(raw.sources)
+    ) {
+      throw new Error("Invalid source map: missing 'mappings' or 'sources'");
+    }
+    const sourceRoot = raw.sourceRoot?.startsWith("file://")
+      ? fileURLToPath(raw.sourceRoot)
+      : raw.sourceRoot;
+    this.sources = raw.sources.map((source) =>
+      resolveSourcePath(source || "", sourceRoot, mapPath),
+    );
+    this.lines = decodeMappings(raw.mappings);
+  }
+
+  /**
+   * Find the original position for a generated position
+   * @param line 1-based generated line
+   * @param column 0-based generated column
+   * @returns The original position, or null when the code is unmapped
+   */
+  originalPositionFor(line: number, column: number): OriginalPosition | null {
+    const segments = this.lines[line - 1];
+    if (!segments || segments.length === 0) return null;
+
+    // Last segment starting at or before the column
+    let low = 0;
+    let high = segments.length - 1;
+    let found = -1;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (segments[mid].generatedColumn <= column) {
+        found = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    const segment = segments[found];
+    if (!segment || segment.sourceIndex === undefined) return null;
+    return {
+      source: this.sources[segment.sourceIndex],
+      line: (segment.originalLine ?? 0) + 1,
+      column: segment.originalColumn ?? 0,
+    };
+  }
+}
+
+/**
+ * Load the source map of a generated file, following an inline data: URL or
+ * a sidecar file named by its sourceMappingURL comment, then <file>.map
+ * @param generatedPath Path of the generated (compiled) file
+ * @param generatedSource Contents of the generated file, read when omitted
+ * @returns The source map, or null when none can be found or decoded
+ */
+export function loadSourceMap(
+  generatedPath: string,
+  generatedSource?: string,
+): SourceMap | null {
+  let source = generatedSource;
+  if (source === undefined) {
+    try {
+      source = fs.readFileSync(generatedPath, "utf-8");
+    } catch {
+      return null;
+    }
+  }
+
+  // The last sourceMappingURL comment wins
+  const matches = Array.from(
+    source.matchAll(/\/\/[#@]\s*sourceMappingURL=(\S+)\s*$/gm),
+  );
+  const url = matches.length > 0 ? matches[matches.length - 1][1] : undefined;
+
+  try {
+    if (url?.startsWith("data:")) {
+      const comma = url.indexOf(",");
+      const payload = url.slice(comma + 1);
+      const json = url.slice(0, comma).endsWith(";base64")
+        ? Buffer.from(payload, "base64").toString("utf-8")
+        : decodeURIComponent(payload);
+      return new SourceMap(JSON.parse(json), generatedPath);
+    }
+
+    const mapPath = url
+      ? url.startsWith("file://")
+        ? fileURLToPath(url)
+        : path.resolve(path.dirname(generatedPath), decodeURIComponent(url))
+      : `${generatedPath}.map`;
+    if (!fs.existsSync(mapPath)) return null;
+    return new SourceMap(
+      JSON.parse(fs.readFileSync(mapPath, "utf-8")),
+      mapPath,
+    );
+  } catch {
+    return null;
+  }
+}
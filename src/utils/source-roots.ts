@@ -0,0 +1,204 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { CoverageResults } from "../types/coverage.js";
+
+/**
+ * Directories that never hold checked-in JVM sources
+ */
+const SKIPPED_DIRECTORIES = new Set([
+  "node_modules",
+  "build",
+  "target",
+  "out",
+  "bin",
+]);
+
+/**
+ * Conventional Maven/Gradle source set roots (src/main/java, src/test/kotlin, ...)
+ */
+const CONVENTIONAL_ROOT_PATTERN =
+  /(^|\/)src\/[^/]+\/(java|kotlin|scala|groovy)$/;
+
+/**
+ * Source files of the checkout, indexed for package-relative lookups
+ */
+export interface SourceIndex {
+  /** Checkout root */
+  workspace: string;
+  /** Conventional source roots relative to the workspace, sorted */
+  roots: string[];
+  /** File name -> repo-relative paths of every file with that name */
+  files: Map<string, string[]>;
+}
+
+/**
+ * Walk the workspace collecting conventional roots and files by name
+ */
+function scanDirectory(
+  workspace: string,
+  relativeDir: string,
+  index: SourceIndex,
+): void {
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(path.join(workspace, relativeDir), {
+      withFileTypes: true,
+    });
+  } catch {
+    return;
+  }
+
+  if (CONVENTIONAL_ROOT_PATTERN.test(relativeDir)) {
+    index.roots.push(relativeDir);
+  }
+
+  for (const entry of entries) {
+    if (entry.name.startsWith(".")) continue;
+    const relativePath = relativeDir
+      ? `${relativeDir}/${entry.name}`
+      : entry.name;
+
+    if (entry.isDirectory()) {
+      if (!SKIPPED_DIRECTORIES.has(entry.name)) {
+        scanDirectory(workspace, relativePath, index);
+      }
+    } else if (entry.isFile()) {
+      const sameName = index.files.get(entry.name);
+      if (sameName) {
+        sameName.push(relativePath);
+      } else {
+        index.files.set(entry.name, [relativePath]);
+      }
+    }
+  }
+}
+
+/**
+ * Turn a report source root into a workspace-relative directory
+ * @returns The relative root, or null when it lies outside the workspace
+ */
+function toRelativeRoot(root: string, workspace: string): string | null {
+  const normalized = root.replace(/\\/g, "/").replace(/\/+$/, "");
+  if (!path.isAbsolute(normalized)) {
+    return normalized.replace(/^(\.\/)+/, "").replace(/^\.$/, "");
+  }
+  const relative = path.relative(workspace, normalized).replace(/\\/g, "/");
+  if (relative.startsWith("..") || path.isAbsolute(relative)) return null;
+  return relative;
+}
+
+/**
+ * Count how many trailing directories two paths have in common
+ */
+function countCommonTrailingDirectories(a: string[], b: string[]): number {
+  let count = 0;
+  while (
+    count < a.length &&
+    count < b.length &&
+    a[a.length - 1 - count] === b[b.length - 1 - count]
+  ) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Resolves package-relative paths of JVM coverage reports (JaCoCo, Cobertura)
+ * to repo-relative paths using source roots
+ */
+export const SourceRootResolver = {
+  /**
+   * Index the source files and conventional source roots of the workspace
+   * @param workspace Checkout root
+   */
+  scan(workspace: string): SourceIndex {
+    const index: SourceIndex = { workspace, roots: [], files: new Map() };
+    scanDirectory(workspace, "", index);
+    index.roots.sort();
+    return index;
+  },
+
+  /**
+   * Resolve a package-relative file path
+   * @param filePath Path from the report (e.g. com/acme/Foo.java)
+   * @param index Index built by scan
+   * @param roots Source roots to try before the conventional ones, in order
+   * @returns The repo-relative path, or null when no file (or no single best file) matches
+   */
+  resolvePath(
+    filePath: string,
+    index: SourceIndex,
+    roots: string[] = [],
+  ): string | null {
+    const { workspace } = index;
+    const normalized = filePath.replace(/\\/g, "/").replace(/^(\.\/)+/, "");
+    if (fs.existsSync(path.join(workspace, normalized))) return normalized;
+
+    // Explicit roots first, then conventional module roots
+    const candidateRoots = [
+      ...roots
+        .map((root) => toRelativeRoot(root, workspace))
+        .filter((root): root is string => root !== null),
+      ...index.roots,
+    ];
+    for (const root of candidateRoots) {
+      const candidate = root ? `${root}/${normalized}` : normalized;
+      if (fs.existsSync(path.join(workspace, candidate))) return candidate;
+    }
+
+    // Fall back to files with the same name, preferring the one whose
+    // directories line up with the package (Kotlin files may live anywhere)
+    const sameName = index.files.get(path.posix.basename(normalized));
+    if (!sameName || sameName.length === 0) return null;
+    if (sameName.length === 1) return sameName[0];
+
+    const packageDirs = normalized.split("/").slice(0, -1);
+    let best: string | null = null;
+    let bestScore = -1;
+    let tied = false;
+    for (const candidate of sameName) {
+      const score = countCommonTrailingDirectories(
+        packageDirs,
+        candidate.split("/").slice(0, -1),
+      );
+      if (score > bestScore) {
+        best = candidate;
+        bestScore = score;
+        tied = false;
+      } else if (score === bestScore) {
+        tied = true;
+      }
+    }
+
+    return tied ? null : best;
+  },
+
+  /**
+   * Rewrite every file of a JaCoCo or Cobertura result to its repo-relative path
+   * @param results Parsed coverage; its sourceRoots are tried first
+   * @param index Index built by scan
+   * @param extraRoots Configured source roots, tried after the report's own
+   * @returns The rewritten results and the paths that could not be resolved
+   */
+  resolveResultPaths(
+    results: CoverageResults,
+    index: SourceIndex,
+    extraRoots: string[] = [],
+  ): { results: CoverageResults; unresolved: string[] } {
+    const roots = [...(results.sourceRoots ?? []), ...extraRoots];
+    const unresolved: string[] = [];
+
+    const files = results.files.map((file) => {
+      // Absolute paths are left to the path fixes
+      if (path.isAbsolute(file.path)) return file;
+      const resolved = SourceRootResolver.resolvePath(file.path, index, roots);
+      if (!resolved) {
+        unresolved.push(file.path);
+        return file;
+      }
+      return resolved === file.path ? file : { ...file, path: resolved };
+    });
+
+    return { results: { ...results, files }, unresolved };
+  },
+};
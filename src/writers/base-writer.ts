@@ -0,0 +1,46 @@
+import type {
+  AggregatedCoverageResults,
+  LineCoverage,
+} from "../types/coverage.js";
+
+/**
+ * Formats merged coverage can be exported to
+ */
+export type ExportFormat = "lcov" | "cobertura" | "codecov";
+
+/**
+ * Interface for coverage writers
+ */
+export interface ICoverageWriter {
+  /**
+   * The format this writer produces
+   */
+  readonly format: ExportFormat;
+
+  /**
+   * File name the report is written to in the export directory
+   */
+  readonly fileName: string;
+
+  /**
+   * Serialize merged coverage
+   * @param results Aggregated results of all parsed reports
+   * @returns The report text
+   */
+  write(results: AggregatedCoverageResults): string;
+}
+
+/**
+ * Covered and total branch arms of a line, or null when the line has no
+ * branch data
+ */
+export function getBranchArms(
+  line: LineCoverage,
+): { covered: number; total: number } | null {
+  if (line.trueCount === undefined && line.falseCount === undefined) {
+    return null;
+  }
+  const covered = line.trueCount ?? 0;
+  const total = covered + (line.falseCount ?? 0);
+  return total > 0 ? { covered, total } : null;
+}
@@ -0,0 +1,215 @@
+import type {
+  AggregatedCoverageResults,
+  FileCoverage,
+  FunctionCoverage,
+} from "../types/coverage.js";
+import {
+  type ExportFormat,
+  getBranchArms,
+  type ICoverageWriter,
+} from "./base-writer.js";
+
+/**
+ * Line and branch counts of the <line> elements written for some files
+ */
+interface LineTotals {
+  lines: number;
+  coveredLines: number;
+  branches: number;
+  coveredBranches: number;
+}
+
+/**
+ * Escape a value for use in an XML attribute
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Count the lines and branch arms of files
+ */
+function countLines(files: FileCoverage[]): LineTotals {
+  const totals: LineTotals = {
+    lines: 0,
+    coveredLines: 0,
+    branches: 0,
+    coveredBranches: 0,
+  };
+  for (const file of files) {
+    for (const line of file.lines) {
+      totals.lines++;
+      if (line.count > 0) totals.coveredLines++;
+      const arms = getBranchArms(line);
+      if (arms) {
+        totals.branches += arms.total;
+        totals.coveredBranches += arms.covered;
+      }
+    }
+  }
+  return totals;
+}
+
+/**
+ * Format the line-rate and branch-rate attributes (rates from 0 to 1)
+ */
+function formatRates(totals: LineTotals): string {
+  const rate = (covered: number, total: number) =>
+    total > 0 ? (covered / total).toFixed(4) : "1";
+  return `line-rate="${rate(totals.coveredLines, totals.lines)}" branch-rate="${rate(totals.coveredBranches, totals.branches)}"`;
+}
+
+/**
+ * Format a method's line-rate from the file's lines within its range, or
+ * from its own hits when its lines are unknown
+ */
+function formatMethodRate(file: FileCoverage, fn: FunctionCoverage): string {
+  const endLine = fn.endLine ?? fn.startLine;
+  const lines = file.lines.filter(
+    (line) => line.lineNumber >= fn.startLine && line.lineNumber <= endLine,
+  );
+  if (lines.length === 0) return fn.hits > 0 ? "1" : "0";
+  const covered = lines.filter((line) => line.count > 0).length;
+  return (covered / lines.length).toFixed(4);
+}
+
+/**
+ * Writes Cobertura XML, one <package> per directory and one <class> per file
+ *
+ * Cobertura counts every <line> as a statement, so line and branch metrics
+ * round-trip for line-based reports; statement-based totals (e.g. Go) do
+ * not. Functions are written as <method> elements whose single line carries
+ * the function's hits, so method totals round-trip too.
+ */
+export class CoberturaWriter implements ICoverageWriter {
+  readonly format: ExportFormat = "cobertura";
+  readonly fileName = "cobertura.xml";
+
+  write(results: AggregatedCoverageResults): string {
+    // Group files by directory, keeping first-seen order
+    const packages: Map<string, FileCoverage[]> = new Map();
+    for (const file of results.files) {
+      const slash = file.path.lastIndexOf("/");
+      const name =
+        slash === -1 ? "." : file.path.slice(0, slash).replace(/\//g, ".");
+      const files = packages.get(name);
+      if (files) {
+        files.push(file);
+      } else {
+        packages.set(name, [file]);
+      }
+    }
+
+    const totals = countLines(results.files);
+    const out: string[] = [];
+    out.push('<?xml version="1.0" ?>');
+    out.push(
+      `<coverage ${formatRates(totals)} lines-covered="${totals.coveredLines}" lines-valid="${totals.lines}" branches-covered="${totals.coveredBranches}" branches-valid="${totals.branches}" complexity="0" version="0" timestamp="${Math.floor(Date.now() / 1000)}">`,
+    );
+    // File paths are relative to the checkout
+    out.push("  <sources>");
+    out.push("    <source>.</source>");
+    out.push("  </sources>");
+    out.push("  <packages>");
+
+    for (const [name, files] of packages) {
+      out.push(
+        `    <package name="${escapeXml(name)}" ${formatRates(countLines(files))} complexity="0">`,
+      );
+      out.push("      <classes>");
+      for (const file of files) {
+        this.writeClass(out, file);
+      }
+      out.push("      </classes>");
+      out.push("    </package>");
+    }
+
+    out.push("  </packages>");
+    out.push("</coverage>");
+    return `${out.join("\n")}\n`;
+  }
+
+  /**
+   * Append the <class> element of a file
+   */
+  private writeClass(out: string[], file: FileCoverage): void {
+    out.push(
+      `        <class name="${escapeXml(file.name)}" filename="${escapeXml(file.path)}" ${formatRates(countLines([file]))} complexity="0">`,
+    );
+    this.writeMethods(out, file);
+    out.push("          <lines>");
+    for (const line of file.lines) {
+      const arms = getBranchArms(line);
+      const branch = arms
+        ? ` branch="true" condition-coverage="${Math.round(
+            (arms.covered / arms.total) * 100,
+          )}% (${arms.covered}/${arms.total})"`
+        : ' branch="false"';
+      out.push(
+        `            <line number="${line.lineNumber}" hits="${line.count}"${branch}/>`,
+      );
+    }
+    out.push("          </lines>");
+    out.push("        </class>");
+  }
+
+  /**
+   * Append the <methods> element of a file. Method totals without function
+   * records (e.g. LCOV FNF/FNH alone) are written as unnamed methods so they
+   * read back as the same counts.
+   */
+  private writeMethods(out: string[], file: FileCoverage): void {
+    const methods = (file.functions ?? []).map((fn) => ({
+      name: fn.name,
+      line: fn.startLine,
+      hits: fn.hits,
+      lineRate: formatMethodRate(file, fn),
+    }));
+
+    const unnamed = Math.max(0, file.methods - methods.length);
+    const unnamedCovered = Math.min(
+      unnamed,
+      Math.max(
+        0,
+        file.coveredMethods - methods.filter((m) => m.hits > 0).length,
+      ),
+    );
+    const firstLine =
+      file.lines.find((line) => line.count > 0)?.lineNumber ??
+      file.lines[0]?.lineNumber ??
+      1;
+    for (let i = 0; i < unnamed; i++) {
+      const covered = i < unnamedCovered;
+      methods.push({
+        name: "",
+        line: firstLine,
+        hits: covered ? 1 : 0,
+        lineRate: covered ? "1" : "0",
+      });
+    }
+
+    if (methods.length === 0) {
+      out.push("          <methods/>");
+      return;
+    }
+
+    out.push("          <methods>");
+    for (const method of methods) {
+      out.push(
+        `            <method name="${escapeXml(method.name)}" signature="" line-rate="${method.lineRate}" branch-rate="1" complexity="0">`,
+      );
+      out.push("              <lines>");
+      out.push(
+        `                <line number="${method.line}" hits="${method.hits}" branch="false"/>`,
+      );
+      out.push("              </lines>");
+      out.push("            </method>");
+    }
+    out.push("          </methods>");
+  }
+}
@@ -0,0 +1,35 @@
+import type { AggregatedCoverageResults } from "../types/coverage.js";
+import {
+  type ExportFormat,
+  getBranchArms,
+  type ICoverageWriter,
+} from "./base-writer.js";
+
+/**
+ * Writes Codecov custom coverage JSON
+ * ({ "coverage": { "<path>": { "<line>": hits | "covered/total" } } })
+ *
+ * Branch lines are written as "covered/total", which Codecov reads as
+ * covered when any arm was taken; the format has no method counts.
+ */
+export class CodecovWriter implements ICoverageWriter {
+  readonly format: ExportFormat = "codecov";
+  readonly fileName = "codecov.json";
+
+  write(results: AggregatedCoverageResults): string {
+    const coverage: Record<string, Record<string, number | string>> = {};
+
+    for (const file of results.files) {
+      const lines: Record<string, number | string> = {};
+      for (const line of file.lines) {
+        const arms = getBranchArms(line);
+        lines[line.lineNumber] = arms
+          ? `${arms.covered}/${arms.total}`
+          : line.count;
+      }
+      coverage[file.path] = lines;
+    }
+
+    return `${JSON.stringify({ coverage })}\n`;
+  }
+}
@@ -0,0 +1,73 @@
+import type { AggregatedCoverageResults } from "../types/coverage.js";
+import {
+  type ExportFormat,
+  getBranchArms,
+  type ICoverageWriter,
+} from "./base-writer.js";
+
+/**
+ * Writes LCOV tracefiles (lcov.info)
+ *
+ * Summary records (LF/LH, BRF/BRH, FNF/FNH) carry each file's statement,
+ * branch and method totals, so reading the file back gives the same
+ * metrics even for formats whose statements aren't lines (e.g. Go).
+ * Branch arms are written by number; labels (e.g. Istanbul's then/else)
+ * are left out, as readers expect a number in BRDA's branch field. Lines
+ * without individual arms get arms numbered in one block per line.
+ * Functions with an end line use the lcov 2.x FN:<start>,<end>,<name> form.
+ */
+export class LcovWriter implements ICoverageWriter {
+  readonly format: ExportFormat = "lcov";
+  readonly fileName = "lcov.info";
+
+  write(results: AggregatedCoverageResults): string {
+    const out: string[] = [];
+
+    for (const file of results.files) {
+      out.push("TN:");
+      out.push(`SF:${file.path}`);
+      for (const fn of file.functions ?? []) {
+        const range = fn.endLine
+          ? `${fn.startLine},${fn.endLine}`
+          : `${fn.startLine}`;
+        out.push(`FN:${range},${fn.name}`);
+      }
+      for (const fn of file.functions ?? []) {
+        out.push(`FNDA:${fn.hits},${fn.name}`);
+      }
+      out.push(`FNF:${file.methods}`);
+      out.push(`FNH:${file.coveredMethods}`);
+
+      for (const line of file.lines) {
+        // "-" marks arms of lines that never ran
+        const notRun = line.count > 0 ? 0 : "-";
+        if (line.branches && line.branches.length > 0) {
+          for (const arm of line.branches) {
+            const taken = arm.taken > 0 ? arm.taken : notRun;
+            out.push(
+              `BRDA:${line.lineNumber},${arm.block},${arm.branch},${taken}`,
+            );
+          }
+          continue;
+        }
+        const arms = getBranchArms(line);
+        if (!arms) continue;
+        for (let arm = 0; arm < arms.total; arm++) {
+          const taken = arm < arms.covered ? 1 : notRun;
+          out.push(`BRDA:${line.lineNumber},0,${arm},${taken}`);
+        }
+      }
+      out.push(`BRF:${file.conditionals}`);
+      out.push(`BRH:${file.coveredConditionals}`);
+
+      for (const line of file.lines) {
+        out.push(`DA:${line.lineNumber},${line.count}`);
+      }
+      out.push(`LF:${file.statements}`);
+      out.push(`LH:${file.coveredStatements}`);
+      out.push("end_of_record");
+    }
+
+    return `${out.join("\n")}\n`;
+  }
+}
@@ -0,0 +1,77 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { AggregatedCoverageResults } from "../types/coverage.js";
+import type { ExportFormat, ICoverageWriter } from "./base-writer.js";
+import { CoberturaWriter } from "./cobertura-writer.js";
+import { CodecovWriter } from "./codecov-writer.js";
+import { LcovWriter } from "./lcov-writer.js";
+
+/**
+ * Registry of all available coverage writers
+ */
+const WRITERS: ICoverageWriter[] = [
+  new LcovWriter(),
+  new CoberturaWriter(),
+  new CodecovWriter(),
+];
+
+/**
+ * Factory for serializing merged coverage to other formats
+ */
+export const CoverageWriterFactory = {
+  /**
+   * Get a writer for a specific format
+   * @param format The export format
+   * @returns The writer for that format
+   * @throws Error if format is not supported
+   */
+  getWriter(format: ExportFormat): ICoverageWriter {
+    const writer = WRITERS.find((w) => w.format === format);
+    if (!writer) {
+      throw new Error(`Unsupported export format: ${format}`);
+    }
+    return writer;
+  },
+
+  /**
+   * Get list of supported export format names
+   */
+  getSupportedFormats(): ExportFormat[] {
+    return WRITERS.map((w) => w.format);
+  },
+
+  /**
+   * Check if a string is a supported export format
+   */
+  isSupportedFormat(format: string): format is ExportFormat {
+    return WRITERS.some((w) => w.format === format);
+  },
+
+  /**
+   * Write merged coverage to a directory in each of the given formats
+   * @param results Aggregated coverage results
+   * @param formats Formats to write
+   * @param directory Directory to write to; created if missing
+   * @returns Path of the file written for each format
+   */
+  exportResults(
+    results: AggregatedCoverageResults,
+    formats: ExportFormat[],
+    directory: string,
+  ): Map<ExportFormat, string> {
+    fs.mkdirSync(directory, { recursive: true });
+    const written: Map<ExportFormat, string> = new Map();
+    for (const format of formats) {
+      const writer = CoverageWriterFactory.getWriter(format);
+      const filePath = path.join(directory, writer.fileName);
+      fs.writeFileSync(filePath, writer.write(results));
+      written.set(format, filePath);
+    }
+    return written;
+  },
+};
+
+export type { ExportFormat, ICoverageWriter } from "./base-writer.js";
+export { CoberturaWriter } from "./cobertura-writer.js";
+export { CodecovWriter } from "./codecov-writer.js";
+export { LcovWriter } from "./lcov-writer.js";